@@ -1,38 +1,222 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import styled from 'styled-components';
 import SystemInfo from './components/SystemInfo';
+import DiskInfo from './components/DiskInfo';
+import NetworkInfo from './components/NetworkInfo';
 import ProcessList from './components/ProcessList';
-import useSocket from './hooks/useSocket';
+import AlertsPanel from './components/AlertsPanel';
+import Login from './components/Login';
+import ActivityLog from './components/ActivityLog';
+import HostOverview from './components/HostOverview';
+import { SERVER_URL } from './config';
+import type { SubscribeRequest } from '../../shared/protocol';
+import {
+  ConnectionsProvider,
+  SocketProvider,
+  useAlerts,
+  useCollectorStatus,
+  useConnectionStatus,
+  useDiskInfo,
+  useNetworkInfo,
+  useServerUrl,
+  useStreams,
+  useSystemInfo
+} from './hooks/useSocket';
+import useAuth, { AuthSession, getStoredSession } from './hooks/useAuth';
+import useHosts from './hooks/useHosts';
 
-const App: React.FC = () => {
-  const { systemInfo, connectionError } = useSocket();
+// Each panel subscribes to its own slices of the connection, so a tick of one
+// stream only re-renders the panel showing it
+const SystemPanel: React.FC = () => {
+  const serverUrl = useServerUrl();
+  const { systemInfo, cpuCores } = useSystemInfo();
+  const { streams, updateStreams } = useStreams();
+  const collectorStatus = useCollectorStatus();
+  return (
+    <SystemInfo
+      serverUrl={serverUrl}
+      systemInfo={systemInfo}
+      cpuCores={cpuCores}
+      streamSettings={streams ? streams.system : null}
+      onStreamChange={settings => updateStreams({ system: settings, cores: settings })}
+      collectorStatus={collectorStatus?.collectors.system}
+    />
+  );
+};
+
+const DiskPanel: React.FC = () => {
+  const diskInfo = useDiskInfo();
+  const { streams, updateStreams } = useStreams();
+  const collectorStatus = useCollectorStatus();
+  return (
+    <DiskInfo
+      diskInfo={diskInfo}
+      streamSettings={streams ? streams.disks : null}
+      onStreamChange={settings => updateStreams({ disks: settings })}
+      collectorStatus={collectorStatus?.collectors.disks}
+    />
+  );
+};
+
+const NetworkPanel: React.FC = () => {
+  const networkInfo = useNetworkInfo();
+  const { streams, updateStreams } = useStreams();
+  const collectorStatus = useCollectorStatus();
+  return (
+    <NetworkInfo
+      networkInfo={networkInfo}
+      streamSettings={streams ? streams.network : null}
+      onStreamChange={settings => updateStreams({ network: settings })}
+      collectorStatus={collectorStatus?.collectors.network}
+    />
+  );
+};
+
+const AlertsSection: React.FC = () => {
+  const { activeAlerts, alertEvents } = useAlerts();
+  return <AlertsPanel activeAlerts={activeAlerts} alertEvents={alertEvents} />;
+};
+
+// Until a host is opened in the dashboard its connection only carries what
+// the overview cards show
+const OVERVIEW_STREAMS: SubscribeRequest = {
+  cores: { enabled: false },
+  processes: { enabled: false },
+  disks: { enabled: false },
+  network: { enabled: false }
+};
+
+const ALL_STREAMS: SubscribeRequest = {
+  cores: { enabled: true },
+  processes: { enabled: true },
+  disks: { enabled: true },
+  network: { enabled: true }
+};
+
+// Everything about the host of the surrounding SocketProvider
+const HostDashboard: React.FC = () => {
+  const url = useServerUrl();
+  const { connectionError } = useConnectionStatus();
+  const collectorStatus = useCollectorStatus();
+  const { updateStreams } = useStreams();
+
+  useEffect(() => {
+    updateStreams(ALL_STREAMS);
+    return () => updateStreams(OVERVIEW_STREAMS);
+  }, [updateStreams]);
+
+  // Servers without users let everyone signal
+  const session = getStoredSession(url);
+  const canSignal = !session || !session.token || session.user.role === 'operator';
 
   return (
-    <Container>
-      <Header>
-        <Title>Process Monitor</Title>
-      </Header>
+    <>
+      {collectorStatus?.demo && (
+        <DemoBanner>
+          Demo mode: the server generates this data, none of it describes a real machine
+        </DemoBanner>
+      )}
+      {collectorStatus?.backend === 'replay' && (
+        <DemoBanner>
+          Replay: the server plays back a recording, this is not live data
+        </DemoBanner>
+      )}
 
       {connectionError && (
         <ErrorBanner>
           {connectionError}
           <br />
-          Please make sure the server is running on port 3000
+          Please make sure the server is running at {url}
         </ErrorBanner>
       )}
 
       <MainContent>
-        <SystemInfo systemInfo={systemInfo} />
-        <ProcessList />
+        <AlertsSection />
+        <SystemPanel />
+        <DiskPanel />
+        <NetworkPanel />
+        <ProcessList canSignal={canSignal} />
       </MainContent>
+    </>
+  );
+};
+
+interface DashboardProps {
+  session: AuthSession;
+  onLogout: () => void;
+}
+
+const Dashboard: React.FC<DashboardProps> = ({ session, onLogout }) => {
+  const { hosts, addHost, removeHost } = useHosts();
+  const [tab, setTab] = React.useState<'hosts' | 'dashboard' | 'activity'>('dashboard');
+  const [selectedUrl, setSelectedUrl] = React.useState(SERVER_URL);
+  // A removed host falls back to the dashboard's own server
+  const selected = hosts.find(host => host.url === selectedUrl) || hosts[0];
+
+  return (
+    <ConnectionsProvider urls={hosts.map(host => host.url)} streams={OVERVIEW_STREAMS}>
+      <Container>
+        <Header>
+          <Title>Process Monitor</Title>
+          <Tabs>
+            {hosts.length > 1 && (
+              <Tab active={tab === 'hosts'} onClick={() => setTab('hosts')}>Hosts</Tab>
+            )}
+            <Tab active={tab === 'dashboard'} onClick={() => setTab('dashboard')}>Dashboard</Tab>
+            <Tab active={tab === 'activity'} onClick={() => setTab('activity')}>Activity</Tab>
+          </Tabs>
+          <UserInfo>
+            {hosts.length > 1 && tab !== 'hosts' && <HostLabel title={selected.url}>{selected.name}</HostLabel>}
+            {session.user.username} ({session.user.role})
+            {session.token && <LogoutButton onClick={onLogout}>Log out</LogoutButton>}
+          </UserInfo>
+        </Header>
+
+        {tab === 'hosts' && (
+          <MainContent>
+            <HostOverview
+              hosts={hosts}
+              selectedUrl={selected.url}
+              onSelect={url => {
+                setSelectedUrl(url);
+                setTab('dashboard');
+              }}
+              onAdd={addHost}
+              onRemove={removeHost}
+            />
+          </MainContent>
+        )}
+        {tab === 'dashboard' && (
+          <SocketProvider url={selected.url}>
+            <HostDashboard key={selected.url} />
+          </SocketProvider>
+        )}
+        {tab === 'activity' && (
+          <MainContent>
+            <ActivityLog key={selected.url} serverUrl={selected.url} />
+          </MainContent>
+        )}
 
-      <Footer>
-        <FooterText>Real-Time Process Monitoring Dashboard</FooterText>
-      </Footer>
-    </Container>
+        <Footer>
+          <FooterText>Real-Time Process Monitoring Dashboard</FooterText>
+        </Footer>
+      </Container>
+    </ConnectionsProvider>
   );
 };
 
+// Shows the login screen until there is a session for the dashboard's own
+// server, then the dashboard with one connection per monitored server
+const App: React.FC = () => {
+  const { session, login, logout } = useAuth();
+
+  if (!session) {
+    return <Login onLogin={login} />;
+  }
+
+  return <Dashboard session={session} onLogout={logout} />;
+};
+
 const Container = styled.div`
   min-height: 100vh;
   background: #11111b;
@@ -45,6 +229,58 @@ const Header = styled.header`
   background: #1e1e2e;
   padding: 1rem;
   box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+`;
+
+const Tabs = styled.nav`
+  display: flex;
+  gap: 8px;
+`;
+
+const Tab = styled.button<{ active: boolean }>`
+  background: ${props => props.active ? '#313244' : 'none'};
+  color: ${props => props.active ? '#89b4fa' : '#bac2de'};
+  border: none;
+  border-radius: 4px;
+  padding: 6px 14px;
+  cursor: pointer;
+  font-weight: bold;
+
+  &:hover {
+    background: #313244;
+  }
+`;
+
+const UserInfo = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 12px;
+  color: #bac2de;
+  font-size: 0.9rem;
+`;
+
+const HostLabel = styled.span`
+  color: #89b4fa;
+  font-weight: bold;
+  max-width: 240px;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const LogoutButton = styled.button`
+  background-color: #313244;
+  color: #cdd6f4;
+  border: none;
+  border-radius: 4px;
+  padding: 6px 12px;
+  cursor: pointer;
+
+  &:hover {
+    background-color: #45475a;
+  }
 `;
 
 const Title = styled.h1`
@@ -74,6 +310,14 @@ const FooterText = styled.p`
   font-size: 0.9rem;
 `;
 
+const DemoBanner = styled.div`
+  background: #f9e2af;
+  color: #1e1e2e;
+  padding: 0.5rem 1rem;
+  text-align: center;
+  font-weight: 600;
+`;
+
 const ErrorBanner = styled.div`
   background: #f38ba8;
   color: #1e1e2e;
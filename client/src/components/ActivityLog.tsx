@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import useAuditLog, { AuditFilters } from '../hooks/useAuditLog';
+
+// datetime-local values are in the browser's timezone, send epoch ms instead
+const toEpoch = (value: string) => (value ? String(new Date(value).getTime()) : '');
+
+interface Props {
+  serverUrl: string;
+}
+
+// Who did what to which process, from the server's audit log
+const ActivityLog: React.FC<Props> = ({ serverUrl }) => {
+  const [form, setForm] = useState<AuditFilters>({ user: '', pid: '', process: '', result: '', from: '', to: '' });
+  const [filters, setFilters] = useState<AuditFilters>({});
+  const { entries, error, isLoading, refresh } = useAuditLog(serverUrl, filters);
+
+  const updateForm = (field: keyof AuditFilters) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => setForm({ ...form, [field]: e.target.value });
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters({ ...form, from: toEpoch(form.from || ''), to: toEpoch(form.to || '') });
+  };
+
+  return (
+    <Container>
+      <Header>Activity</Header>
+
+      <FilterForm onSubmit={handleApply}>
+        <input placeholder="User" value={form.user} onChange={updateForm('user')} />
+        <input placeholder="PID" value={form.pid} onChange={updateForm('pid')} />
+        <input placeholder="Process name or command" value={form.process} onChange={updateForm('process')} />
+        <select value={form.result} onChange={updateForm('result')}>
+          <option value="">Any result</option>
+          <option value="success">Success</option>
+          <option value="failure">Failure</option>
+          <option value="rejected">Rejected</option>
+        </select>
+        <label>
+          From
+          <input type="datetime-local" value={form.from} onChange={updateForm('from')} />
+        </label>
+        <label>
+          To
+          <input type="datetime-local" value={form.to} onChange={updateForm('to')} />
+        </label>
+        <ActionButton type="submit">Apply</ActionButton>
+        <ActionButton type="button" onClick={refresh} disabled={isLoading}>
+          {isLoading ? 'Loading...' : 'Refresh'}
+        </ActionButton>
+      </FilterForm>
+
+      {error && <ErrorMessage>{error}</ErrorMessage>}
+
+      <Table>
+        <thead>
+          <tr>
+            <th>Time</th>
+            <th>User</th>
+            <th>Source</th>
+            <th>Process</th>
+            <th>Signal</th>
+            <th>Result</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.length > 0 ? (
+            entries.map((entry, index) => (
+              <tr key={`${entry.timestamp}:${index}`}>
+                <td>{new Date(entry.timestamp).toLocaleString()}</td>
+                <td>{entry.actor.username} ({entry.actor.role})</td>
+                <td>{entry.source.ip || entry.source.socketId || '-'}</td>
+                <td title={entry.target.command}>
+                  {entry.target.name || 'unknown'} ({entry.target.pid ?? '?'})
+                  {entry.target.user && <Muted> as {entry.target.user}</Muted>}
+                </td>
+                <td>
+                  {entry.requestedSignal}
+                  {entry.signal && entry.signal !== entry.requestedSignal && <Muted> &rarr; {entry.signal}</Muted>}
+                </td>
+                <td>
+                  <ResultBadge result={entry.result}>{entry.result}</ResultBadge>
+                  <Muted> {entry.code ? `${entry.code}: ` : ''}{entry.message}</Muted>
+                </td>
+              </tr>
+            ))
+          ) : (
+            <tr>
+              <td colSpan={6} style={{ textAlign: 'center' }}>
+                {isLoading ? 'Loading...' : 'No matching activity'}
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </Table>
+    </Container>
+  );
+};
+
+const Container = styled.div`
+  padding: 20px;
+  background-color: #1e1e2e;
+  border-radius: 8px;
+  box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+`;
+
+const Header = styled.h2`
+  margin-top: 0;
+  margin-bottom: 16px;
+  color: #cdd6f4;
+  font-size: 1.5rem;
+`;
+
+const FilterForm = styled.form`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 10px;
+  align-items: center;
+  margin-bottom: 16px;
+  color: #cdd6f4;
+
+  input, select {
+    padding: 8px;
+    background-color: #313244;
+    border: none;
+    border-radius: 4px;
+    color: #cdd6f4;
+    font-size: 14px;
+
+    &:focus {
+      outline: none;
+      box-shadow: 0 0 0 2px #89b4fa;
+    }
+  }
+
+  label {
+    display: flex;
+    align-items: center;
+    gap: 6px;
+  }
+`;
+
+const ActionButton = styled.button`
+  background-color: #89b4fa;
+  color: #11111b;
+  border: none;
+  border-radius: 4px;
+  padding: 8px 14px;
+  cursor: pointer;
+  font-weight: bold;
+
+  &:disabled {
+    opacity: 0.6;
+    cursor: not-allowed;
+  }
+`;
+
+const ErrorMessage = styled.div`
+  background-color: #f38ba8;
+  color: #11111b;
+  padding: 15px;
+  border-radius: 4px;
+  margin-bottom: 20px;
+  font-weight: bold;
+`;
+
+const Table = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  color: #cdd6f4;
+
+  th, td {
+    padding: 10px 12px;
+    text-align: left;
+    border-bottom: 1px solid #313244;
+    vertical-align: top;
+  }
+
+  th {
+    background-color: #181825;
+    font-weight: bold;
+  }
+`;
+
+const Muted = styled.span`
+  color: #6c7086;
+`;
+
+const ResultBadge = styled.span<{ result: 'success' | 'failure' | 'rejected' }>`
+  display: inline-block;
+  padding: 2px 6px;
+  border-radius: 4px;
+  font-size: 12px;
+  font-weight: bold;
+  background-color: ${props => props.result === 'success' ? 'rgba(166, 227, 161, 0.2)' : props.result === 'failure' ? 'rgba(243, 139, 168, 0.2)' : 'rgba(249, 226, 175, 0.2)'};
+  color: ${props => props.result === 'success' ? '#a6e3a1' : props.result === 'failure' ? '#f38ba8' : '#f9e2af'};
+`;
+
+export default ActivityLog;
@@ -0,0 +1,167 @@
+import React from 'react';
+import styled from 'styled-components';
+import { Alert } from '../hooks/useSocket';
+
+interface Props {
+  activeAlerts: Alert[];
+  alertEvents: Alert[];
+}
+
+const formatTime = (time: number) => new Date(time).toLocaleTimeString();
+
+// Firing alerts plus the most recent firing/resolved transitions
+const AlertsPanel: React.FC<Props> = ({ activeAlerts, alertEvents }) => {
+  const [showHistory, setShowHistory] = React.useState(false);
+
+  return (
+    <Container>
+      <HeaderRow>
+        <Header>
+          Alerts
+          <AlertCount active={activeAlerts.length > 0}>{activeAlerts.length} firing</AlertCount>
+        </Header>
+        <ToggleButton onClick={() => setShowHistory(!showHistory)}>
+          {showHistory ? 'Hide recent activity' : `Recent activity (${alertEvents.length})`}
+        </ToggleButton>
+      </HeaderRow>
+
+      {activeAlerts.length === 0 ? (
+        <EmptyMessage>No alerts are firing</EmptyMessage>
+      ) : (
+        <AlertList>
+          {activeAlerts.map(alert => (
+            <AlertItem key={alert.id} severity={alert.severity}>
+              <AlertTitle>{alert.ruleName}</AlertTitle>
+              <AlertMessage>{alert.message}</AlertMessage>
+              <AlertMeta>Since {formatTime(alert.startedAt)}</AlertMeta>
+            </AlertItem>
+          ))}
+        </AlertList>
+      )}
+
+      {showHistory && (
+        <HistoryList>
+          {alertEvents.length === 0 ? (
+            <EmptyMessage>No alert activity since the dashboard was opened</EmptyMessage>
+          ) : (
+            alertEvents.map(alert => (
+              <HistoryItem key={`${alert.id}:${alert.state}`}>
+                <StateBadge state={alert.state}>{alert.state}</StateBadge>
+                <span>{formatTime(alert.resolvedAt ?? alert.startedAt)}</span>
+                <span>{alert.ruleName}: {alert.message}</span>
+              </HistoryItem>
+            ))
+          )}
+        </HistoryList>
+      )}
+    </Container>
+  );
+};
+
+const Container = styled.div`
+  background-color: #1e1e2e;
+  border-radius: 8px;
+  padding: 16px;
+  color: #cdd6f4;
+  box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+`;
+
+const HeaderRow = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  margin-bottom: 12px;
+`;
+
+const Header = styled.h2`
+  margin: 0;
+  color: #cdd6f4;
+  font-size: 1.5rem;
+  display: flex;
+  align-items: center;
+  gap: 12px;
+`;
+
+const AlertCount = styled.span<{ active: boolean }>`
+  font-size: 0.9rem;
+  padding: 2px 8px;
+  border-radius: 4px;
+  background-color: ${props => props.active ? '#f38ba8' : '#313244'};
+  color: ${props => props.active ? '#11111b' : '#bac2de'};
+`;
+
+const ToggleButton = styled.button`
+  background-color: #313244;
+  color: #cdd6f4;
+  border: none;
+  border-radius: 4px;
+  padding: 6px 12px;
+  cursor: pointer;
+
+  &:hover {
+    background-color: #45475a;
+  }
+`;
+
+const EmptyMessage = styled.div`
+  color: #6c7086;
+  font-style: italic;
+`;
+
+const AlertList = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+`;
+
+const AlertItem = styled.div<{ severity: 'warning' | 'critical' }>`
+  background-color: #11111b;
+  border-left: 4px solid ${props => props.severity === 'critical' ? '#f38ba8' : '#f9e2af'};
+  border-radius: 4px;
+  padding: 10px 12px;
+`;
+
+const AlertTitle = styled.div`
+  font-weight: bold;
+  margin-bottom: 4px;
+`;
+
+const AlertMessage = styled.div`
+  color: #bac2de;
+`;
+
+const AlertMeta = styled.div`
+  font-size: 12px;
+  color: #6c7086;
+  margin-top: 4px;
+`;
+
+const HistoryList = styled.div`
+  margin-top: 12px;
+  border-top: 1px solid #313244;
+  padding-top: 12px;
+  max-height: 240px;
+  overflow-y: auto;
+`;
+
+const HistoryItem = styled.div`
+  display: flex;
+  gap: 12px;
+  align-items: center;
+  padding: 4px 0;
+  font-size: 14px;
+  color: #bac2de;
+`;
+
+const StateBadge = styled.span<{ state: 'firing' | 'resolved' }>`
+  flex: 0 0 70px;
+  text-align: center;
+  padding: 2px 6px;
+  border-radius: 4px;
+  font-size: 12px;
+  font-weight: bold;
+  background-color: ${props => props.state === 'firing' ? 'rgba(243, 139, 168, 0.2)' : 'rgba(166, 227, 161, 0.2)'};
+  color: ${props => props.state === 'firing' ? '#f38ba8' : '#a6e3a1'};
+`;
+
+export default AlertsPanel;
@@ -0,0 +1,55 @@
+import React from 'react';
+import styled from 'styled-components';
+import { CollectorStatus } from '../hooks/useSocket';
+
+interface Props {
+  status: CollectorStatus | undefined;
+}
+
+// Says so when the server could not collect a panel's data: partly missing
+// (degraded), or failing, in which case the panel shows the last good sample
+// or nothing at all. Renders nothing while the collector is fine.
+const CollectorStatusNotice: React.FC<Props> = ({ status }) => {
+  if (!status || status.state === 'ok') return null;
+
+  if (status.state === 'degraded') {
+    return (
+      <Notice color="#f9e2af">
+        <Label>Partially unavailable</Label> {status.reason}
+      </Notice>
+    );
+  }
+
+  return (
+    <Notice color="#f38ba8">
+      {status.lastSuccess ? (
+        <>
+          <Label>Stale</Label> showing data from {new Date(status.lastSuccess).toLocaleTimeString()},
+          collection has failed since:
+        </>
+      ) : (
+        <><Label>Unavailable</Label> collection has never succeeded:</>
+      )}{' '}
+      {status.reason}
+    </Notice>
+  );
+};
+
+const Notice = styled.div<{ color: string }>`
+  border: 1px solid ${props => props.color};
+  border-left-width: 4px;
+  border-radius: 4px;
+  padding: 8px 12px;
+  margin-bottom: 16px;
+  color: #cdd6f4;
+  font-size: 0.9rem;
+  background-color: #181825;
+`;
+
+const Label = styled.strong`
+  text-transform: uppercase;
+  font-size: 0.8rem;
+  letter-spacing: 0.05em;
+`;
+
+export default CollectorStatusNotice;
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { COLUMNS, ColumnId, ColumnSettings } from '../hooks/useProcessColumns';
+
+interface Props {
+  // Every column in display order, hidden ones included
+  columns: ColumnSettings[];
+  onToggle: (id: ColumnId) => void;
+  onReset: () => void;
+}
+
+// Shows and hides the process table's columns; they are reordered and
+// resized in the table header itself
+const ColumnPicker: React.FC<Props> = ({ columns, onToggle, onReset }) => {
+  const [open, setOpen] = useState(false);
+  const visibleCount = columns.filter(column => column.visible).length;
+
+  return (
+    <Picker>
+      <PickerButton active={open} onClick={() => setOpen(!open)}>
+        Columns ({visibleCount}/{columns.length})
+      </PickerButton>
+      {open && (
+        <Menu>
+          {columns.map(column => (
+            <Option key={column.id}>
+              <input
+                type="checkbox"
+                checked={column.visible}
+                // The table keeps at least one column besides the actions
+                disabled={column.visible && visibleCount === 1}
+                onChange={() => onToggle(column.id)}
+              />
+              {COLUMNS.find(definition => definition.id === column.id)?.label}
+            </Option>
+          ))}
+          <ResetButton onClick={onReset}>Reset columns</ResetButton>
+        </Menu>
+      )}
+    </Picker>
+  );
+};
+
+const Picker = styled.div`
+  position: relative;
+`;
+
+const PickerButton = styled.button<{ active: boolean }>`
+  background-color: ${props => props.active ? '#45475a' : '#313244'};
+  color: #cdd6f4;
+  border: none;
+  border-radius: 4px;
+  padding: 6px 12px;
+  cursor: pointer;
+
+  &:hover {
+    background-color: #45475a;
+  }
+`;
+
+const Menu = styled.div`
+  position: absolute;
+  top: 100%;
+  right: 0;
+  z-index: 10;
+  margin-top: 4px;
+  padding: 8px;
+  min-width: 180px;
+  background-color: #181825;
+  border: 1px solid #313244;
+  border-radius: 4px;
+  box-shadow: 0 4px 12px rgba(0, 0, 0, 0.3);
+`;
+
+const Option = styled.label`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  padding: 4px;
+  color: #cdd6f4;
+  font-size: 14px;
+  cursor: pointer;
+`;
+
+const ResetButton = styled.button`
+  width: 100%;
+  margin-top: 6px;
+  background: none;
+  color: #89b4fa;
+  border: 1px solid #313244;
+  border-radius: 4px;
+  padding: 4px;
+  cursor: pointer;
+
+  &:hover {
+    background-color: #313244;
+  }
+`;
+
+export default ColumnPicker;
@@ -0,0 +1,345 @@
+import React from 'react';
+import styled from 'styled-components';
+import { Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend,
+  ChartData
+} from 'chart.js';
+import { CollectorStatus, DiskInfo as DiskInfoType, StreamSettings } from '../hooks/useSocket';
+import StreamControls from './StreamControls';
+import CollectorStatusNotice from './CollectorStatusNotice';
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend
+);
+
+interface Props {
+  diskInfo: DiskInfoType | null;
+  streamSettings: StreamSettings | null;
+  onStreamChange: (settings: Partial<StreamSettings>) => void;
+  collectorStatus: CollectorStatus | undefined;
+}
+
+const LIVE_POINTS = 30;
+const MB = 1024 * 1024;
+
+// Usage above these percentages is shown as a warning / as critical
+const WARNING_USAGE = 80;
+const CRITICAL_USAGE = 90;
+
+const usageColor = (percent: number): string =>
+  percent >= CRITICAL_USAGE ? '#f38ba8' : percent >= WARNING_USAGE ? '#f9e2af' : '#89b4fa';
+
+// Filesystem usage per mount, disk throughput and the busiest processes by I/O
+const DiskInfo: React.FC<Props> = ({ diskInfo, streamSettings, onStreamChange, collectorStatus }) => {
+  const [readHistory, setReadHistory] = React.useState<number[]>(Array(LIVE_POINTS).fill(0));
+  const [writeHistory, setWriteHistory] = React.useState<number[]>(Array(LIVE_POINTS).fill(0));
+
+  React.useEffect(() => {
+    if (diskInfo && diskInfo.io) {
+      const { readBytesPerSec, writeBytesPerSec } = diskInfo.io;
+      setReadHistory(prev => [...prev, readBytesPerSec / MB].slice(-LIVE_POINTS));
+      setWriteHistory(prev => [...prev, writeBytesPerSec / MB].slice(-LIVE_POINTS));
+    }
+  }, [diskInfo]);
+
+  const sampleSeconds = (streamSettings?.interval ?? 5000) / 1000;
+  const throughputData: ChartData<'line'> = {
+    labels: Array.from({ length: LIVE_POINTS }, (_, i) => `${(-(LIVE_POINTS - 1) + i) * sampleSeconds}s`),
+    datasets: [
+      {
+        label: 'Read MB/s',
+        data: readHistory,
+        borderColor: 'rgb(137, 180, 250)',
+        backgroundColor: 'rgba(137, 180, 250, 0.5)',
+        tension: 0.3,
+      },
+      {
+        label: 'Write MB/s',
+        data: writeHistory,
+        borderColor: 'rgb(250, 179, 135)',
+        backgroundColor: 'rgba(250, 179, 135, 0.5)',
+        tension: 0.3,
+      },
+    ],
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: 'top' as const,
+      },
+    },
+    scales: {
+      y: {
+        min: 0,
+      },
+    },
+  };
+
+  return (
+    <Container>
+      <HeaderRow>
+        <Header>Disks</Header>
+        <StreamControls settings={streamSettings} onChange={onStreamChange} />
+      </HeaderRow>
+      <CollectorStatusNotice status={collectorStatus} />
+
+      {diskInfo ? (
+        <>
+          <MountGrid>
+            {diskInfo.filesystems.map(fs => {
+              const percent = Math.min(parseFloat(fs.usedPercent) || 0, 100);
+              return (
+                <MountCard key={`${fs.fs}:${fs.mount}`}>
+                  <MountTitle title={`${fs.fs} (${fs.type})`}>
+                    {fs.mount}
+                    {fs.readOnly && <ReadOnly>read-only</ReadOnly>}
+                  </MountTitle>
+                  <MountValue color={usageColor(percent)}>{percent.toFixed(1)}%</MountValue>
+                  <ProgressBar>
+                    <Progress width={percent} color={usageColor(percent)} />
+                  </ProgressBar>
+                  <MountDetail>
+                    {formatBytes(fs.used)} / {formatBytes(fs.size)} ({formatBytes(fs.available)} free)
+                  </MountDetail>
+                </MountCard>
+              );
+            })}
+          </MountGrid>
+
+          <IoGrid>
+            <Card>
+              <CardTitle>Throughput</CardTitle>
+              {diskInfo.io ? (
+                <CardValue>
+                  {formatRate(diskInfo.io.readBytesPerSec)} read, {formatRate(diskInfo.io.writeBytesPerSec)} written
+                  <OpsDetail>
+                    {diskInfo.io.readOpsPerSec.toFixed(0)} reads/s, {diskInfo.io.writeOpsPerSec.toFixed(0)} writes/s
+                  </OpsDetail>
+                </CardValue>
+              ) : (
+                <Unavailable>Waiting for a second sample, or not reported by this platform</Unavailable>
+              )}
+              <ChartContainer>
+                <Line options={options} data={throughputData} />
+              </ChartContainer>
+            </Card>
+
+            <Card>
+              <CardTitle>Top processes by I/O</CardTitle>
+              {diskInfo.topProcesses === null ? (
+                <Unavailable>Per-process I/O is not available on this server</Unavailable>
+              ) : diskInfo.topProcesses.length === 0 ? (
+                <Unavailable>No process is reading or writing</Unavailable>
+              ) : (
+                <IoTable>
+                  <thead>
+                    <tr>
+                      <th>PID</th>
+                      <th>Name</th>
+                      <th>Read</th>
+                      <th>Write</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {diskInfo.topProcesses.map(proc => (
+                      <tr key={proc.pid}>
+                        <td>{proc.pid}</td>
+                        <td>{proc.name}</td>
+                        <td>{formatRate(proc.readBytesPerSec)}</td>
+                        <td>{formatRate(proc.writeBytesPerSec)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </IoTable>
+              )}
+            </Card>
+          </IoGrid>
+        </>
+      ) : collectorStatus?.state !== 'failed' && (
+        <LoadingMessage>Loading disk information...</LoadingMessage>
+      )}
+    </Container>
+  );
+};
+
+// Helper function to format bytes to human-readable format
+const formatBytes = (bytes: number): string => {
+  if (bytes === 0) return '0 Bytes';
+
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB', 'PB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+const formatRate = (bytesPerSec: number): string =>
+  `${formatBytes(Math.round(bytesPerSec))}/s`;
+
+// Styled components
+const Container = styled.div`
+  background-color: #1e1e2e;
+  border-radius: 8px;
+  padding: 16px;
+  color: #cdd6f4;
+  box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+`;
+
+const HeaderRow = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  justify-content: space-between;
+  align-items: center;
+  gap: 8px;
+  margin-bottom: 16px;
+`;
+
+const Header = styled.h2`
+  margin: 0;
+  color: #cdd6f4;
+  font-size: 1.5rem;
+`;
+
+const MountGrid = styled.div`
+  display: grid;
+  grid-template-columns: repeat(auto-fill, minmax(240px, 1fr));
+  gap: 16px;
+  margin-bottom: 16px;
+`;
+
+const MountCard = styled.div`
+  background-color: #11111b;
+  border-radius: 8px;
+  padding: 12px;
+`;
+
+const MountTitle = styled.div`
+  font-size: 0.9rem;
+  margin-bottom: 8px;
+  color: #bac2de;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const ReadOnly = styled.span`
+  margin-left: 8px;
+  color: #6c7086;
+  font-size: 0.8rem;
+`;
+
+const MountValue = styled.div<{ color: string }>`
+  font-size: 1.2rem;
+  font-weight: bold;
+  margin-bottom: 8px;
+  color: ${props => props.color};
+`;
+
+const MountDetail = styled.div`
+  margin-top: 8px;
+  font-size: 0.85rem;
+  color: #bac2de;
+`;
+
+const ProgressBar = styled.div`
+  height: 8px;
+  width: 100%;
+  background-color: #313244;
+  border-radius: 4px;
+  overflow: hidden;
+`;
+
+const Progress = styled.div<{ width: number; color: string }>`
+  height: 100%;
+  width: ${props => `${props.width}%`};
+  background-color: ${props => props.color};
+  border-radius: 4px;
+`;
+
+const IoGrid = styled.div`
+  display: grid;
+  grid-template-columns: 1fr 1fr;
+  gap: 16px;
+
+  @media (max-width: 768px) {
+    grid-template-columns: 1fr;
+  }
+`;
+
+const Card = styled.div`
+  background-color: #11111b;
+  border-radius: 8px;
+  padding: 16px;
+  box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+`;
+
+const CardTitle = styled.h3`
+  margin-top: 0;
+  margin-bottom: 8px;
+  color: #cdd6f4;
+  font-size: 1rem;
+`;
+
+const CardValue = styled.div`
+  font-size: 1.1rem;
+  font-weight: bold;
+  margin-bottom: 8px;
+  color: #89b4fa;
+`;
+
+const OpsDetail = styled.div`
+  font-size: 0.85rem;
+  font-weight: normal;
+  color: #bac2de;
+  margin-top: 4px;
+`;
+
+const ChartContainer = styled.div`
+  height: 200px;
+`;
+
+const IoTable = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+
+  th, td {
+    padding: 8px;
+    text-align: left;
+    border-bottom: 1px solid #313244;
+  }
+
+  th {
+    color: #bac2de;
+    font-weight: normal;
+  }
+`;
+
+const Unavailable = styled.div`
+  color: #6c7086;
+  font-style: italic;
+  margin-bottom: 8px;
+`;
+
+const LoadingMessage = styled.div`
+  text-align: center;
+  padding: 32px;
+  color: #bac2de;
+  font-style: italic;
+`;
+
+export default DiskInfo;
@@ -0,0 +1,354 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { Host } from '../hooks/useHosts';
+import { loginTo } from '../hooks/useAuth';
+import {
+  SocketProvider,
+  useAlerts,
+  useCollectorStatus,
+  useConnectionStatus,
+  useSystemInfo
+} from '../hooks/useSocket';
+
+interface Props {
+  hosts: Host[];
+  selectedUrl: string;
+  onSelect: (url: string) => void;
+  // Throws with a message to show when the host cannot be added
+  onAdd: (name: string, url: string) => void;
+  onRemove: (url: string) => void;
+}
+
+const WARNING_USAGE = 80;
+const CRITICAL_USAGE = 90;
+
+const usageColor = (percent: number): string =>
+  percent >= CRITICAL_USAGE ? '#f38ba8' : percent >= WARNING_USAGE ? '#f9e2af' : '#89b4fa';
+
+// One card per monitored server with its CPU, memory and alerts; clicking a
+// card shows that server in the dashboard
+const HostOverview: React.FC<Props> = ({ hosts, selectedUrl, onSelect, onAdd, onRemove }) => (
+  <Container>
+    <Header>Hosts</Header>
+    <HostGrid>
+      {hosts.map(host => (
+        <SocketProvider key={host.url} url={host.url}>
+          <HostCard
+            host={host}
+            selected={host.url === selectedUrl}
+            onSelect={() => onSelect(host.url)}
+            onRemove={host.source === 'browser' ? () => onRemove(host.url) : undefined}
+          />
+        </SocketProvider>
+      ))}
+    </HostGrid>
+    <AddHostForm onAdd={onAdd} />
+  </Container>
+);
+
+interface HostCardProps {
+  host: Host;
+  selected: boolean;
+  onSelect: () => void;
+  onRemove?: () => void;
+}
+
+const HostCard: React.FC<HostCardProps> = ({ host, selected, onSelect, onRemove }) => {
+  const { isConnected, connectionError, authRequired } = useConnectionStatus();
+  const { systemInfo } = useSystemInfo();
+  const { activeAlerts } = useAlerts();
+  const collectorStatus = useCollectorStatus();
+
+  const cpu = systemInfo ? Number(systemInfo.cpu.load) : null;
+  const memory = systemInfo ? Number(systemInfo.memory.usedPercent) : null;
+  const critical = activeAlerts.some(alert => alert.severity === 'critical');
+  const failing = Object.values(collectorStatus?.collectors || {}).filter(status => status?.state === 'failed').length;
+  const status = authRequired ? 'Login required' : isConnected ? 'Online' : connectionError ? 'Offline' : 'Connecting...';
+
+  return (
+    <Card selected={selected} onClick={authRequired ? undefined : onSelect} clickable={!authRequired}>
+      <CardHeader>
+        <HostName title={host.name}>{host.name}</HostName>
+        <Status color={isConnected ? '#a6e3a1' : authRequired ? '#f9e2af' : '#f38ba8'}>{status}</Status>
+      </CardHeader>
+      <HostUrl title={host.url}>{host.url}</HostUrl>
+
+      {authRequired ? (
+        <HostLogin url={host.url} />
+      ) : (
+        <>
+          <Metric>
+            <MetricLabel>CPU</MetricLabel>
+            <ProgressBar>
+              {cpu !== null && <Progress width={Math.min(cpu, 100)} color={usageColor(cpu)} />}
+            </ProgressBar>
+            <MetricValue>{cpu !== null ? `${cpu.toFixed(1)}%` : '-'}</MetricValue>
+          </Metric>
+          <Metric>
+            <MetricLabel>Memory</MetricLabel>
+            <ProgressBar>
+              {memory !== null && <Progress width={memory} color={usageColor(memory)} />}
+            </ProgressBar>
+            <MetricValue>{memory !== null ? `${memory.toFixed(1)}%` : '-'}</MetricValue>
+          </Metric>
+          <Tags>
+            <Tag color={activeAlerts.length === 0 ? '#a6e3a1' : critical ? '#f38ba8' : '#f9e2af'}>
+              {activeAlerts.length === 0 ? 'No alerts' : `${activeAlerts.length} firing`}
+            </Tag>
+            {failing > 0 && <Tag color="#f38ba8">{failing} collector{failing === 1 ? '' : 's'} failing</Tag>}
+            {collectorStatus?.demo && <Tag color="#f9e2af">Demo</Tag>}
+            {collectorStatus?.backend === 'replay' && <Tag color="#f9e2af">Replay</Tag>}
+          </Tags>
+        </>
+      )}
+
+      {onRemove && (
+        <RemoveButton
+          onClick={e => {
+            e.stopPropagation();
+            if (window.confirm(`Stop monitoring ${host.name}?`)) onRemove();
+          }}
+        >
+          Remove
+        </RemoveButton>
+      )}
+    </Card>
+  );
+};
+
+// Servers other than the dashboard's own issue their own tokens
+const HostLogin: React.FC<{ url: string }> = ({ url }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      // The connection picks the new token up by itself
+      await loginTo(url, username, password);
+    } catch (err: any) {
+      setError(err.message || 'Login failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <InlineForm onSubmit={handleSubmit}>
+      {error && <FormError>{error}</FormError>}
+      <input placeholder="Username" autoComplete="username" value={username} onChange={e => setUsername(e.target.value)} />
+      <input
+        placeholder="Password"
+        type="password"
+        autoComplete="current-password"
+        value={password}
+        onChange={e => setPassword(e.target.value)}
+      />
+      <button type="submit" disabled={isSubmitting || !username || !password}>
+        {isSubmitting ? 'Signing in...' : 'Sign in'}
+      </button>
+    </InlineForm>
+  );
+};
+
+// Hosts added here are kept in this browser; hosts.json lists them for everyone
+const AddHostForm: React.FC<{ onAdd: Props['onAdd'] }> = ({ onAdd }) => {
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      onAdd(name, url);
+      setName('');
+      setUrl('');
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <AddForm onSubmit={handleSubmit}>
+      <AddTitle>Add a host</AddTitle>
+      <input placeholder="Name (optional)" value={name} onChange={e => setName(e.target.value)} />
+      <input placeholder="http://host:5000" value={url} onChange={e => setUrl(e.target.value)} />
+      <button type="submit" disabled={!url.trim()}>Add</button>
+      {error && <FormError>{error}</FormError>}
+    </AddForm>
+  );
+};
+
+const Container = styled.div`
+  background-color: #1e1e2e;
+  border-radius: 8px;
+  padding: 16px;
+  color: #cdd6f4;
+  box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+`;
+
+const Header = styled.h2`
+  margin: 0 0 16px;
+  color: #cdd6f4;
+  font-size: 1.5rem;
+`;
+
+const HostGrid = styled.div`
+  display: grid;
+  grid-template-columns: repeat(auto-fill, minmax(260px, 1fr));
+  gap: 16px;
+  margin-bottom: 16px;
+`;
+
+const Card = styled.div<{ selected: boolean; clickable: boolean }>`
+  background-color: #11111b;
+  border: 1px solid ${props => props.selected ? '#89b4fa' : '#313244'};
+  border-radius: 8px;
+  padding: 12px;
+  cursor: ${props => props.clickable ? 'pointer' : 'default'};
+
+  &:hover {
+    border-color: ${props => props.clickable ? '#89b4fa' : '#313244'};
+  }
+`;
+
+const CardHeader = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: 8px;
+`;
+
+const HostName = styled.div`
+  font-weight: bold;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const Status = styled.span<{ color: string }>`
+  color: ${props => props.color};
+  font-size: 0.8rem;
+  white-space: nowrap;
+`;
+
+const HostUrl = styled.div`
+  color: #6c7086;
+  font-size: 0.8rem;
+  margin-bottom: 12px;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const Metric = styled.div`
+  display: grid;
+  grid-template-columns: 60px 1fr 50px;
+  align-items: center;
+  gap: 8px;
+  margin-bottom: 8px;
+  font-size: 0.85rem;
+`;
+
+const MetricLabel = styled.span`
+  color: #bac2de;
+`;
+
+const MetricValue = styled.span`
+  text-align: right;
+`;
+
+const ProgressBar = styled.div`
+  height: 8px;
+  width: 100%;
+  background-color: #313244;
+  border-radius: 4px;
+  overflow: hidden;
+`;
+
+const Progress = styled.div<{ width: number; color: string }>`
+  height: 100%;
+  width: ${props => `${props.width}%`};
+  background-color: ${props => props.color};
+  border-radius: 4px;
+`;
+
+const Tags = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 6px;
+  margin-top: 12px;
+`;
+
+const Tag = styled.span<{ color: string }>`
+  border: 1px solid ${props => props.color};
+  color: ${props => props.color};
+  border-radius: 10px;
+  padding: 2px 8px;
+  font-size: 0.75rem;
+`;
+
+const RemoveButton = styled.button`
+  margin-top: 12px;
+  background: none;
+  border: none;
+  padding: 0;
+  color: #6c7086;
+  font-size: 0.8rem;
+  cursor: pointer;
+
+  &:hover {
+    color: #f38ba8;
+  }
+`;
+
+const InlineForm = styled.form`
+  display: flex;
+  flex-direction: column;
+  gap: 6px;
+
+  input, button {
+    background-color: #313244;
+    color: #cdd6f4;
+    border: none;
+    border-radius: 4px;
+    padding: 6px 8px;
+  }
+
+  button {
+    cursor: pointer;
+    background-color: #89b4fa;
+    color: #1e1e2e;
+    font-weight: bold;
+  }
+
+  button:disabled {
+    opacity: 0.6;
+    cursor: default;
+  }
+`;
+
+const AddForm = styled(InlineForm)`
+  flex-direction: row;
+  flex-wrap: wrap;
+  align-items: center;
+`;
+
+const AddTitle = styled.span`
+  color: #bac2de;
+  font-size: 0.9rem;
+  margin-right: 4px;
+`;
+
+const FormError = styled.div`
+  color: #f38ba8;
+  font-size: 0.8rem;
+  flex-basis: 100%;
+`;
+
+export default HostOverview;
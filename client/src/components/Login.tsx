@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+
+interface Props {
+  onLogin: (username: string, password: string) => Promise<void>;
+}
+
+const Login: React.FC<Props> = ({ onLogin }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await onLogin(username, password);
+    } catch (err: any) {
+      console.error('Login failed:', err);
+      setError(err.message || 'Login failed');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Container>
+      <Form onSubmit={handleSubmit}>
+        <Title>Process Monitor</Title>
+        <Subtitle>Sign in to view the dashboard</Subtitle>
+
+        {error && <ErrorMessage>{error}</ErrorMessage>}
+
+        <Label htmlFor="username">Username</Label>
+        <Input
+          id="username"
+          type="text"
+          autoComplete="username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          autoFocus
+        />
+
+        <Label htmlFor="password">Password</Label>
+        <Input
+          id="password"
+          type="password"
+          autoComplete="current-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+
+        <SubmitButton type="submit" disabled={isSubmitting || !username || !password}>
+          {isSubmitting ? 'Signing in...' : 'Sign in'}
+        </SubmitButton>
+      </Form>
+    </Container>
+  );
+};
+
+const Container = styled.div`
+  min-height: 100vh;
+  background: #11111b;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+`;
+
+const Form = styled.form`
+  background-color: #1e1e2e;
+  border-radius: 8px;
+  padding: 32px;
+  width: 360px;
+  max-width: 90%;
+  box-shadow: 0 4px 20px rgba(0, 0, 0, 0.3);
+  display: flex;
+  flex-direction: column;
+`;
+
+const Title = styled.h1`
+  margin: 0 0 4px;
+  font-size: 1.5rem;
+  color: #89b4fa;
+`;
+
+const Subtitle = styled.p`
+  margin: 0 0 24px;
+  color: #6c7086;
+`;
+
+const Label = styled.label`
+  font-weight: bold;
+  color: #cdd6f4;
+  margin-bottom: 6px;
+`;
+
+const Input = styled.input`
+  padding: 10px;
+  margin-bottom: 16px;
+  background-color: #313244;
+  border: none;
+  border-radius: 4px;
+  color: #cdd6f4;
+  font-size: 16px;
+
+  &:focus {
+    outline: none;
+    box-shadow: 0 0 0 2px #89b4fa;
+  }
+`;
+
+const SubmitButton = styled.button`
+  background-color: #89b4fa;
+  color: #11111b;
+  border: none;
+  border-radius: 4px;
+  padding: 10px 15px;
+  font-size: 16px;
+  font-weight: bold;
+  cursor: pointer;
+
+  &:disabled {
+    opacity: 0.6;
+    cursor: not-allowed;
+  }
+`;
+
+const ErrorMessage = styled.div`
+  background-color: #f38ba8;
+  color: #11111b;
+  padding: 10px;
+  border-radius: 4px;
+  margin-bottom: 16px;
+  font-weight: bold;
+`;
+
+export default Login;
@@ -0,0 +1,377 @@
+import React from 'react';
+import styled from 'styled-components';
+import { Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend,
+  ChartData
+} from 'chart.js';
+import { CollectorStatus, NetworkConnection, NetworkInfo as NetworkInfoType, StreamSettings } from '../hooks/useSocket';
+import StreamControls from './StreamControls';
+import CollectorStatusNotice from './CollectorStatusNotice';
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend
+);
+
+interface Props {
+  networkInfo: NetworkInfoType | null;
+  streamSettings: StreamSettings | null;
+  onStreamChange: (settings: Partial<StreamSettings>) => void;
+  collectorStatus: CollectorStatus | undefined;
+}
+
+const LIVE_POINTS = 30;
+const KB = 1024;
+
+interface RateHistory {
+  rx: number[];
+  tx: number[];
+}
+
+const emptyHistory = (): RateHistory => ({
+  rx: Array(LIVE_POINTS).fill(0),
+  tx: Array(LIVE_POINTS).fill(0)
+});
+
+// Port, PID, process name or address, case-insensitive
+const matchesConnection = (conn: NetworkConnection, filter: string): boolean => {
+  if (!filter) return true;
+  const term = filter.toLowerCase();
+  return conn.localPort === term
+    || conn.peerPort === term
+    || (conn.pid !== null && String(conn.pid) === term)
+    || conn.processName.toLowerCase().includes(term)
+    || conn.localAddress.toLowerCase().includes(term)
+    || conn.peerAddress.toLowerCase().includes(term);
+};
+
+// Per-interface throughput and the sockets open on the server
+const NetworkInfo: React.FC<Props> = ({ networkInfo, streamSettings, onStreamChange, collectorStatus }) => {
+  const [history, setHistory] = React.useState<Record<string, RateHistory>>({});
+  const [filter, setFilter] = React.useState('');
+  const [listeningOnly, setListeningOnly] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!networkInfo) return;
+    setHistory(prev => {
+      const next: Record<string, RateHistory> = {};
+      networkInfo.interfaces.forEach(iface => {
+        if (iface.rxBytesPerSec === null || iface.txBytesPerSec === null) {
+          next[iface.iface] = prev[iface.iface] || emptyHistory();
+          return;
+        }
+        const { rx, tx } = prev[iface.iface] || emptyHistory();
+        next[iface.iface] = {
+          rx: [...rx, iface.rxBytesPerSec / KB].slice(-LIVE_POINTS),
+          tx: [...tx, iface.txBytesPerSec / KB].slice(-LIVE_POINTS)
+        };
+      });
+      return next;
+    });
+  }, [networkInfo]);
+
+  const sampleSeconds = (streamSettings?.interval ?? 5000) / 1000;
+  const labels = Array.from({ length: LIVE_POINTS }, (_, i) => `${(-(LIVE_POINTS - 1) + i) * sampleSeconds}s`);
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    animation: false as const,
+    plugins: {
+      legend: {
+        position: 'top' as const,
+      },
+    },
+    scales: {
+      x: {
+        ticks: {
+          maxTicksLimit: 6,
+        },
+      },
+      y: {
+        min: 0,
+      },
+    },
+  };
+
+  const connections = networkInfo
+    ? networkInfo.connections.filter(conn =>
+        (!listeningOnly || conn.state === 'LISTEN' || conn.state === '') && matchesConnection(conn, filter.trim()))
+    : [];
+
+  return (
+    <Container>
+      <HeaderRow>
+        <Header>Network</Header>
+        <StreamControls settings={streamSettings} onChange={onStreamChange} />
+      </HeaderRow>
+      <CollectorStatusNotice status={collectorStatus} />
+
+      {networkInfo ? (
+        <>
+          <InterfaceGrid>
+            {networkInfo.interfaces.map(iface => {
+              const rates = history[iface.iface] || emptyHistory();
+              const data: ChartData<'line'> = {
+                labels,
+                datasets: [
+                  {
+                    label: 'Received KB/s',
+                    data: rates.rx,
+                    borderColor: 'rgb(166, 227, 161)',
+                    backgroundColor: 'rgba(166, 227, 161, 0.5)',
+                    pointRadius: 0,
+                    tension: 0.3,
+                  },
+                  {
+                    label: 'Sent KB/s',
+                    data: rates.tx,
+                    borderColor: 'rgb(203, 166, 247)',
+                    backgroundColor: 'rgba(203, 166, 247, 0.5)',
+                    pointRadius: 0,
+                    tension: 0.3,
+                  },
+                ],
+              };
+
+              return (
+                <Card key={iface.iface}>
+                  <CardTitle>
+                    {iface.iface}
+                    <OperState up={iface.operstate === 'up'}>{iface.operstate}</OperState>
+                  </CardTitle>
+                  <RateDetail>
+                    {iface.rxBytesPerSec === null || iface.txBytesPerSec === null
+                      ? 'Measuring...'
+                      : `${formatRate(iface.rxBytesPerSec)} in, ${formatRate(iface.txBytesPerSec)} out`}
+                    {(iface.rxErrors > 0 || iface.txErrors > 0) && (
+                      <Errors> ({iface.rxErrors + iface.txErrors} errors)</Errors>
+                    )}
+                  </RateDetail>
+                  <ChartContainer>
+                    <Line options={options} data={data} />
+                  </ChartContainer>
+                </Card>
+              );
+            })}
+          </InterfaceGrid>
+
+          <Card>
+            <CardTitle>Sockets</CardTitle>
+            <ConnectionControls>
+              <FilterInput
+                type="text"
+                placeholder="Port, PID, process or address..."
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+              />
+              <ListeningFilter>
+                <input
+                  type="checkbox"
+                  id="listeningOnly"
+                  checked={listeningOnly}
+                  onChange={() => setListeningOnly(!listeningOnly)}
+                />
+                <label htmlFor="listeningOnly">Listening only</label>
+              </ListeningFilter>
+              <ConnectionCount>
+                {connections.length} of {networkInfo.connectionCount} sockets
+                {networkInfo.connectionCount > networkInfo.connections.length &&
+                  ` (only the first ${networkInfo.connections.length} are sent)`}
+              </ConnectionCount>
+            </ConnectionControls>
+
+            <TableWrapper>
+              <ConnectionTable>
+                <thead>
+                  <tr>
+                    <th>Protocol</th>
+                    <th>Local</th>
+                    <th>Peer</th>
+                    <th>State</th>
+                    <th>PID</th>
+                    <th>Process</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {connections.map(conn => (
+                    <tr key={`${conn.protocol}:${conn.localAddress}:${conn.localPort}:${conn.peerAddress}:${conn.peerPort}:${conn.pid}`}>
+                      <td>{conn.protocol}</td>
+                      <td>{conn.localAddress}:{conn.localPort}</td>
+                      <td>{conn.state === 'LISTEN' ? '-' : `${conn.peerAddress}:${conn.peerPort}`}</td>
+                      <td>{conn.state || '-'}</td>
+                      <td>{conn.pid ?? '-'}</td>
+                      <td>{conn.processName || (conn.pid === null ? 'unknown (needs elevated privileges)' : '-')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </ConnectionTable>
+            </TableWrapper>
+          </Card>
+        </>
+      ) : collectorStatus?.state !== 'failed' && (
+        <LoadingMessage>Loading network information...</LoadingMessage>
+      )}
+    </Container>
+  );
+};
+
+const formatRate = (bytesPerSec: number): string => {
+  if (bytesPerSec < KB) return `${bytesPerSec.toFixed(0)} B/s`;
+  if (bytesPerSec < KB * KB) return `${(bytesPerSec / KB).toFixed(1)} KB/s`;
+  return `${(bytesPerSec / KB / KB).toFixed(1)} MB/s`;
+};
+
+// Styled components
+const Container = styled.div`
+  background-color: #1e1e2e;
+  border-radius: 8px;
+  padding: 16px;
+  color: #cdd6f4;
+  box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+`;
+
+const HeaderRow = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  justify-content: space-between;
+  align-items: center;
+  gap: 8px;
+  margin-bottom: 16px;
+`;
+
+const Header = styled.h2`
+  margin: 0;
+  color: #cdd6f4;
+  font-size: 1.5rem;
+`;
+
+const InterfaceGrid = styled.div`
+  display: grid;
+  grid-template-columns: repeat(auto-fill, minmax(320px, 1fr));
+  gap: 16px;
+  margin-bottom: 16px;
+`;
+
+const Card = styled.div`
+  background-color: #11111b;
+  border-radius: 8px;
+  padding: 16px;
+  box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+`;
+
+const CardTitle = styled.h3`
+  margin-top: 0;
+  margin-bottom: 8px;
+  color: #cdd6f4;
+  font-size: 1rem;
+`;
+
+const OperState = styled.span<{ up: boolean }>`
+  margin-left: 8px;
+  font-size: 0.8rem;
+  font-weight: normal;
+  color: ${props => props.up ? '#a6e3a1' : '#6c7086'};
+`;
+
+const RateDetail = styled.div`
+  font-size: 0.9rem;
+  color: #bac2de;
+  margin-bottom: 8px;
+`;
+
+const Errors = styled.span`
+  color: #f38ba8;
+`;
+
+const ChartContainer = styled.div`
+  height: 160px;
+`;
+
+const ConnectionControls = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: 16px;
+  margin-bottom: 12px;
+`;
+
+const FilterInput = styled.input`
+  flex: 1;
+  min-width: 200px;
+  padding: 8px 12px;
+  border-radius: 4px;
+  border: 1px solid #45475a;
+  background-color: #181825;
+  color: #cdd6f4;
+
+  &:focus {
+    outline: none;
+    border-color: #89b4fa;
+  }
+`;
+
+const ListeningFilter = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  color: #bac2de;
+
+  input {
+    cursor: pointer;
+  }
+
+  label {
+    cursor: pointer;
+  }
+`;
+
+const ConnectionCount = styled.div`
+  color: #bac2de;
+  font-size: 0.9rem;
+`;
+
+const TableWrapper = styled.div`
+  max-height: 400px;
+  overflow-y: auto;
+`;
+
+const ConnectionTable = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  font-size: 0.9rem;
+
+  th, td {
+    padding: 6px 8px;
+    text-align: left;
+    border-bottom: 1px solid #313244;
+  }
+
+  th {
+    position: sticky;
+    top: 0;
+    background-color: #11111b;
+    color: #bac2de;
+    font-weight: normal;
+  }
+`;
+
+const LoadingMessage = styled.div`
+  text-align: center;
+  padding: 32px;
+  color: #bac2de;
+  font-style: italic;
+`;
+
+export default NetworkInfo;
@@ -0,0 +1,116 @@
+import React from 'react';
+import styled from 'styled-components';
+import { NetworkConnection } from '../hooks/useSocket';
+
+interface Props {
+  pid: number;
+  getProcessConnections: (pid: number) => Promise<NetworkConnection[] | null>;
+}
+
+// Matches the server's default network sampling interval
+const REFRESH_INTERVAL = 5000;
+
+// Listening sockets and established connections of a single process, shown
+// in the details modal
+const ProcessConnections: React.FC<Props> = ({ pid, getProcessConnections }) => {
+  const [connections, setConnections] = React.useState<NetworkConnection[] | null>(null);
+  const [loaded, setLoaded] = React.useState(false);
+
+  React.useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      const result = await getProcessConnections(pid);
+      if (!cancelled) {
+        setConnections(result);
+        setLoaded(true);
+      }
+    };
+
+    load();
+    const interval = setInterval(load, REFRESH_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [pid, getProcessConnections]);
+
+  if (!connections || connections.length === 0) {
+    return (
+      <Placeholder>
+        {!loaded
+          ? 'Loading sockets...'
+          : connections
+            ? 'No listening sockets or established connections'
+            : 'Open sockets are not available'}
+      </Placeholder>
+    );
+  }
+
+  return (
+    <Container>
+      <Title>Open sockets</Title>
+      <SocketTable>
+        <thead>
+          <tr>
+            <th>Protocol</th>
+            <th>Local</th>
+            <th>Peer</th>
+            <th>State</th>
+          </tr>
+        </thead>
+        <tbody>
+          {connections.map(conn => (
+            <tr key={`${conn.protocol}:${conn.localAddress}:${conn.localPort}:${conn.peerAddress}:${conn.peerPort}`}>
+              <td>{conn.protocol}</td>
+              <td>{conn.localAddress}:{conn.localPort}</td>
+              <td>{conn.state === 'LISTEN' ? '-' : `${conn.peerAddress}:${conn.peerPort}`}</td>
+              <td>{conn.state || '-'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </SocketTable>
+    </Container>
+  );
+};
+
+const Container = styled.div`
+  margin-top: 16px;
+  padding-top: 12px;
+  border-top: 1px solid #313244;
+`;
+
+const Title = styled.div`
+  font-weight: bold;
+  color: #89b4fa;
+  margin-bottom: 4px;
+`;
+
+const SocketTable = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  font-size: 0.9rem;
+
+  th, td {
+    padding: 4px 8px;
+    text-align: left;
+    border-bottom: 1px solid #313244;
+    word-break: break-all;
+  }
+
+  th {
+    color: #bac2de;
+    font-weight: normal;
+  }
+`;
+
+const Placeholder = styled.div`
+  margin-top: 16px;
+  padding: 12px;
+  text-align: center;
+  color: #6c7086;
+  font-style: italic;
+`;
+
+export default ProcessConnections;
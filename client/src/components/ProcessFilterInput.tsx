@@ -0,0 +1,317 @@
+import React, { useState, useRef } from 'react';
+import styled from 'styled-components';
+import { ProcessFilterField } from '../hooks/useSocket';
+import useSavedFilters from '../hooks/useSavedFilters';
+
+// What the field suggestions say about each field; comparison fields are
+// completed without an operator so that > or < can follow
+const FIELD_HELP: Record<ProcessFilterField, { description: string; compare?: boolean }> = {
+  pid: { description: 'Process ID', compare: true },
+  ppid: { description: 'Parent process ID', compare: true },
+  name: { description: 'Process name' },
+  user: { description: 'Owner' },
+  cmd: { description: 'Command line' },
+  state: { description: 'running, sleeping, stopped, zombie, ...' },
+  cpu: { description: 'CPU %, e.g. cpu>5', compare: true },
+  mem: { description: 'Memory %, e.g. mem>=2%', compare: true },
+  rss: { description: 'Resident size, e.g. rss>500M', compare: true },
+  vsz: { description: 'Virtual size, e.g. vsz>2G', compare: true },
+  threads: { description: 'Thread count', compare: true },
+  nice: { description: 'Nice value', compare: true },
+  priority: { description: 'Scheduling priority', compare: true },
+  killable: { description: 'true or false' }
+};
+
+const FIELD_NAMES = Object.keys(FIELD_HELP) as ProcessFilterField[];
+
+export interface FilterInputError {
+  message: string;
+  // Character range of `value` at fault, end exclusive
+  start: number;
+  end: number;
+}
+
+interface Props {
+  value: string;
+  onChange: (value: string) => void;
+  // The server's objection to `value`, if any
+  error: FilterInputError | null;
+}
+
+// The field name being typed at the caret, if any: the letters of a term
+// before its operator, after an optional '-'
+const fieldAtCaret = (value: string, caret: number) => {
+  let start = caret;
+  while (start > 0 && /[A-Za-z]/.test(value[start - 1])) start -= 1;
+  let end = caret;
+  while (end < value.length && /[A-Za-z]/.test(value[end])) end += 1;
+  const termStart = start > 0 && value[start - 1] === '-' ? start - 1 : start;
+  if (termStart > 0 && !/\s/.test(value[termStart - 1])) return null;
+  if (start === caret) return null;
+  return { prefix: value.slice(start, caret).toLowerCase(), start, end };
+};
+
+// Filter expression box with field name completion, the server's errors
+// marked in place, and filters saved by name
+const ProcessFilterInput: React.FC<Props> = ({ value, onChange, error }) => {
+  const { savedFilters, saveFilter, deleteFilter } = useSavedFilters();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [caret, setCaret] = useState(0);
+  const [focused, setFocused] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+
+  const field = focused && !dismissed ? fieldAtCaret(value, caret) : null;
+  const suggestions = field
+    ? FIELD_NAMES.filter(name => name.startsWith(field.prefix) && name !== value.slice(field.start, field.end).toLowerCase())
+    : [];
+  const current = savedFilters.find(filter => filter.query === value);
+
+  const updateCaret = () => setCaret(inputRef.current?.selectionStart ?? value.length);
+
+  const complete = (name: ProcessFilterField) => {
+    if (!field) return;
+    const inserted = FIELD_HELP[name].compare ? name : `${name}:`;
+    const next = value.slice(0, field.start) + inserted + value.slice(field.end);
+    const position = field.start + inserted.length;
+    onChange(next);
+    setCaret(position);
+    setHighlighted(0);
+    // The input re-renders with the new value first
+    setTimeout(() => inputRef.current?.setSelectionRange(position, position));
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted((highlighted + step + suggestions.length) % suggestions.length);
+    } else if (event.key === 'Enter' || event.key === 'Tab') {
+      event.preventDefault();
+      complete(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+    } else if (event.key === 'Escape') {
+      setDismissed(true);
+    }
+  };
+
+  const handleSave = () => {
+    const name = window.prompt('Save this filter as:', current?.name || '');
+    if (name && name.trim()) {
+      saveFilter(name.trim(), value);
+    }
+  };
+
+  const handleDelete = () => {
+    if (current && window.confirm(`Delete the saved filter "${current.name}"?`)) {
+      deleteFilter(current.name);
+    }
+  };
+
+  return (
+    <FilterBar>
+      <InputRow>
+        <InputWrapper>
+          <Input
+            ref={inputRef}
+            type="text"
+            placeholder="Filter processes, e.g. user:postgres cpu>5 -name:chrome"
+            value={value}
+            $invalid={!!error}
+            spellCheck={false}
+            onChange={(e) => {
+              onChange(e.target.value);
+              setCaret(e.target.selectionStart ?? e.target.value.length);
+              setDismissed(false);
+              setHighlighted(0);
+            }}
+            onKeyDown={handleKeyDown}
+            onKeyUp={updateCaret}
+            onClick={updateCaret}
+            onFocus={() => setFocused(true)}
+            onBlur={() => setFocused(false)}
+          />
+          {suggestions.length > 0 && (
+            <Suggestions>
+              {suggestions.map((name, index) => (
+                <Suggestion
+                  key={name}
+                  $active={index === Math.min(highlighted, suggestions.length - 1)}
+                  // Before the input's blur hides the list
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    complete(name);
+                  }}
+                >
+                  <FieldName>{name}</FieldName>
+                  <FieldDescription>{FIELD_HELP[name].description}</FieldDescription>
+                </Suggestion>
+              ))}
+            </Suggestions>
+          )}
+        </InputWrapper>
+
+        <SavedSelect
+          value={current?.name || ''}
+          onChange={(e) => {
+            const saved = savedFilters.find(filter => filter.name === e.target.value);
+            if (saved) onChange(saved.query);
+          }}
+          disabled={savedFilters.length === 0}
+        >
+          <option value="" disabled>Saved filters</option>
+          {savedFilters.map(filter => (
+            <option key={filter.name} value={filter.name}>{filter.name}</option>
+          ))}
+        </SavedSelect>
+        <FilterButton onClick={handleSave} disabled={!value.trim() || !!error}>
+          Save
+        </FilterButton>
+        <FilterButton onClick={handleDelete} disabled={!current}>
+          Delete
+        </FilterButton>
+      </InputRow>
+
+      {error && (
+        <FilterError>
+          <ErrorExpression>
+            {value.slice(0, error.start)}
+            <ErrorMark>{value.slice(error.start, error.end) || ' '}</ErrorMark>
+            {value.slice(error.end)}
+          </ErrorExpression>
+          <ErrorMessage>{error.message}</ErrorMessage>
+        </FilterError>
+      )}
+    </FilterBar>
+  );
+};
+
+const FilterBar = styled.div`
+  margin-bottom: 20px;
+`;
+
+const InputRow = styled.div`
+  display: flex;
+  gap: 8px;
+`;
+
+const InputWrapper = styled.div`
+  position: relative;
+  flex: 1;
+`;
+
+const Input = styled.input<{ $invalid: boolean }>`
+  width: 100%;
+  box-sizing: border-box;
+  padding: 10px;
+  background-color: #313244;
+  border: none;
+  border-radius: 4px;
+  color: #cdd6f4;
+  font-size: 16px;
+  font-family: monospace;
+  box-shadow: ${props => props.$invalid ? '0 0 0 2px #f38ba8' : 'none'};
+
+  &:focus {
+    outline: none;
+    box-shadow: 0 0 0 2px ${props => props.$invalid ? '#f38ba8' : '#89b4fa'};
+  }
+
+  &::placeholder {
+    color: #6c7086;
+  }
+`;
+
+const Suggestions = styled.ul`
+  position: absolute;
+  top: 100%;
+  left: 0;
+  z-index: 10;
+  margin: 4px 0 0;
+  padding: 4px 0;
+  min-width: 320px;
+  list-style: none;
+  background-color: #181825;
+  border: 1px solid #313244;
+  border-radius: 4px;
+  box-shadow: 0 4px 12px rgba(0, 0, 0, 0.3);
+`;
+
+const Suggestion = styled.li<{ $active: boolean }>`
+  display: flex;
+  gap: 12px;
+  padding: 6px 10px;
+  cursor: pointer;
+  background-color: ${props => props.$active ? '#313244' : 'transparent'};
+
+  &:hover {
+    background-color: #313244;
+  }
+`;
+
+const FieldName = styled.span`
+  flex: 0 0 70px;
+  color: #89b4fa;
+  font-family: monospace;
+  font-weight: bold;
+`;
+
+const FieldDescription = styled.span`
+  color: #bac2de;
+  font-size: 14px;
+`;
+
+const SavedSelect = styled.select`
+  padding: 6px;
+  max-width: 200px;
+  background-color: #313244;
+  border: none;
+  border-radius: 4px;
+  color: #cdd6f4;
+`;
+
+const FilterButton = styled.button`
+  background-color: #313244;
+  color: #cdd6f4;
+  border: none;
+  border-radius: 4px;
+  padding: 6px 12px;
+  cursor: pointer;
+
+  &:hover:not(:disabled) {
+    background-color: #45475a;
+  }
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
+const FilterError = styled.div`
+  margin-top: 8px;
+  padding: 8px 10px;
+  background-color: rgba(243, 139, 168, 0.1);
+  border-radius: 4px;
+`;
+
+const ErrorExpression = styled.div`
+  font-family: monospace;
+  white-space: pre-wrap;
+  overflow-wrap: anywhere;
+  color: #bac2de;
+`;
+
+const ErrorMark = styled.span`
+  color: #f38ba8;
+  text-decoration: underline wavy #f38ba8;
+  background-color: rgba(243, 139, 168, 0.2);
+`;
+
+const ErrorMessage = styled.div`
+  margin-top: 4px;
+  color: #f38ba8;
+  font-size: 14px;
+`;
+
+export default ProcessFilterInput;
@@ -0,0 +1,168 @@
+import React from 'react';
+import styled from 'styled-components';
+import { Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  ChartData
+} from 'chart.js';
+import { ProcessHistory } from '../hooks/useSocket';
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip
+);
+
+interface Props {
+  pid: number;
+  // Start time of the process, so that a later process reusing the PID is
+  // not mistaken for it
+  started: string;
+  getProcessHistory: (pid: number, started?: string) => Promise<ProcessHistory | null>;
+}
+
+// Matches the server's process-list sampling interval
+const REFRESH_INTERVAL = 3000;
+
+// CPU and memory history of a single process, shown in the details modal
+const ProcessHistoryChart: React.FC<Props> = ({ pid, started, getProcessHistory }) => {
+  const [history, setHistory] = React.useState<ProcessHistory | null>(null);
+  const [loaded, setLoaded] = React.useState(false);
+
+  React.useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      const result = await getProcessHistory(pid, started);
+      if (!cancelled) {
+        setHistory(result);
+        setLoaded(true);
+      }
+    };
+
+    load();
+    const interval = setInterval(load, REFRESH_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [pid, started, getProcessHistory]);
+
+  if (!history || history.samples.length === 0) {
+    return (
+      <Placeholder>
+        {loaded ? 'No history available for this process' : 'Loading history...'}
+      </Placeholder>
+    );
+  }
+
+  const labels = history.samples.map(sample =>
+    new Date(sample.t).toLocaleTimeString([], { minute: '2-digit', second: '2-digit' })
+  );
+
+  const cpuData: ChartData<'line'> = {
+    labels,
+    datasets: [
+      {
+        label: 'CPU %',
+        data: history.samples.map(sample => sample.cpu),
+        borderColor: 'rgb(75, 192, 192)',
+        backgroundColor: 'rgba(75, 192, 192, 0.5)',
+        pointRadius: 0,
+        tension: 0.3,
+      },
+    ],
+  };
+
+  // memRss is reported in KB
+  const memoryData: ChartData<'line'> = {
+    labels,
+    datasets: [
+      {
+        label: 'RSS (MB)',
+        data: history.samples.map(sample => Math.round((sample.memRss / 1024) * 10) / 10),
+        borderColor: 'rgb(255, 99, 132)',
+        backgroundColor: 'rgba(255, 99, 132, 0.5)',
+        pointRadius: 0,
+        tension: 0.3,
+      },
+    ],
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    animation: false as const,
+    plugins: {
+      legend: {
+        display: false,
+      },
+    },
+    scales: {
+      x: {
+        ticks: {
+          maxTicksLimit: 5,
+        },
+      },
+      y: {
+        beginAtZero: true,
+      },
+    },
+  };
+
+  return (
+    <Container>
+      <ChartTitle>CPU %</ChartTitle>
+      <ChartContainer>
+        <Line options={options} data={cpuData} />
+      </ChartContainer>
+      <ChartTitle>Resident memory (MB)</ChartTitle>
+      <ChartContainer>
+        <Line options={options} data={memoryData} />
+      </ChartContainer>
+      <HistoryNote>
+        {history.samples.length} samples since {new Date(history.samples[0].t).toLocaleTimeString()}
+      </HistoryNote>
+    </Container>
+  );
+};
+
+const Container = styled.div`
+  margin-top: 16px;
+  padding-top: 12px;
+  border-top: 1px solid #313244;
+`;
+
+const ChartTitle = styled.div`
+  font-weight: bold;
+  color: #89b4fa;
+  margin-bottom: 4px;
+`;
+
+const ChartContainer = styled.div`
+  height: 120px;
+  margin-bottom: 12px;
+`;
+
+const HistoryNote = styled.div`
+  font-size: 12px;
+  color: #6c7086;
+`;
+
+const Placeholder = styled.div`
+  margin-top: 16px;
+  padding: 12px;
+  text-align: center;
+  color: #6c7086;
+  font-style: italic;
+`;
+
+export default ProcessHistoryChart;
@@ -1,26 +1,79 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import styled from 'styled-components';
-import useSocket from '../hooks/useSocket';
-
-interface Process {
-  pid: number;
-  name: string;
-  cpu: string;
-  memory: string;
-  user: string;
-  killable?: boolean;
+import {
+  KillMode,
+  KILL_ERROR_MESSAGES,
+  ProcessInfo,
+  ProcessSortKey,
+  useCollectorStatus,
+  useConnectionStatus,
+  useKillStatus,
+  useProcessActions,
+  useProcessFilterStatus,
+  useServerUrl,
+  useProcesses,
+  useStreams
+} from '../hooks/useSocket';
+import ProcessHistoryChart from './ProcessHistoryChart';
+import ProcessConnections from './ProcessConnections';
+import StreamControls from './StreamControls';
+import CollectorStatusNotice from './CollectorStatusNotice';
+import ProcessTable from './ProcessTable';
+import ColumnPicker from './ColumnPicker';
+import ProcessFilterInput from './ProcessFilterInput';
+import useProcessColumns from '../hooks/useProcessColumns';
+
+// The table asks the server for the rows in view plus a block above and
+// below, in whole blocks so that scrolling a few rows sends no new query
+const FETCH_BLOCK = 50;
+// The server's maximum page size
+const MAX_FETCH = 500;
+
+// Wait for typing to settle before sending a new query to the server
+const SEARCH_DEBOUNCE = 300;
+
+// Signals offered in the process details modal
+const SIGNAL_OPTIONS: { value: KillMode; label: string }[] = [
+  { value: 'escalate', label: 'Graceful (SIGTERM, then SIGKILL)' },
+  { value: 'SIGTERM', label: 'SIGTERM - terminate' },
+  { value: 'SIGINT', label: 'SIGINT - interrupt' },
+  { value: 'SIGHUP', label: 'SIGHUP - hang up / reload' },
+  { value: 'SIGSTOP', label: 'SIGSTOP - pause' },
+  { value: 'SIGCONT', label: 'SIGCONT - resume' },
+  { value: 'SIGKILL', label: 'SIGKILL - force kill' }
+];
+
+interface Props {
+  // Whether the signed-in user may signal processes (operator role)
+  canSignal: boolean;
 }
 
-const ProcessList: React.FC = () => {
-  const { processList, killProcess, isConnected, connectionError, killStatus } = useSocket();
-  const [sortField, setSortField] = useState<keyof Process>('cpu');
-  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+const ProcessList: React.FC<Props> = ({ canSignal }) => {
+  const { processList, processTotal, processOffset } = useProcesses();
+  const serverUrl = useServerUrl();
+  const { subscribeProcesses, killProcess, getProcessHistory, getProcessConnections } = useProcessActions();
+  const { isConnected, connectionError } = useConnectionStatus();
+  const killStatus = useKillStatus();
+  const { streams, updateStreams } = useStreams();
+  const collectorStatus = useCollectorStatus();
+  const { layout, setSort, toggleColumn, resizeColumn, moveColumn, resetColumns } = useProcessColumns();
   const [searchTerm, setSearchTerm] = useState('');
+  const [search, setSearch] = useState('');
+  const { acceptedFilterQuery, rejectedFilter } = useProcessFilterStatus();
+  // While the server rejects the expression being typed, keep asking for the
+  // last one it accepted so that scrolling still fetches rows
+  const filterError = rejectedFilter && rejectedFilter.query === search ? rejectedFilter : null;
+  const query = filterError ? acceptedFilterQuery : search;
+  const [fetchWindow, setFetchWindow] = useState({ offset: 0, limit: FETCH_BLOCK * 2 });
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [loadingTimeout, setLoadingTimeout] = useState<boolean>(false);
-  const [selectedProcess, setSelectedProcess] = useState<Process | null>(null);
+  const [selectedProcess, setSelectedProcess] = useState<ProcessInfo | null>(null);
   const [showKillableOnly, setShowKillableOnly] = useState<boolean>(false);
+  const [treeView, setTreeView] = useState<boolean>(false);
+  const [collapsed, setCollapsed] = useState<number[]>([]);
+  const [selectedSignal, setSelectedSignal] = useState<KillMode>('escalate');
+  const [gracePeriod, setGracePeriod] = useState<number>(5);
 
   // Handle initial loading state
   useEffect(() => {
@@ -52,13 +105,46 @@ const ProcessList: React.FC = () => {
     }
   }, [connectionError]);
 
+  // Debounce the filter box into the query that is sent to the server. It
+  // goes untrimmed so that the server's error positions line up with it.
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchTerm);
+    }, SEARCH_DEBOUNCE);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  const handleRangeChange = useCallback((first: number, count: number) => {
+    const offset = Math.max(0, (Math.floor(first / FETCH_BLOCK) - 1) * FETCH_BLOCK);
+    const end = (Math.ceil((first + count) / FETCH_BLOCK) + 1) * FETCH_BLOCK;
+    const limit = Math.min(end - offset, MAX_FETCH);
+    setFetchWindow(current => current.offset === offset && current.limit === limit ? current : { offset, limit });
+  }, []);
+
+  // The server filters, sorts and pages the full process list for us; send it
+  // the current view whenever it changes (the connection restores it itself)
+  useEffect(() => {
+    subscribeProcesses({
+      sort: layout.sort.field,
+      direction: layout.sort.direction,
+      filter: {
+        query: query.trim() ? query : undefined,
+        killable: showKillableOnly || undefined
+      },
+      limit: fetchWindow.limit,
+      offset: fetchWindow.offset,
+      tree: treeView,
+      collapsed: treeView ? collapsed : undefined
+    });
+  }, [subscribeProcesses, layout.sort, query, showKillableOnly, fetchWindow, treeView, collapsed]);
+
   // Update connection status
   useEffect(() => {
     console.log('Connection status:', isConnected ? 'Connected' : 'Disconnected');
   }, [isConnected]);
 
   // Handle process selection
-  const handleProcessClick = (process: Process) => {
+  const handleProcessClick = (process: ProcessInfo) => {
     setSelectedProcess(process);
   };
 
@@ -67,32 +153,42 @@ const ProcessList: React.FC = () => {
     setSelectedProcess(null);
   };
 
-  const handleSort = (field: keyof Process) => {
-    if (field === sortField) {
-      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+  const handleSort = (field: ProcessSortKey) => {
+    if (field === layout.sort.field) {
+      setSort({ field, direction: layout.sort.direction === 'asc' ? 'desc' : 'asc' });
     } else {
-      setSortField(field);
-      setSortDirection('desc');
+      setSort({ field, direction: 'desc' });
     }
   };
 
-  const handleKillProcess = async (pid: number) => {
-    if (!window.confirm(`Are you sure you want to terminate process ${pid}?`)) {
+  const toggleCollapsed = (pid: number) => {
+    setCollapsed(collapsed.includes(pid) ? collapsed.filter(p => p !== pid) : [...collapsed, pid]);
+  };
+
+  const handleKillProcess = async (pid: number, signal: KillMode = 'SIGKILL', graceMs?: number, tree = false) => {
+    const action = signal === 'escalate' ? 'gracefully terminate' : `send ${signal} to`;
+    const target = tree ? `process ${pid} and all of its child processes` : `process ${pid}`;
+    if (!window.confirm(`Are you sure you want to ${action} ${target}?`)) {
       return;
     }
 
     try {
-      console.log(`Attempting to kill process ${pid}...`);
-      const response = await killProcess(pid);
+      console.log(`Attempting to send ${signal} to ${target}...`);
+      const response = await killProcess(pid, signal, graceMs, tree);
       console.log('Kill process response:', response);
       
-      // Close process details if we just killed the selected process
-      if (selectedProcess && selectedProcess.pid === pid) {
+      // Close process details if the selected process was terminated
+      // (SIGSTOP/SIGCONT leave it running, so keep the modal open)
+      const terminates = signal !== 'SIGSTOP' && signal !== 'SIGCONT';
+      if (terminates && response.success && selectedProcess && selectedProcess.pid === pid) {
         setSelectedProcess(null);
       }
       
       if (!response.success) {
-        setError(`Failed to kill process: ${response.error || 'Unknown error'}`);
+        const reason = response.code
+          ? `${KILL_ERROR_MESSAGES[response.code]} (${response.code})`
+          : response.message;
+        setError(`Failed to kill process: ${reason || 'Unknown error'}`);
       }
     } catch (error) {
       setError('Error killing process');
@@ -100,51 +196,17 @@ const ProcessList: React.FC = () => {
     }
   };
 
-  const filteredAndSortedProcesses = processList
-    .filter((process: Process) => 
-      // Filter by search term
-      (process.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-       process.pid.toString().includes(searchTerm) ||
-       process.user.toLowerCase().includes(searchTerm.toLowerCase())) &&
-      // Filter by killable status if the option is enabled
-      (!showKillableOnly || process.killable)
-    )
-    .sort((a: Process, b: Process) => {
-      const aValue = a[sortField];
-      const bValue = b[sortField];
-      
-      if (sortField === 'pid') {
-        return sortDirection === 'asc' 
-          ? a.pid - b.pid 
-          : b.pid - a.pid;
-      }
-      
-      // Convert values to strings for comparison
-      const aStr = String(aValue);
-      const bStr = String(bValue);
-      
-      // Try to parse as numbers for numeric fields
-      if (sortField === 'cpu' || sortField === 'memory') {
-        const aNum = parseFloat(aStr);
-        const bNum = parseFloat(bStr);
-        
-        if (!isNaN(aNum) && !isNaN(bNum)) {
-          return sortDirection === 'asc' 
-            ? aNum - bNum 
-            : bNum - aNum;
-        }
-      }
-      
-      // Fallback to string comparison
-      return sortDirection === 'asc'
-        ? aStr.localeCompare(bStr)
-        : bStr.localeCompare(aStr);
-    });
-
-  // Count killable processes
-  const killableCount = processList.filter(process => process.killable).length;
+  const isFiltered = query.trim() !== '' || showKillableOnly;
+  const processesStatus = collectorStatus?.collectors.processes;
 
-  // Show loading state
+  // Show loading state, unless the server has said it cannot list processes
+  if (isLoading && processesStatus?.state === 'failed') {
+    return (
+      <Container>
+        <CollectorStatusNotice status={processesStatus} />
+      </Container>
+    );
+  }
   if (isLoading) {
     return (
       <Container>
@@ -166,9 +228,9 @@ const ProcessList: React.FC = () => {
         <TroubleshootingTips>
           <h4>Troubleshooting Tips:</h4>
           <ul>
-            <li>Make sure the server is running (npm run server)</li>
+            <li>Make sure the server is running (npm start)</li>
             <li>Run the server with administrator privileges</li>
-            <li>Confirm the server is running on port 3000</li>
+            <li>Confirm the server is reachable at {serverUrl}</li>
             <li>Check network settings and firewall rules</li>
           </ul>
         </TroubleshootingTips>
@@ -177,7 +239,7 @@ const ProcessList: React.FC = () => {
   }
 
   // Show empty list message if connected but no processes
-  if (isConnected && (!processList || processList.length === 0)) {
+  if (isConnected && processTotal === 0 && !isFiltered) {
     return (
       <Container>
         <ConnectionStatus connected={isConnected}>
@@ -194,23 +256,39 @@ const ProcessList: React.FC = () => {
 
   return (
     <Container>
-      <ConnectionStatus connected={isConnected}>
-        Status: {isConnected ? 'Connected' : 'Disconnected'}
-      </ConnectionStatus>
+      <StatusRow>
+        <ConnectionStatus connected={isConnected}>
+          Status: {isConnected ? 'Connected' : 'Disconnected'}
+          {streams?.processes.paused && ' (frozen)'}
+        </ConnectionStatus>
+        <StreamControls
+          settings={streams ? streams.processes : null}
+          onChange={settings => updateStreams({ processes: settings })}
+        />
+      </StatusRow>
+      <CollectorStatusNotice status={processesStatus} />
       
-      <SearchInput
-        type="text"
-        placeholder="Search processes..."
+      <ProcessFilterInput
         value={searchTerm}
-        onChange={(e) => setSearchTerm(e.target.value)}
+        onChange={setSearchTerm}
+        error={filterError && searchTerm === search ? filterError : null}
       />
       
       <ControlPanel>
         <ProcessCount>
-          Showing {filteredAndSortedProcesses.length} of {processList.length} processes 
-          ({killableCount} killable)
+          {processTotal} {isFiltered ? 'matching ' : ''}processes
         </ProcessCount>
         
+        <KillableFilter>
+          <input
+            type="checkbox"
+            id="treeView"
+            checked={treeView}
+            onChange={() => setTreeView(!treeView)}
+          />
+          <label htmlFor="treeView">Tree view</label>
+        </KillableFilter>
+
         <KillableFilter>
           <input 
             type="checkbox" 
@@ -222,6 +300,8 @@ const ProcessList: React.FC = () => {
         </KillableFilter>
         
         <ProcessTip>Click on a process to view details</ProcessTip>
+
+        <ColumnPicker columns={layout.columns} onToggle={toggleColumn} onReset={resetColumns} />
       </ControlPanel>
       
       {killStatus && (
@@ -230,71 +310,25 @@ const ProcessList: React.FC = () => {
         </KillStatus>
       )}
       
-      <Table>
-        <thead>
-          <tr>
-            <th onClick={() => handleSort('pid')}>
-              PID {sortField === 'pid' && (sortDirection === 'asc' ? '↑' : '↓')}
-            </th>
-            <th onClick={() => handleSort('name')}>
-              Name {sortField === 'name' && (sortDirection === 'asc' ? '↑' : '↓')}
-            </th>
-            <th onClick={() => handleSort('cpu')}>
-              CPU % {sortField === 'cpu' && (sortDirection === 'asc' ? '↑' : '↓')}
-            </th>
-            <th onClick={() => handleSort('memory')}>
-              Memory % {sortField === 'memory' && (sortDirection === 'asc' ? '↑' : '↓')}
-            </th>
-            <th onClick={() => handleSort('user')}>
-              User {sortField === 'user' && (sortDirection === 'asc' ? '↑' : '↓')}
-            </th>
-            <th>Status</th>
-            <th>Actions</th>
-          </tr>
-        </thead>
-        <tbody>
-          {filteredAndSortedProcesses.length > 0 ? (
-            filteredAndSortedProcesses.map((process: Process) => (
-              <tr 
-                key={process.pid} 
-                className={`
-                  ${killStatus && killStatus.pid === process.pid ? 'highlighted' : ''}
-                  ${process.killable ? 'killable' : 'not-killable'}
-                `}
-                onClick={() => handleProcessClick(process)}
-              >
-                <td>{process.pid}</td>
-                <td>{process.name}</td>
-                <td>{process.cpu}%</td>
-                <td>{process.memory}%</td>
-                <td>{process.user}</td>
-                <td>
-                  <KillableStatus killable={!!process.killable}>
-                    {process.killable ? 'Killable' : 'System Process'}
-                  </KillableStatus>
-                </td>
-                <td onClick={(e) => e.stopPropagation()}>
-                  {process.killable ? (
-                    <KillButton onClick={() => handleKillProcess(process.pid)}>
-                      Kill
-                    </KillButton>
-                  ) : (
-                    <DisabledButton title="System processes cannot be killed">
-                      Kill
-                    </DisabledButton>
-                  )}
-                </td>
-              </tr>
-            ))
-          ) : (
-            <tr>
-              <td colSpan={7} style={{ textAlign: 'center' }}>
-                No processes found
-              </td>
-            </tr>
-          )}
-        </tbody>
-      </Table>
+      <ProcessTable
+        columns={layout.columns}
+        sort={layout.sort}
+        onSort={handleSort}
+        onResizeColumn={resizeColumn}
+        onMoveColumn={moveColumn}
+        processes={processList}
+        offset={processOffset}
+        total={processTotal}
+        onRangeChange={handleRangeChange}
+        scrollKey={`${query}|${showKillableOnly}|${treeView}|${layout.sort.field}|${layout.sort.direction}`}
+        treeView={treeView}
+        collapsed={collapsed}
+        onToggleCollapsed={toggleCollapsed}
+        canSignal={canSignal}
+        onKill={pid => handleKillProcess(pid)}
+        onSelect={handleProcessClick}
+        highlightedPid={killStatus ? killStatus.pid : null}
+      />
 
       {/* Process Details Modal */}
       {selectedProcess && (
@@ -315,6 +349,33 @@ const ProcessList: React.FC = () => {
               <DetailValue>{selectedProcess.name}</DetailValue>
             </DetailItem>
             
+            <DetailItem>
+              <DetailLabel>Command Line:</DetailLabel>
+              <DetailValue>{selectedProcess.commandLine || '-'}</DetailValue>
+            </DetailItem>
+
+            <DetailItem>
+              <DetailLabel>State:</DetailLabel>
+              <DetailValue>{selectedProcess.state}</DetailValue>
+            </DetailItem>
+
+            {selectedProcess.parentPid !== undefined && (
+              <DetailItem>
+                <DetailLabel>Parent PID:</DetailLabel>
+                <DetailValue>{selectedProcess.parentPid || '-'}</DetailValue>
+              </DetailItem>
+            )}
+
+            {!!selectedProcess.childCount && (
+              <DetailItem>
+                <DetailLabel>Children:</DetailLabel>
+                <DetailValue>
+                  {selectedProcess.childCount} direct, {selectedProcess.subtreeCpu}% CPU
+                  and {selectedProcess.subtreeMemory}% memory for the whole tree
+                </DetailValue>
+              </DetailItem>
+            )}
+            
             <DetailItem>
               <DetailLabel>CPU Usage:</DetailLabel>
               <DetailValue>{selectedProcess.cpu}%</DetailValue>
@@ -338,14 +399,68 @@ const ProcessList: React.FC = () => {
                 </KillableStatus>
               </DetailValue>
             </DetailItem>
+
+            <ProcessHistoryChart
+              pid={selectedProcess.pid}
+              started={selectedProcess.started}
+              getProcessHistory={getProcessHistory}
+            />
+
+            <ProcessConnections pid={selectedProcess.pid} getProcessConnections={getProcessConnections} />
             
-            {selectedProcess.killable ? (
-              <KillButtonLarge onClick={() => handleKillProcess(selectedProcess.pid)}>
-                Terminate Process
-              </KillButtonLarge>
+            {!canSignal ? (
+              <DisabledButtonLarge title="The operator role is required to signal processes">
+                Read-only access (operator role required)
+              </DisabledButtonLarge>
+            ) : selectedProcess.killable ? (
+              <>
+                <SignalPicker>
+                  <label htmlFor="signalSelect">Signal:</label>
+                  <select
+                    id="signalSelect"
+                    value={selectedSignal}
+                    onChange={(e) => setSelectedSignal(e.target.value as KillMode)}
+                  >
+                    {SIGNAL_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </SignalPicker>
+
+                {selectedSignal === 'escalate' && (
+                  <SignalPicker>
+                    <label htmlFor="gracePeriod">Grace period (s):</label>
+                    <input
+                      id="gracePeriod"
+                      type="number"
+                      min={0}
+                      max={60}
+                      value={gracePeriod}
+                      onChange={(e) => setGracePeriod(Number(e.target.value))}
+                    />
+                  </SignalPicker>
+                )}
+
+                <KillButtonLarge
+                  onClick={() => handleKillProcess(selectedProcess.pid, selectedSignal, gracePeriod * 1000)}
+                >
+                  {selectedSignal === 'escalate' ? 'Terminate Process' : `Send ${selectedSignal}`}
+                </KillButtonLarge>
+
+                {!!selectedProcess.childCount && (
+                  <TreeKillButton
+                    onClick={() => handleKillProcess(selectedProcess.pid, selectedSignal, gracePeriod * 1000, true)}
+                    title="Signals every descendant first, then the process itself"
+                  >
+                    {selectedSignal === 'escalate' ? 'Terminate Process Tree' : `Send ${selectedSignal} to Process Tree`}
+                  </TreeKillButton>
+                )}
+              </>
             ) : (
               <DisabledButtonLarge title="System processes cannot be killed">
-                Cannot Terminate (System Process)
+                Cannot Terminate (System ProcessInfo)
               </DisabledButtonLarge>
             )}
           </ModalContent>
@@ -362,73 +477,6 @@ const Container = styled.div`
   box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
 `;
 
-const Table = styled.table`
-  width: 100%;
-  border-collapse: collapse;
-  margin-top: 20px;
-  color: #cdd6f4;
-  
-  th, td {
-    padding: 12px 15px;
-    text-align: left;
-    border-bottom: 1px solid #313244;
-  }
-  
-  th {
-    background-color: #181825;
-    font-weight: bold;
-    cursor: pointer;
-    user-select: none;
-    
-    &:hover {
-      background-color: #11111b;
-    }
-  }
-  
-  tr {
-    cursor: pointer;
-    
-    &:hover {
-      background-color: #313244;
-    }
-  }
-  
-  tr.highlighted {
-    background-color: rgba(249, 226, 175, 0.2);
-  }
-  
-  tr.killable {
-    /* Subtle highlight for killable processes */
-    &:hover {
-      background-color: rgba(166, 227, 161, 0.15);
-    }
-  }
-  
-  tr.not-killable {
-    opacity: 0.7;
-  }
-`;
-
-const SearchInput = styled.input`
-  width: 100%;
-  padding: 10px;
-  margin-bottom: 20px;
-  background-color: #313244;
-  border: none;
-  border-radius: 4px;
-  color: #cdd6f4;
-  font-size: 16px;
-  
-  &:focus {
-    outline: none;
-    box-shadow: 0 0 0 2px #89b4fa;
-  }
-  
-  &::placeholder {
-    color: #6c7086;
-  }
-`;
-
 const KillButton = styled.button`
   background-color: #f38ba8;
   color: #11111b;
@@ -468,6 +516,17 @@ const KillButtonLarge = styled(KillButton)`
   width: 100%;
 `;
 
+const TreeKillButton = styled(KillButtonLarge)`
+  margin-top: 10px;
+  background-color: transparent;
+  color: #f38ba8;
+  border: 1px solid #f38ba8;
+
+  &:hover {
+    background-color: rgba(243, 139, 168, 0.15);
+  }
+`;
+
 const LoadingMessage = styled.div`
   text-align: center;
   padding: 40px;
@@ -494,6 +553,15 @@ const ConnectionStatus = styled.div<{ connected: boolean }>`
   font-weight: bold;
 `;
 
+// The connection badge brings its own bottom margin
+const StatusRow = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  justify-content: space-between;
+  align-items: flex-start;
+  gap: 8px;
+`;
+
 const ControlPanel = styled.div`
   display: flex;
   flex-wrap: wrap;
@@ -584,8 +652,10 @@ const ModalContent = styled.div`
   background-color: #1e1e2e;
   border-radius: 8px;
   padding: 20px;
-  width: 400px;
+  width: 520px;
   max-width: 90%;
+  max-height: 90vh;
+  overflow-y: auto;
   box-shadow: 0 4px 20px rgba(0, 0, 0, 0.3);
 `;
 
@@ -616,6 +686,35 @@ const CloseButton = styled.button`
   }
 `;
 
+const SignalPicker = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 10px;
+  margin-top: 16px;
+  color: #cdd6f4;
+
+  label {
+    flex: 0 0 120px;
+    font-weight: bold;
+    color: #89b4fa;
+  }
+
+  select, input {
+    flex: 1;
+    padding: 8px;
+    background-color: #313244;
+    border: none;
+    border-radius: 4px;
+    color: #cdd6f4;
+    font-size: 14px;
+
+    &:focus {
+      outline: none;
+      box-shadow: 0 0 0 2px #89b4fa;
+    }
+  }
+`;
+
 const DetailItem = styled.div`
   display: flex;
   margin-bottom: 12px;
@@ -630,6 +729,7 @@ const DetailLabel = styled.div`
 const DetailValue = styled.div`
   flex: 1;
   color: #cdd6f4;
+  overflow-wrap: anywhere;
 `;
 
 export default ProcessList; 
\ No newline at end of file
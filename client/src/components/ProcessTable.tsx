@@ -0,0 +1,472 @@
+import React, { useState, useEffect, useRef } from 'react';
+import styled from 'styled-components';
+import { ProcessInfo, ProcessSortKey } from '../hooks/useSocket';
+import { COLUMNS, ColumnId, ColumnSettings, ProcessSort } from '../hooks/useProcessColumns';
+
+// Rows are laid out at fixed heights so that only the ones in view need to
+// be rendered, however long the list is
+const ROW_HEIGHT = 40;
+const HEADER_HEIGHT = 44;
+// Rows rendered above and below the visible ones, so fast scrolling does not
+// show blanks before React catches up
+const OVERSCAN = 8;
+const ACTIONS_WIDTH = 90;
+
+// Indentation per tree level, in pixels
+const TREE_INDENT = 16;
+
+const formatBytes = (bytes: number): string => {
+  if (bytes === 0) return '0 Bytes';
+
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
+};
+
+interface Props {
+  // Every column in display order, hidden ones included
+  columns: ColumnSettings[];
+  sort: ProcessSort;
+  onSort: (field: ProcessSortKey) => void;
+  onResizeColumn: (id: ColumnId, width: number) => void;
+  // Moves a column to where `before` is, or to the end
+  onMoveColumn: (id: ColumnId, before: ColumnId | null) => void;
+  // The page the server sent, starting at `offset` of `total` rows
+  processes: ProcessInfo[];
+  offset: number;
+  total: number;
+  // Called with the rows in view whenever they change, so the right page
+  // can be asked for
+  onRangeChange: (first: number, count: number) => void;
+  // Scrolls back to the top whenever this changes, e.g. with the filter
+  scrollKey: string;
+  treeView: boolean;
+  collapsed: number[];
+  onToggleCollapsed: (pid: number) => void;
+  canSignal: boolean;
+  onKill: (pid: number) => void;
+  onSelect: (process: ProcessInfo) => void;
+  highlightedPid: number | null;
+}
+
+const ProcessTable: React.FC<Props> = ({
+  columns,
+  sort,
+  onSort,
+  onResizeColumn,
+  onMoveColumn,
+  processes,
+  offset,
+  total,
+  onRangeChange,
+  scrollKey,
+  treeView,
+  collapsed,
+  onToggleCollapsed,
+  canSignal,
+  onKill,
+  onSelect,
+  highlightedPid
+}) => {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [dragging, setDragging] = useState<ColumnId | null>(null);
+  const [dragOver, setDragOver] = useState<ColumnId | null>(null);
+
+  const visibleColumns = columns.filter(column => column.visible);
+  const totalWidth = visibleColumns.reduce((sum, column) => sum + column.width, ACTIONS_WIDTH);
+
+  // The viewport's height follows the window, up to its CSS maximum
+  useEffect(() => {
+    const measure = () => setViewportHeight(viewportRef.current?.clientHeight ?? 0);
+    measure();
+    window.addEventListener('resize', measure);
+    return () => window.removeEventListener('resize', measure);
+  }, [total]);
+
+  useEffect(() => {
+    if (viewportRef.current) viewportRef.current.scrollTop = 0;
+    setScrollTop(0);
+  }, [scrollKey]);
+
+  const firstVisible = Math.min(Math.floor(scrollTop / ROW_HEIGHT), Math.max(total - 1, 0));
+  const visibleCount = Math.ceil(Math.max(viewportHeight - HEADER_HEIGHT, 0) / ROW_HEIGHT) + 1;
+
+  useEffect(() => {
+    onRangeChange(firstVisible, visibleCount);
+  }, [onRangeChange, firstVisible, visibleCount]);
+
+  const first = Math.max(0, firstVisible - OVERSCAN);
+  const last = Math.min(total, firstVisible + visibleCount + OVERSCAN);
+  const indices = Array.from({ length: Math.max(last - first, 0) }, (_, i) => first + i);
+
+  // Drags the right edge of a header cell
+  const startResize = (event: React.MouseEvent, column: ColumnSettings) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const startX = event.clientX;
+    const handleMove = (move: MouseEvent) => onResizeColumn(column.id, column.width + move.clientX - startX);
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  // A column dropped on another takes its place, the others shift towards
+  // where it came from
+  const dropOn = (target: ColumnId) => {
+    if (!dragging || dragging === target) return;
+    const from = columns.findIndex(column => column.id === dragging);
+    const to = columns.findIndex(column => column.id === target);
+    onMoveColumn(dragging, from < to ? columns[to + 1]?.id ?? null : target);
+  };
+
+  const renderCell = (id: ColumnId, process: ProcessInfo): React.ReactNode => {
+    const withSubtree = treeView && !!process.childCount;
+    switch (id) {
+      case 'pid':
+        return process.pid;
+      case 'parentPid':
+        return process.parentPid || '-';
+      case 'name':
+        return treeView ? (
+          <TreeName depth={process.depth || 0}>
+            {process.childCount ? (
+              <TreeToggle
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onToggleCollapsed(process.pid);
+                }}
+                title={collapsed.includes(process.pid) ? 'Expand' : 'Collapse'}
+              >
+                {collapsed.includes(process.pid) ? '▸' : '▾'}
+              </TreeToggle>
+            ) : (
+              <TreeLeaf />
+            )}
+            {process.name}
+            {!!process.childCount && <SubtreeTotal> ({process.childCount})</SubtreeTotal>}
+          </TreeName>
+        ) : process.name;
+      case 'user':
+        return process.user;
+      case 'cpu':
+        return (
+          <>
+            {process.cpu}%
+            {withSubtree && <SubtreeTotal> / {process.subtreeCpu}% total</SubtreeTotal>}
+          </>
+        );
+      case 'memory':
+        return (
+          <>
+            {process.memory}%
+            {withSubtree && <SubtreeTotal> / {process.subtreeMemory}% total</SubtreeTotal>}
+          </>
+        );
+      case 'memRss':
+        return formatBytes(process.memRss * 1024);
+      case 'memVsz':
+        return formatBytes(process.memVsz * 1024);
+      case 'threads':
+        return process.threads ?? '-';
+      case 'priority':
+        return process.priority;
+      case 'nice':
+        return process.nice;
+      case 'state':
+        return process.state;
+      case 'started':
+        return process.started;
+      case 'commandLine':
+        return process.commandLine;
+      case 'status':
+        return (
+          <KillableStatus killable={!!process.killable}>
+            {process.killable ? 'Killable' : 'System Process'}
+          </KillableStatus>
+        );
+    }
+  };
+
+  return (
+    <Viewport ref={viewportRef} onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}>
+      <Grid style={{ width: totalWidth, height: HEADER_HEIGHT + Math.max(total, 1) * ROW_HEIGHT }}>
+        <HeaderRow style={{ height: HEADER_HEIGHT }}>
+          {visibleColumns.map(column => {
+            const definition = COLUMNS.find(candidate => candidate.id === column.id);
+            const sortKey = definition?.sortKey;
+            return (
+              <HeaderCell
+                key={column.id}
+                style={{ width: column.width }}
+                sortable={!!sortKey}
+                dropTarget={dragging !== null && dragging !== column.id && dragOver === column.id}
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move';
+                  e.dataTransfer.setData('text/plain', column.id);
+                  setDragging(column.id);
+                }}
+                onDragOver={(e) => {
+                  if (!dragging) return;
+                  e.preventDefault();
+                  if (dragOver !== column.id) setDragOver(column.id);
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  dropOn(column.id);
+                }}
+                onDragEnd={() => {
+                  setDragging(null);
+                  setDragOver(null);
+                }}
+                onClick={() => sortKey && onSort(sortKey)}
+                title="Drag to reorder"
+              >
+                <HeaderLabel>
+                  {definition?.label} {sortKey && sort.field === sortKey && (sort.direction === 'asc' ? '↑' : '↓')}
+                </HeaderLabel>
+                <ResizeHandle
+                  onMouseDown={(e) => startResize(e, column)}
+                  onClick={(e) => e.stopPropagation()}
+                  onDragStart={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                  }}
+                  title="Drag to resize"
+                />
+              </HeaderCell>
+            );
+          })}
+          <HeaderCell style={{ width: ACTIONS_WIDTH, flexGrow: 1 }} sortable={false} dropTarget={false}>
+            Actions
+          </HeaderCell>
+        </HeaderRow>
+
+        {total === 0 && (
+          <EmptyRow style={{ top: HEADER_HEIGHT, height: ROW_HEIGHT }}>No processes found</EmptyRow>
+        )}
+
+        {indices.map(index => {
+          const process = processes[index - offset];
+          const top = HEADER_HEIGHT + index * ROW_HEIGHT;
+          // Rows the server has not sent yet, while scrolling
+          if (!process) {
+            return <Row key={`pending-${index}`} className="pending" style={{ top, height: ROW_HEIGHT }} />;
+          }
+          return (
+            <Row
+              key={process.pid}
+              className={`${highlightedPid === process.pid ? 'highlighted' : ''} ${process.killable ? 'killable' : 'not-killable'}`}
+              style={{ top, height: ROW_HEIGHT }}
+              onClick={() => onSelect(process)}
+            >
+              {visibleColumns.map(column => (
+                <Cell key={column.id} style={{ width: column.width }} title={column.id === 'commandLine' ? process.commandLine : undefined}>
+                  {renderCell(column.id, process)}
+                </Cell>
+              ))}
+              <Cell style={{ width: ACTIONS_WIDTH, flexGrow: 1 }} onClick={(e) => e.stopPropagation()}>
+                {!canSignal ? (
+                  <DisabledButton title="The operator role is required to kill processes">
+                    Kill
+                  </DisabledButton>
+                ) : process.killable ? (
+                  <KillButton onClick={() => onKill(process.pid)}>
+                    Kill
+                  </KillButton>
+                ) : (
+                  <DisabledButton title="System processes cannot be killed">
+                    Kill
+                  </DisabledButton>
+                )}
+              </Cell>
+            </Row>
+          );
+        })}
+      </Grid>
+    </Viewport>
+  );
+};
+
+const Viewport = styled.div`
+  margin-top: 20px;
+  max-height: min(640px, 70vh);
+  overflow: auto;
+  color: #cdd6f4;
+  border-bottom: 1px solid #313244;
+`;
+
+const Grid = styled.div`
+  position: relative;
+  min-width: 100%;
+`;
+
+const HeaderRow = styled.div`
+  position: sticky;
+  top: 0;
+  z-index: 1;
+  display: flex;
+  min-width: 100%;
+  background-color: #181825;
+`;
+
+const HeaderCell = styled.div<{ sortable: boolean; dropTarget: boolean }>`
+  position: relative;
+  flex: 0 0 auto;
+  display: flex;
+  align-items: center;
+  padding: 0 15px;
+  box-sizing: border-box;
+  font-weight: bold;
+  cursor: ${props => props.sortable ? 'pointer' : 'default'};
+  user-select: none;
+  border-bottom: 1px solid #313244;
+  border-left: 2px solid ${props => props.dropTarget ? '#89b4fa' : 'transparent'};
+
+  &:hover {
+    background-color: #11111b;
+  }
+`;
+
+const HeaderLabel = styled.span`
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const ResizeHandle = styled.span`
+  position: absolute;
+  top: 0;
+  right: 0;
+  bottom: 0;
+  width: 6px;
+  cursor: col-resize;
+
+  &:hover {
+    background-color: #45475a;
+  }
+`;
+
+const Row = styled.div`
+  position: absolute;
+  left: 0;
+  right: 0;
+  display: flex;
+  cursor: pointer;
+  border-bottom: 1px solid #313244;
+  box-sizing: border-box;
+
+  &:hover {
+    background-color: #313244;
+  }
+
+  &.highlighted {
+    background-color: rgba(249, 226, 175, 0.2);
+  }
+
+  &.killable:hover {
+    /* Subtle highlight for killable processes */
+    background-color: rgba(166, 227, 161, 0.15);
+  }
+
+  &.not-killable {
+    opacity: 0.7;
+  }
+
+  &.pending {
+    cursor: default;
+    background: repeating-linear-gradient(90deg, #181825 0, #181825 40%, #1e1e2e 40%, #1e1e2e 100%);
+    opacity: 0.5;
+  }
+`;
+
+const Cell = styled.div`
+  flex: 0 0 auto;
+  padding: 0 15px;
+  box-sizing: border-box;
+  line-height: ${ROW_HEIGHT - 1}px;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const EmptyRow = styled.div`
+  position: absolute;
+  left: 0;
+  right: 0;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+`;
+
+const KillButton = styled.button`
+  background-color: #f38ba8;
+  color: #11111b;
+  border: none;
+  border-radius: 4px;
+  padding: 6px 12px;
+  cursor: pointer;
+  font-weight: bold;
+
+  &:hover {
+    background-color: #eb6f92;
+  }
+`;
+
+const DisabledButton = styled.button`
+  background-color: #45475a;
+  color: #cdd6f4;
+  border: none;
+  border-radius: 4px;
+  padding: 6px 12px;
+  cursor: not-allowed;
+  font-weight: bold;
+  opacity: 0.7;
+`;
+
+const TreeName = styled.span<{ depth: number }>`
+  display: inline-flex;
+  align-items: center;
+  padding-left: ${props => props.depth * TREE_INDENT}px;
+`;
+
+const TreeToggle = styled.button`
+  background: none;
+  border: none;
+  color: #89b4fa;
+  width: 20px;
+  padding: 0;
+  margin-right: 4px;
+  cursor: pointer;
+  font-size: 14px;
+`;
+
+const TreeLeaf = styled.span`
+  display: inline-block;
+  width: 20px;
+  margin-right: 4px;
+`;
+
+const SubtreeTotal = styled.span`
+  color: #6c7086;
+  font-size: 12px;
+`;
+
+const KillableStatus = styled.span<{ killable: boolean }>`
+  display: inline-block;
+  padding: 2px 6px;
+  border-radius: 4px;
+  font-size: 12px;
+  font-weight: bold;
+  background-color: ${props => props.killable ? 'rgba(166, 227, 161, 0.2)' : 'rgba(243, 139, 168, 0.2)'};
+  color: ${props => props.killable ? '#a6e3a1' : '#f38ba8'};
+`;
+
+export default ProcessTable;
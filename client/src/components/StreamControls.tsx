@@ -0,0 +1,93 @@
+import React from 'react';
+import styled from 'styled-components';
+import { StreamSettings } from '../hooks/useSocket';
+
+// Refresh rates offered, in milliseconds
+const REFRESH_OPTIONS = [1000, 2000, 5000, 10000];
+
+interface Props {
+  // The stream's settings as confirmed by the server, null until then
+  settings: StreamSettings | null;
+  onChange: (settings: Partial<StreamSettings>) => void;
+}
+
+// Refresh rate buttons and a freeze toggle for one live stream
+const StreamControls: React.FC<Props> = ({ settings, onChange }) => {
+  const disabled = !settings;
+
+  return (
+    <Controls>
+      <Label>Refresh:</Label>
+      {REFRESH_OPTIONS.map(interval => (
+        <RateButton
+          key={interval}
+          active={settings?.interval === interval}
+          disabled={disabled}
+          onClick={() => onChange({ interval })}
+        >
+          {interval / 1000}s
+        </RateButton>
+      ))}
+      <FreezeButton
+        paused={!!settings?.paused}
+        disabled={disabled}
+        onClick={() => onChange({ paused: !settings?.paused })}
+        title={settings?.paused ? 'Resume live updates' : 'Stop updates so the values can be read'}
+      >
+        {settings?.paused ? 'Resume' : 'Freeze'}
+      </FreezeButton>
+    </Controls>
+  );
+};
+
+const Controls = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+`;
+
+const Label = styled.span`
+  color: #bac2de;
+  font-size: 0.9rem;
+`;
+
+const RateButton = styled.button<{ active: boolean }>`
+  background-color: ${props => props.active ? '#89b4fa' : '#313244'};
+  color: ${props => props.active ? '#11111b' : '#cdd6f4'};
+  border: none;
+  border-radius: 4px;
+  padding: 4px 10px;
+  cursor: pointer;
+  font-weight: bold;
+
+  &:hover:not(:disabled) {
+    background-color: ${props => props.active ? '#89b4fa' : '#45475a'};
+  }
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
+const FreezeButton = styled.button<{ paused: boolean }>`
+  background-color: ${props => props.paused ? '#f9e2af' : '#313244'};
+  color: ${props => props.paused ? '#11111b' : '#cdd6f4'};
+  border: none;
+  border-radius: 4px;
+  padding: 4px 12px;
+  margin-left: 6px;
+  cursor: pointer;
+  font-weight: bold;
+
+  &:hover:not(:disabled) {
+    background-color: ${props => props.paused ? '#f9e2af' : '#45475a'};
+  }
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
+export default StreamControls;
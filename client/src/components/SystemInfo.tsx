@@ -1,6 +1,9 @@
 import React from 'react';
 import styled from 'styled-components';
-import { SystemInfo as SystemInfoType } from '../hooks/useSocket';
+import { CollectorStatus, CpuCores, StreamSettings, SystemInfo as SystemInfoType } from '../hooks/useSocket';
+import useMetricsHistory, { fetchMetrics, HISTORY_RANGES, HistoryRange } from '../hooks/useMetricsHistory';
+import StreamControls from './StreamControls';
+import CollectorStatusNotice from './CollectorStatusNotice';
 import { Line } from 'react-chartjs-2';
 import {
   Chart as ChartJS,
@@ -26,16 +29,61 @@ ChartJS.register(
 );
 
 interface Props {
+  // The server the panel shows, for its stored history
+  serverUrl: string;
   systemInfo: SystemInfoType | null;
+  cpuCores: CpuCores | null;
+  // Settings of the system stream, which the panel's refresh controls change
+  streamSettings: StreamSettings | null;
+  onStreamChange: (settings: Partial<StreamSettings>) => void;
+  collectorStatus: CollectorStatus | undefined;
 }
 
+const LIVE_POINTS = 30;
+
+// Heatmap colour of a core from its load in percent, lowest step first
+const HEAT_STEPS = [
+  { min: 0, color: '#313244' },
+  { min: 10, color: '#89b4fa' },
+  { min: 30, color: '#a6e3a1' },
+  { min: 60, color: '#f9e2af' },
+  { min: 85, color: '#f38ba8' }
+];
+
+const heatColor = (load: number): string =>
+  HEAT_STEPS.reduce((color, step) => load >= step.min ? step.color : color, HEAT_STEPS[0].color);
+
+// Prepends stored samples to the live history so a page refresh does not start
+// from an empty chart; `liveCount` live samples have arrived since mount
+const mergeSeed = (seed: number[], current: number[], liveCount: number): number[] => {
+  const live = liveCount > 0 ? current.slice(-liveCount) : [];
+  const merged = [...seed, ...live].slice(-LIVE_POINTS);
+  return [...Array(LIVE_POINTS - merged.length).fill(0), ...merged];
+};
+
 // Component for CPU and memory usage history
-const SystemInfo: React.FC<Props> = ({ systemInfo }) => {
-  const [cpuHistory, setCpuHistory] = React.useState<number[]>(Array(30).fill(0));
-  const [memoryHistory, setMemoryHistory] = React.useState<number[]>(Array(30).fill(0));
+const SystemInfo: React.FC<Props> = ({ serverUrl, systemInfo, cpuCores, streamSettings, onStreamChange, collectorStatus }) => {
+  const [cpuHistory, setCpuHistory] = React.useState<number[]>(Array(LIVE_POINTS).fill(0));
+  const [memoryHistory, setMemoryHistory] = React.useState<number[]>(Array(LIVE_POINTS).fill(0));
+  const [range, setRange] = React.useState<HistoryRange | 'live'>('live');
+  const liveCount = React.useRef(0);
+  const { points: storedPoints, error: historyError } = useMetricsHistory(serverUrl, range === 'live' ? null : range);
+
+  // Seed the live charts with the last minute of stored samples
+  React.useEffect(() => {
+    const now = Date.now();
+    fetchMetrics(serverUrl, now - 60 * 1000, now, 2000)
+      .then(points => {
+        setCpuHistory(prev => mergeSeed(points.map(point => point.cpu), prev, liveCount.current));
+        setMemoryHistory(prev => mergeSeed(points.map(point => point.mem), prev, liveCount.current));
+      })
+      .catch(error => console.warn('Could not load recent metrics history:', error));
+  }, [serverUrl]);
   
   React.useEffect(() => {
     if (systemInfo) {
+      liveCount.current++;
+
       // Parse CPU load and ensure it's a valid number between 0-100
       const cpuLoad = parseFloat(systemInfo.cpu.load);
       const sanitizedCpuLoad = !isNaN(cpuLoad) && cpuLoad <= 100 ? cpuLoad : 
@@ -44,7 +92,7 @@ const SystemInfo: React.FC<Props> = ({ systemInfo }) => {
       // Update CPU history
       setCpuHistory(prev => {
         const newHistory = [...prev, sanitizedCpuLoad];
-        if (newHistory.length > 30) {
+        if (newHistory.length > LIVE_POINTS) {
           newHistory.shift();
         }
         return newHistory;
@@ -58,7 +106,7 @@ const SystemInfo: React.FC<Props> = ({ systemInfo }) => {
       // Update memory history
       setMemoryHistory(prev => {
         const newHistory = [...prev, sanitizedMemPercent];
-        if (newHistory.length > 30) {
+        if (newHistory.length > LIVE_POINTS) {
           newHistory.shift();
         }
         return newHistory;
@@ -66,8 +114,13 @@ const SystemInfo: React.FC<Props> = ({ systemInfo }) => {
     }
   }, [systemInfo]);
 
-  // Labels for chart (last 30 seconds)
-  const labels = Array.from({ length: 30 }, (_, i) => `${-29 + i}s`);
+  // Labels for chart: seconds ago at the current refresh rate when live,
+  // wall-clock time otherwise
+  const isLive = range === 'live';
+  const sampleSeconds = (streamSettings?.interval ?? 2000) / 1000;
+  const labels = isLive
+    ? Array.from({ length: LIVE_POINTS }, (_, i) => `${(-(LIVE_POINTS - 1) + i) * sampleSeconds}s`)
+    : storedPoints.map(point => new Date(point.t).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }));
   
   // CPU chart data
   const cpuData: ChartData<'line'> = {
@@ -75,7 +128,7 @@ const SystemInfo: React.FC<Props> = ({ systemInfo }) => {
     datasets: [
       {
         label: 'CPU Usage %',
-        data: cpuHistory,
+        data: isLive ? cpuHistory : storedPoints.map(point => point.cpu),
         borderColor: 'rgb(75, 192, 192)',
         backgroundColor: 'rgba(75, 192, 192, 0.5)',
         tension: 0.3,
@@ -89,7 +142,7 @@ const SystemInfo: React.FC<Props> = ({ systemInfo }) => {
     datasets: [
       {
         label: 'Memory Usage %',
-        data: memoryHistory,
+        data: isLive ? memoryHistory : storedPoints.map(point => point.mem),
         borderColor: 'rgb(255, 99, 132)',
         backgroundColor: 'rgba(255, 99, 132, 0.5)',
         tension: 0.3,
@@ -115,10 +168,26 @@ const SystemInfo: React.FC<Props> = ({ systemInfo }) => {
 
   return (
     <Container>
-      <Header>System Information</Header>
+      <HeaderRow>
+        <Header>System Information</Header>
+        <StreamControls settings={streamSettings} onChange={onStreamChange} />
+      </HeaderRow>
+      <CollectorStatusNotice status={collectorStatus} />
       
       {systemInfo ? (
         <>
+          <RangeSelector>
+            <RangeButton active={isLive} onClick={() => setRange('live')}>
+              Live
+            </RangeButton>
+            {(Object.keys(HISTORY_RANGES) as HistoryRange[]).map(key => (
+              <RangeButton key={key} active={range === key} onClick={() => setRange(key)}>
+                {HISTORY_RANGES[key].label}
+              </RangeButton>
+            ))}
+            {!isLive && historyError && <RangeError>History unavailable: {historyError}</RangeError>}
+          </RangeSelector>
+
           <InfoGrid>
             <InfoCard>
               <CardTitle>CPU Usage</CardTitle>
@@ -128,6 +197,36 @@ const SystemInfo: React.FC<Props> = ({ systemInfo }) => {
                   return !isNaN(cpuLoad) ? Math.min(cpuLoad, 100).toFixed(1) : '0.0';
                 })()}%
               </CardValue>
+              <CpuDetails>
+                <div>
+                  {systemInfo.cpu.manufacturer} {systemInfo.cpu.brand} &middot; {systemInfo.cpu.cores} threads
+                  on {systemInfo.cpu.physicalCores} cores
+                </div>
+                <div>
+                  Frequency:{' '}
+                  {systemInfo.cpu.speed !== null ? (
+                    <>
+                      {systemInfo.cpu.speed.toFixed(2)} GHz
+                      {systemInfo.cpu.speedMax !== null && ` (max ${systemInfo.cpu.speedMax.toFixed(2)} GHz)`}
+                    </>
+                  ) : (
+                    <Unavailable>unavailable</Unavailable>
+                  )}
+                </div>
+                <div>
+                  Temperature:{' '}
+                  {systemInfo.cpu.temperature !== null
+                    ? `${systemInfo.cpu.temperature.toFixed(1)} °C`
+                    : <Unavailable>unavailable on this machine</Unavailable>}
+                </div>
+                <div>
+                  Load average:{' '}
+                  {systemInfo.cpu.loadAverage
+                    ? systemInfo.cpu.loadAverage.map(value => value.toFixed(2)).join(' / ')
+                    : <Unavailable>not reported on Windows</Unavailable>}
+                  {systemInfo.cpu.loadAverage && <LoadAverageNote> (1 / 5 / 15 min)</LoadAverageNote>}
+                </div>
+              </CpuDetails>
               <ChartContainer>
                 <Line options={options} data={cpuData} />
               </ChartContainer>
@@ -150,29 +249,44 @@ const SystemInfo: React.FC<Props> = ({ systemInfo }) => {
             </InfoCard>
           </InfoGrid>
           
-          <CoresContainer>
-            <CardTitle>CPU Cores</CardTitle>
-            <CoresGrid>
-              {systemInfo.cpu.cores.map((core, index) => {
-                // Ensure core load is a valid number between 0-100
-                const coreLoad = parseFloat(core.load);
-                const sanitizedCoreLoad = !isNaN(coreLoad) && coreLoad <= 100 ? coreLoad : 
-                                         (!isNaN(coreLoad) ? Math.min(coreLoad, 100) : 0);
-                
-                return (
-                  <CoreCard key={index}>
-                    <CoreTitle>Core {index}</CoreTitle>
-                    <CoreValue>{sanitizedCoreLoad.toFixed(1)}%</CoreValue>
-                    <ProgressBar>
-                      <Progress width={sanitizedCoreLoad} />
-                    </ProgressBar>
-                  </CoreCard>
-                );
-              })}
-            </CoresGrid>
-          </CoresContainer>
+          {cpuCores && (
+            <CoresContainer>
+              <CoresHeader>
+                <CardTitle>CPU Cores ({cpuCores.cores.length})</CardTitle>
+                <HeatLegend>
+                  {HEAT_STEPS.map(step => (
+                    <LegendItem key={step.min}>
+                      <LegendSwatch color={step.color} />
+                      {step.min}%+
+                    </LegendItem>
+                  ))}
+                </HeatLegend>
+              </CoresHeader>
+              <Heatmap>
+                {cpuCores.cores.map((core, index) => {
+                  // Ensure core load is a valid number between 0-100
+                  const coreLoad = parseFloat(core.load);
+                  const sanitizedCoreLoad = !isNaN(coreLoad) ? Math.min(Math.max(coreLoad, 0), 100) : 0;
+                  const details = [
+                    `Core ${index}: ${sanitizedCoreLoad.toFixed(1)}%`,
+                    core.speed !== null
+                      ? `${core.speed.toFixed(2)} GHz${core.speedMax !== null ? ` of ${core.speedMax.toFixed(2)}` : ''}`
+                      : 'frequency unavailable',
+                    core.temperature !== null ? `${core.temperature.toFixed(1)} °C` : 'temperature unavailable'
+                  ];
+
+                  return (
+                    <HeatCell key={index} color={heatColor(sanitizedCoreLoad)} title={details.join('\n')}>
+                      <HeatIndex>{index}</HeatIndex>
+                      {sanitizedCoreLoad.toFixed(0)}
+                    </HeatCell>
+                  );
+                })}
+              </Heatmap>
+            </CoresContainer>
+          )}
         </>
-      ) : (
+      ) : collectorStatus?.state !== 'failed' && (
         <LoadingMessage>Loading system information...</LoadingMessage>
       )}
     </Container>
@@ -199,13 +313,48 @@ const Container = styled.div`
   box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
 `;
 
-const Header = styled.h2`
-  margin-top: 0;
+const HeaderRow = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  justify-content: space-between;
+  align-items: center;
+  gap: 8px;
   margin-bottom: 16px;
+`;
+
+const Header = styled.h2`
+  margin: 0;
   color: #cdd6f4;
   font-size: 1.5rem;
 `;
 
+const RangeSelector = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: 8px;
+  margin-bottom: 16px;
+`;
+
+const RangeButton = styled.button<{ active: boolean }>`
+  background-color: ${props => props.active ? '#89b4fa' : '#313244'};
+  color: ${props => props.active ? '#11111b' : '#cdd6f4'};
+  border: none;
+  border-radius: 4px;
+  padding: 6px 12px;
+  cursor: pointer;
+  font-weight: bold;
+
+  &:hover {
+    background-color: ${props => props.active ? '#89b4fa' : '#45475a'};
+  }
+`;
+
+const RangeError = styled.span`
+  color: #f38ba8;
+  font-size: 0.9rem;
+`;
+
 const InfoGrid = styled.div`
   display: grid;
   grid-template-columns: 1fr 1fr;
@@ -255,45 +404,80 @@ const CoresContainer = styled.div`
   box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
 `;
 
-const CoresGrid = styled.div`
-  display: grid;
-  grid-template-columns: repeat(auto-fill, minmax(180px, 1fr));
-  gap: 16px;
-  margin-top: 16px;
+const CoresHeader = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  justify-content: space-between;
+  align-items: center;
+  gap: 8px;
 `;
 
-const CoreCard = styled.div`
-  background-color: #181825;
-  border-radius: 6px;
-  padding: 12px;
+const HeatLegend = styled.div`
+  display: flex;
+  gap: 10px;
+  font-size: 0.8rem;
+  color: #bac2de;
 `;
 
-const CoreTitle = styled.div`
-  font-size: 0.9rem;
-  margin-bottom: 8px;
-  color: #bac2de;
+const LegendItem = styled.span`
+  display: flex;
+  align-items: center;
+  gap: 4px;
 `;
 
-const CoreValue = styled.div`
-  font-size: 1.2rem;
-  font-weight: bold;
-  margin-bottom: 8px;
-  color: #89b4fa;
+const LegendSwatch = styled.span<{ color: string }>`
+  width: 10px;
+  height: 10px;
+  border-radius: 2px;
+  background-color: ${props => props.color};
 `;
 
-const ProgressBar = styled.div`
-  height: 8px;
-  width: 100%;
-  background-color: #313244;
-  border-radius: 4px;
-  overflow: hidden;
+// Small fixed-size cells so that even 128 cores take only a few rows
+const Heatmap = styled.div`
+  display: grid;
+  grid-template-columns: repeat(auto-fill, minmax(40px, 1fr));
+  gap: 4px;
+  margin-top: 12px;
 `;
 
-const Progress = styled.div<{ width: number }>`
-  height: 100%;
-  width: ${props => `${props.width}%`};
-  background-color: #89b4fa;
+const HeatCell = styled.div<{ color: string }>`
+  position: relative;
+  height: 34px;
   border-radius: 4px;
+  background-color: ${props => props.color};
+  color: ${props => props.color === '#313244' ? '#cdd6f4' : '#11111b'};
+  font-size: 0.85rem;
+  font-weight: bold;
+  display: flex;
+  align-items: flex-end;
+  justify-content: center;
+  padding-bottom: 3px;
+  cursor: default;
+`;
+
+const HeatIndex = styled.span`
+  position: absolute;
+  top: 2px;
+  left: 4px;
+  font-size: 0.6rem;
+  font-weight: normal;
+  opacity: 0.7;
+`;
+
+const CpuDetails = styled.div`
+  font-size: 0.9rem;
+  color: #bac2de;
+  margin-bottom: 16px;
+  line-height: 1.5;
+`;
+
+const Unavailable = styled.span`
+  color: #6c7086;
+  font-style: italic;
+`;
+
+const LoadAverageNote = styled.span`
+  color: #6c7086;
 `;
 
 const LoadingMessage = styled.div`
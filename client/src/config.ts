@@ -0,0 +1,9 @@
+import type { ProtocolVersion } from '../../shared/protocol';
+
+// Production builds are served by the monitor server itself, the development
+// server (npm start) talks to it on its default port
+export const SERVER_URL = process.env.REACT_APP_SERVER_URL
+  || (process.env.NODE_ENV === 'production' ? window.location.origin : 'http://localhost:5000');
+
+// Must match the server's, see shared/protocol.d.ts
+export const PROTOCOL_VERSION: ProtocolVersion = 10;
@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback } from 'react';
+import { authHeaders, clearStoredSession } from './useAuth';
+import { KillErrorCode, ProcessSignal } from './useSocket';
+
+export interface AuditEntry {
+  timestamp: string;
+  action: 'signal';
+  actor: {
+    username: string;
+    role: string;
+  };
+  source: {
+    socketId?: string;
+    ip?: string;
+  };
+  target: {
+    pid: number | null;
+    name?: string;
+    command?: string;
+    user?: string;
+  };
+  requestedSignal?: string;
+  signal?: ProcessSignal;
+  result: 'success' | 'failure' | 'rejected';
+  code?: KillErrorCode;
+  message: string;
+}
+
+export interface AuditFilters {
+  user?: string;
+  pid?: string;
+  process?: string;
+  result?: AuditEntry['result'] | '';
+  from?: string;
+  to?: string;
+}
+
+export const fetchAuditLog = async (serverUrl: string, filters: AuditFilters, limit = 200): Promise<AuditEntry[]> => {
+  const params = new URLSearchParams({ limit: String(limit) });
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) params.set(key, value);
+  });
+
+  const response = await fetch(`${serverUrl}/api/audit?${params.toString()}`, {
+    headers: authHeaders(serverUrl)
+  });
+  if (response.status === 401) {
+    clearStoredSession(serverUrl);
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Server responded with ${response.status}`);
+  }
+  const data = await response.json();
+  return data.entries;
+};
+
+// Loads the process-control audit trail of a server for the given filters
+const useAuditLog = (serverUrl: string, filters: AuditFilters) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const { user, pid, process, result, from, to } = filters;
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setEntries(await fetchAuditLog(serverUrl, { user, pid, process, result, from, to }));
+      setError(null);
+    } catch (err: any) {
+      console.error('Error loading audit log:', err);
+      setError(err.message || 'Failed to load audit log');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [serverUrl, user, pid, process, result, from, to]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { entries, error, isLoading, refresh };
+};
+
+export default useAuditLog;
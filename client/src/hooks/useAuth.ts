@@ -0,0 +1,101 @@
+import { useState, useEffect, useCallback } from 'react';
+import { SERVER_URL } from '../config';
+
+export type Role = 'viewer' | 'operator';
+
+export interface AuthSession {
+  // null when the server runs with authentication disabled
+  token: string | null;
+  user: {
+    username: string;
+    role: Role;
+  };
+  expiresAt: number | null;
+}
+
+const STORAGE_KEY = 'processMonitorSession';
+
+// Every monitored server issues its own tokens; the hosts a hub serves under
+// /hosts/<name> take the hub's, so sessions are kept per origin. The server
+// the dashboard is served from keeps the original key, so existing sessions
+// stay valid.
+const storageKey = (serverUrl: string) => {
+  const origin = new URL(serverUrl).origin;
+  return origin === new URL(SERVER_URL).origin ? STORAGE_KEY : `${STORAGE_KEY}:${origin}`;
+};
+
+// Fired on window whenever the stored session changes, so every hook instance
+// (and a socket that was rejected by the server) stays in sync
+export const AUTH_CHANGED_EVENT = 'process-monitor-auth-changed';
+
+export const getStoredSession = (serverUrl = SERVER_URL): AuthSession | null => {
+  try {
+    const stored = localStorage.getItem(storageKey(serverUrl));
+    if (!stored) return null;
+
+    const session: AuthSession = JSON.parse(stored);
+    if (session.expiresAt !== null && session.expiresAt < Date.now()) {
+      localStorage.removeItem(storageKey(serverUrl));
+      return null;
+    }
+    return session;
+  } catch {
+    return null;
+  }
+};
+
+// Authorization header for REST calls made with the stored session
+export const authHeaders = (serverUrl = SERVER_URL): Record<string, string> => {
+  const token = getStoredSession(serverUrl)?.token;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+export const clearStoredSession = (serverUrl = SERVER_URL) => {
+  localStorage.removeItem(storageKey(serverUrl));
+  window.dispatchEvent(new Event(AUTH_CHANGED_EVENT));
+};
+
+// Logging out of the dashboard also drops the sessions of the other servers
+const clearAllSessions = () => {
+  Object.keys(localStorage)
+    .filter(key => key === STORAGE_KEY || key.startsWith(`${STORAGE_KEY}:`))
+    .forEach(key => localStorage.removeItem(key));
+  window.dispatchEvent(new Event(AUTH_CHANGED_EVENT));
+};
+
+// Exchanges username/password for a session on the given server and stores it
+export const loginTo = async (serverUrl: string, username: string, password: string) => {
+  const response = await fetch(`${serverUrl}/api/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password })
+  });
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok || !body) {
+    throw new Error(body?.error || `Login failed (${response.status})`);
+  }
+
+  localStorage.setItem(storageKey(serverUrl), JSON.stringify(body));
+  window.dispatchEvent(new Event(AUTH_CHANGED_EVENT));
+};
+
+const useAuth = () => {
+  const [session, setSession] = useState<AuthSession | null>(getStoredSession);
+
+  useEffect(() => {
+    const handleChange = () => setSession(getStoredSession());
+    window.addEventListener(AUTH_CHANGED_EVENT, handleChange);
+    return () => window.removeEventListener(AUTH_CHANGED_EVENT, handleChange);
+  }, []);
+
+  const login = useCallback((username: string, password: string) => loginTo(SERVER_URL, username, password), []);
+
+  const logout = useCallback(() => {
+    clearAllSessions();
+  }, []);
+
+  return { session, login, logout };
+};
+
+export default useAuth;
@@ -0,0 +1,81 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import useHosts, { normalizeHostUrl } from './useHosts';
+
+const reply = (status: number, body: unknown = null) =>
+  Promise.resolve({ ok: status >= 200 && status < 300, status, json: () => Promise.resolve(body) } as Response);
+
+// hosts.json lists db-1 and an entry that is skipped; `hubHosts` is what
+// /api/hosts answers, a 404 when the server is no hub
+const serve = (hubHosts: unknown = null) => {
+  window.fetch = jest.fn((input: RequestInfo | URL) => {
+    const url = String(input);
+    if (url.endsWith('/hosts.json')) {
+      return reply(200, [{ name: 'db-1', url: 'http://db-1:5000/' }, { name: 'broken', url: 'not a url' }]);
+    }
+    if (url.endsWith('/api/hosts')) {
+      return hubHosts ? reply(200, hubHosts) : reply(404, { error: 'Not a hub' });
+    }
+    return reply(404);
+  });
+};
+
+beforeEach(() => {
+  localStorage.clear();
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('host URLs are normalized to an origin and path without a trailing slash', () => {
+  expect(normalizeHostUrl(' https://Example.com:8443/hosts/db-1/ ')).toBe('https://example.com:8443/hosts/db-1');
+  expect(normalizeHostUrl('http://10.0.0.5:5001')).toBe('http://10.0.0.5:5001');
+  expect(() => normalizeHostUrl('ftp://example.com')).toThrow('Host URLs must start with http:// or https://');
+  expect(() => normalizeHostUrl('example.com')).toThrow('example.com is not a valid URL');
+});
+
+test('the local server comes first, then the hub\'s agents and hosts.json', async () => {
+  serve({ hosts: [{ name: 'db-2', connected: true }] });
+  const { result } = renderHook(() => useHosts());
+
+  await waitFor(() => expect(result.current.hosts).toHaveLength(3));
+  expect(result.current.hosts).toEqual([
+    { name: 'localhost:5000', url: 'http://localhost:5000', source: 'local' },
+    { name: 'db-2', url: 'http://localhost:5000/hosts/db-2', source: 'hub' },
+    { name: 'db-1', url: 'http://db-1:5000', source: 'config' }
+  ]);
+  expect(console.warn).toHaveBeenCalledWith('Ignoring host with an invalid URL:', 'not a url');
+});
+
+test('hosts added in the browser are kept in localStorage until removed', async () => {
+  serve();
+  const { result, unmount } = renderHook(() => useHosts());
+  await waitFor(() => expect(result.current.hosts).toHaveLength(2));
+
+  act(() => result.current.addHost('', ' http://10.0.0.5:5001/ '));
+  act(() => result.current.addHost('staging', 'https://staging.example.com'));
+  expect(result.current.hosts.slice(2)).toEqual([
+    { name: '10.0.0.5:5001', url: 'http://10.0.0.5:5001', source: 'browser' },
+    { name: 'staging', url: 'https://staging.example.com', source: 'browser' }
+  ]);
+
+  // Known hosts, wherever they came from, are not added twice
+  expect(() => result.current.addHost('again', 'http://db-1:5000/')).toThrow('http://db-1:5000 is already monitored');
+  expect(() => result.current.addHost('again', 'http://localhost:5000')).toThrow('already monitored');
+  expect(() => result.current.addHost('bad', 'ftp://db-3')).toThrow('Host URLs must start with http:// or https://');
+  expect(result.current.hosts).toHaveLength(4);
+
+  act(() => result.current.removeHost('http://10.0.0.5:5001'));
+  // Only hosts added here can be removed
+  act(() => result.current.removeHost('http://db-1:5000'));
+  expect(result.current.hosts.map(host => host.name)).toEqual(['localhost:5000', 'db-1', 'staging']);
+  unmount();
+
+  const view = renderHook(() => useHosts());
+  await waitFor(() => expect(view.result.current.hosts).toHaveLength(3));
+  expect(view.result.current.hosts[2]).toEqual({ name: 'staging', url: 'https://staging.example.com', source: 'browser' });
+  expect(JSON.parse(localStorage.getItem('processMonitorHosts') || '[]'))
+    .toEqual([{ name: 'staging', url: 'https://staging.example.com' }]);
+  view.unmount();
+});
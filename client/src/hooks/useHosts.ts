@@ -0,0 +1,155 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { SERVER_URL } from '../config';
+import { authHeaders } from './useAuth';
+
+export interface Host {
+  name: string;
+  // Origin, plus /hosts/<name> for a host a hub serves, without a trailing
+  // slash; also what identifies the host
+  url: string;
+  // The server the dashboard came from, an agent reporting to it (when it is
+  // a hub), hosts.json, or added in the browser
+  source: 'local' | 'hub' | 'config' | 'browser';
+}
+
+// Deployed next to index.html, so the list of hosts can be changed without
+// rebuilding: [{ "name": "db-1", "url": "http://db-1:5000" }, ...]
+const HOSTS_CONFIG_URL = `${process.env.PUBLIC_URL}/hosts.json`;
+
+const STORAGE_KEY = 'processMonitorHosts';
+
+// Agents keep connecting to a hub after the page has loaded
+const HUB_HOSTS_INTERVAL = 30000;
+
+const LOCAL_HOST: Host = {
+  name: new URL(SERVER_URL).host,
+  url: SERVER_URL,
+  source: 'local'
+};
+
+// Throws when the URL is not an http(s) URL
+export const normalizeHostUrl = (value: string): string => {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    throw new Error(`${value} is not a valid URL`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('Host URLs must start with http:// or https://');
+  }
+  return `${url.origin}${url.pathname}`.replace(/\/+$/, '');
+};
+
+// Entries that are not { name, url } with a valid URL are skipped
+const parseHosts = (value: unknown, source: Host['source']): Host[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap(entry => {
+    if (typeof entry !== 'object' || entry === null || typeof entry.url !== 'string') return [];
+    try {
+      const url = normalizeHostUrl(entry.url);
+      return [{ name: typeof entry.name === 'string' && entry.name ? entry.name : new URL(url).host, url, source }];
+    } catch {
+      console.warn('Ignoring host with an invalid URL:', entry.url);
+      return [];
+    }
+  });
+};
+
+// The hosts of a hub's agents, from its /api/hosts
+const parseHubHosts = (value: unknown): Host[] => {
+  if (typeof value !== 'object' || value === null || !Array.isArray((value as { hosts?: unknown }).hosts)) return [];
+  return (value as { hosts: unknown[] }).hosts.flatMap(entry => {
+    if (typeof entry !== 'object' || entry === null || typeof (entry as { name?: unknown }).name !== 'string') return [];
+    const { name } = entry as { name: string };
+    return [{ name, url: `${SERVER_URL}/hosts/${encodeURIComponent(name)}`, source: 'hub' as const }];
+  });
+};
+
+const loadBrowserHosts = (): Host[] => {
+  try {
+    return parseHosts(JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]'), 'browser');
+  } catch {
+    return [];
+  }
+};
+
+const storeBrowserHosts = (hosts: Host[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(hosts.map(({ name, url }) => ({ name, url }))));
+};
+
+// The monitored servers: the one the dashboard is served from, the hosts of
+// its agents if it is a hub, those listed in hosts.json and those added in
+// this browser, in that order
+const useHosts = () => {
+  const [hubHosts, setHubHosts] = useState<Host[]>([]);
+  const [configHosts, setConfigHosts] = useState<Host[]>([]);
+  const [browserHosts, setBrowserHosts] = useState<Host[]>(loadBrowserHosts);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(HOSTS_CONFIG_URL)
+      .then(response => (response.ok ? response.json() : []))
+      .then(config => {
+        if (!cancelled) setConfigHosts(parseHosts(config, 'config'));
+      })
+      // The development server answers unknown paths with index.html
+      .catch(error => console.warn('Could not load hosts.json:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Servers that are not hubs answer 404, they are not asked again
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      fetch(`${SERVER_URL}/api/hosts`, { headers: authHeaders() })
+        .then(response => {
+          if (response.status === 404) clearInterval(timer);
+          return response.ok ? response.json() : null;
+        })
+        .then(body => {
+          if (!cancelled && body) setHubHosts(parseHubHosts(body));
+        })
+        .catch(error => console.warn('Could not load the hub\'s hosts:', error));
+    };
+    const timer = setInterval(load, HUB_HOSTS_INTERVAL);
+    load();
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, []);
+
+  const hosts = useMemo(() => {
+    const seen = new Set<string>();
+    return [LOCAL_HOST, ...hubHosts, ...configHosts, ...browserHosts].filter(host => {
+      if (seen.has(host.url)) return false;
+      seen.add(host.url);
+      return true;
+    });
+  }, [hubHosts, configHosts, browserHosts]);
+
+  // Throws with a message for the form when the URL is invalid or known
+  const addHost = useCallback((name: string, url: string) => {
+    const normalized = normalizeHostUrl(url);
+    if (hosts.some(host => host.url === normalized)) {
+      throw new Error(`${normalized} is already monitored`);
+    }
+    const next: Host[] = [...browserHosts, { name: name.trim() || new URL(normalized).host, url: normalized, source: 'browser' }];
+    storeBrowserHosts(next);
+    setBrowserHosts(next);
+  }, [hosts, browserHosts]);
+
+  // Only hosts added in the browser can be removed here
+  const removeHost = useCallback((url: string) => {
+    const next = browserHosts.filter(host => host.url !== url);
+    storeBrowserHosts(next);
+    setBrowserHosts(next);
+  }, [browserHosts]);
+
+  return { hosts, addHost, removeHost };
+};
+
+export default useHosts;
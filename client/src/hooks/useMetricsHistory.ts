@@ -0,0 +1,77 @@
+import { useState, useEffect } from 'react';
+import { authHeaders, clearStoredSession } from './useAuth';
+
+export interface MetricPoint {
+  t: number;
+  cpu: number;
+  mem: number;
+}
+
+export type HistoryRange = '15m' | '1h' | '24h';
+
+// Window length and bucket size (ms) for each selectable range
+export const HISTORY_RANGES: Record<HistoryRange, { label: string; duration: number; step: number }> = {
+  '15m': { label: 'Last 15 min', duration: 15 * 60 * 1000, step: 10 * 1000 },
+  '1h': { label: 'Last 1 h', duration: 60 * 60 * 1000, step: 30 * 1000 },
+  '24h': { label: 'Last 24 h', duration: 24 * 60 * 60 * 1000, step: 10 * 60 * 1000 }
+};
+
+// How often a stored range is re-fetched while it is displayed
+const REFRESH_INTERVAL = 30000;
+
+export const fetchMetrics = async (serverUrl: string, from: number, to: number, step: number): Promise<MetricPoint[]> => {
+  const response = await fetch(`${serverUrl}/api/metrics?from=${from}&to=${to}&step=${step}`, {
+    headers: authHeaders(serverUrl)
+  });
+  if (response.status === 401) {
+    clearStoredSession(serverUrl);
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Server responded with ${response.status}`);
+  }
+  const data = await response.json();
+  return data.points;
+};
+
+// Loads stored CPU/memory history for a range from a server; pass null to
+// disable fetching (e.g. while the live view is shown)
+const useMetricsHistory = (serverUrl: string, range: HistoryRange | null) => {
+  const [points, setPoints] = useState<MetricPoint[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!range) return;
+
+    let cancelled = false;
+    const { duration, step } = HISTORY_RANGES[range];
+
+    const load = async () => {
+      const now = Date.now();
+      try {
+        const result = await fetchMetrics(serverUrl, now - duration, now, step);
+        if (!cancelled) {
+          setPoints(result);
+          setError(null);
+        }
+      } catch (err: any) {
+        console.error('Error loading metrics history:', err);
+        if (!cancelled) {
+          setError(err.message || 'Failed to load history');
+        }
+      }
+    };
+
+    load();
+    const interval = setInterval(load, REFRESH_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [serverUrl, range]);
+
+  return { points, error };
+};
+
+export default useMetricsHistory;
@@ -0,0 +1,185 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { ProcessSortKey } from '../../../shared/protocol';
+
+export type ColumnId =
+  | 'pid'
+  | 'parentPid'
+  | 'name'
+  | 'user'
+  | 'cpu'
+  | 'memory'
+  | 'memRss'
+  | 'memVsz'
+  | 'threads'
+  | 'priority'
+  | 'nice'
+  | 'state'
+  | 'started'
+  | 'commandLine'
+  | 'status';
+
+export interface ColumnDefinition {
+  id: ColumnId;
+  label: string;
+  // Default width in pixels
+  width: number;
+  // Columns without a sort key cannot be sorted by
+  sortKey?: ProcessSortKey;
+  numeric?: boolean;
+  shownByDefault?: boolean;
+}
+
+// Every column the process table offers, in their default order
+export const COLUMNS: ColumnDefinition[] = [
+  { id: 'pid', label: 'PID', width: 90, sortKey: 'pid', numeric: true, shownByDefault: true },
+  { id: 'name', label: 'Name', width: 260, sortKey: 'name', shownByDefault: true },
+  { id: 'cpu', label: 'CPU %', width: 110, sortKey: 'cpu', numeric: true, shownByDefault: true },
+  { id: 'memory', label: 'Memory %', width: 120, sortKey: 'memory', numeric: true, shownByDefault: true },
+  { id: 'user', label: 'User', width: 130, sortKey: 'user', shownByDefault: true },
+  { id: 'status', label: 'Status', width: 150, shownByDefault: true },
+  { id: 'commandLine', label: 'Command Line', width: 360, sortKey: 'commandLine' },
+  { id: 'state', label: 'State', width: 110, sortKey: 'state' },
+  { id: 'memRss', label: 'RSS', width: 110, sortKey: 'memRss', numeric: true },
+  { id: 'memVsz', label: 'VSZ', width: 110, sortKey: 'memVsz', numeric: true },
+  { id: 'threads', label: 'Threads', width: 90, sortKey: 'threads', numeric: true },
+  { id: 'started', label: 'Started', width: 170, sortKey: 'started' },
+  { id: 'nice', label: 'Nice', width: 70, sortKey: 'nice', numeric: true },
+  { id: 'priority', label: 'Priority', width: 90, sortKey: 'priority', numeric: true },
+  { id: 'parentPid', label: 'Parent PID', width: 110, sortKey: 'parentPid', numeric: true }
+];
+
+export const MIN_COLUMN_WIDTH = 50;
+const MAX_COLUMN_WIDTH = 1200;
+
+export interface ColumnSettings {
+  id: ColumnId;
+  visible: boolean;
+  width: number;
+}
+
+export interface ProcessSort {
+  field: ProcessSortKey;
+  direction: 'asc' | 'desc';
+}
+
+// What is kept per browser: the columns in display order with their
+// visibility and width, and the sort
+export interface ProcessTableLayout {
+  columns: ColumnSettings[];
+  sort: ProcessSort;
+}
+
+const STORAGE_KEY = 'processMonitorProcessTable';
+
+// Milliseconds without changes before the layout is written to localStorage
+const SAVE_DELAY = 500;
+
+export const DEFAULT_LAYOUT: ProcessTableLayout = {
+  columns: COLUMNS.map(column => ({ id: column.id, visible: !!column.shownByDefault, width: column.width })),
+  sort: { field: 'cpu', direction: 'desc' }
+};
+
+const clampWidth = (width: number) => Math.round(Math.min(Math.max(width, MIN_COLUMN_WIDTH), MAX_COLUMN_WIDTH));
+
+// Keeps the stored columns that still exist, in their stored order, and
+// appends the ones added since, hidden. Anything unusable falls back to the
+// defaults.
+const parseLayout = (value: unknown): ProcessTableLayout => {
+  if (typeof value !== 'object' || value === null) return DEFAULT_LAYOUT;
+  const { columns, sort } = value as { columns?: unknown; sort?: unknown };
+
+  const stored = Array.isArray(columns)
+    ? columns.flatMap(entry => {
+      const column = COLUMNS.find(candidate => candidate.id === entry?.id);
+      if (!column) return [];
+      return [{
+        id: column.id,
+        visible: entry.visible !== false,
+        width: typeof entry.width === 'number' && Number.isFinite(entry.width) ? clampWidth(entry.width) : column.width
+      }];
+    })
+    : [];
+  const unique = stored.filter((column, index) => stored.findIndex(other => other.id === column.id) === index);
+  const added = COLUMNS
+    .filter(column => !unique.some(settings => settings.id === column.id))
+    .map(column => ({ id: column.id, visible: false, width: column.width }));
+
+  const { field, direction } = (typeof sort === 'object' && sort !== null ? sort : {}) as Record<string, unknown>;
+  const sortable = COLUMNS.some(column => column.sortKey === field);
+
+  return {
+    columns: unique.length > 0 ? [...unique, ...added] : DEFAULT_LAYOUT.columns,
+    sort: sortable && (direction === 'asc' || direction === 'desc')
+      ? { field: field as ProcessSortKey, direction }
+      : DEFAULT_LAYOUT.sort
+  };
+};
+
+const loadLayout = (): ProcessTableLayout => {
+  try {
+    return parseLayout(JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null'));
+  } catch {
+    return DEFAULT_LAYOUT;
+  }
+};
+
+const saveLayout = (layout: ProcessTableLayout) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(layout));
+};
+
+// The process table's columns and sort, as this browser last left them
+const useProcessColumns = () => {
+  const [layout, setLayout] = useState<ProcessTableLayout>(loadLayout);
+
+  // Resizing changes the layout on every mouse move; save once it settles,
+  // and on the way out if it has not yet
+  const latest = useRef(layout);
+  latest.current = layout;
+
+  useEffect(() => {
+    const timer = setTimeout(() => saveLayout(layout), SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [layout]);
+
+  useEffect(() => () => saveLayout(latest.current), []);
+
+  const setSort = useCallback((sort: ProcessSort) => {
+    setLayout(current => ({ ...current, sort }));
+  }, []);
+
+  const toggleColumn = useCallback((id: ColumnId) => {
+    setLayout(current => ({
+      ...current,
+      columns: current.columns.map(column => column.id === id ? { ...column, visible: !column.visible } : column)
+    }));
+  }, []);
+
+  const resizeColumn = useCallback((id: ColumnId, width: number) => {
+    setLayout(current => ({
+      ...current,
+      columns: current.columns.map(column => column.id === id ? { ...column, width: clampWidth(width) } : column)
+    }));
+  }, []);
+
+  // Moves a column to where `before` is, or to the end
+  const moveColumn = useCallback((id: ColumnId, before: ColumnId | null) => {
+    setLayout(current => {
+      const moved = current.columns.find(column => column.id === id);
+      if (!moved || id === before) return current;
+      const rest = current.columns.filter(column => column.id !== id);
+      const index = before ? rest.findIndex(column => column.id === before) : -1;
+      return {
+        ...current,
+        columns: index === -1 ? [...rest, moved] : [...rest.slice(0, index), moved, ...rest.slice(index)]
+      };
+    });
+  }, []);
+
+  const resetColumns = useCallback(() => {
+    setLayout(current => ({ ...current, columns: DEFAULT_LAYOUT.columns }));
+  }, []);
+
+  return { layout, setSort, toggleColumn, resizeColumn, moveColumn, resetColumns };
+};
+
+export default useProcessColumns;
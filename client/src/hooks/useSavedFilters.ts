@@ -0,0 +1,45 @@
+import { useState, useEffect, useCallback } from 'react';
+
+export interface SavedFilter {
+  name: string;
+  // A filter expression, see ProcessFilter.query
+  query: string;
+}
+
+const STORAGE_KEY = 'processMonitorSavedFilters';
+
+// Entries that are not { name, query } strings are skipped
+const loadSavedFilters = (): SavedFilter[] => {
+  try {
+    const value: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    if (!Array.isArray(value)) return [];
+    return value.filter(entry => typeof entry?.name === 'string' && typeof entry?.query === 'string')
+      .map(({ name, query }) => ({ name, query }));
+  } catch {
+    return [];
+  }
+};
+
+// Named filter expressions kept in this browser. They are sent to whichever
+// server is being viewed, which all read them the same way.
+const useSavedFilters = () => {
+  const [savedFilters, setSavedFilters] = useState<SavedFilter[]>(loadSavedFilters);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(savedFilters));
+  }, [savedFilters]);
+
+  // Replaces a filter saved under the same name
+  const saveFilter = useCallback((name: string, query: string) => {
+    setSavedFilters(current => [...current.filter(filter => filter.name !== name), { name, query }]
+      .sort((a, b) => a.name.localeCompare(b.name)));
+  }, []);
+
+  const deleteFilter = useCallback((name: string) => {
+    setSavedFilters(current => current.filter(filter => filter.name !== name));
+  }, []);
+
+  return { savedFilters, saveFilter, deleteFilter };
+};
+
+export default useSavedFilters;
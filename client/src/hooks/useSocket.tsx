@@ -0,0 +1,638 @@
+import React, { createContext, useContext, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import { io, Socket } from 'socket.io-client';
+import type {
+  Alert,
+  ClientToServerEvents,
+  CollectorStatusReport,
+  CpuCores,
+  DiskInfo,
+  KillErrorCode,
+  KillMode,
+  KillResponse,
+  NetworkConnection,
+  NetworkInfo,
+  ProcessConnections,
+  ProcessHistory,
+  ProcessFilterError,
+  ProcessHistoryError,
+  ProcessInfo,
+  ProcessListDelta,
+  ProcessPage,
+  ProcessQuery,
+  ServerToClientEvents,
+  StreamSubscription,
+  SubscribeRequest,
+  SystemInfo
+} from '../../../shared/protocol';
+import { PROTOCOL_VERSION } from '../config';
+import { AUTH_CHANGED_EVENT, clearStoredSession, getStoredSession } from './useAuth';
+
+// Payload types come from the contract shared with the server
+export type {
+  Alert,
+  CollectorSource,
+  CollectorStatus,
+  CollectorStatusReport,
+  CpuCores,
+  DiskInfo,
+  FilesystemUsage,
+  KillErrorCode,
+  KillMode,
+  InterfaceThroughput,
+  NetworkConnection,
+  NetworkInfo,
+  ProcessFilterError,
+  ProcessFilterField,
+  ProcessHistory,
+  ProcessInfo,
+  ProcessIo,
+  ProcessQuery,
+  ProcessPage,
+  ProcessSample,
+  ProcessSignal,
+  ProcessSortKey,
+  StreamName,
+  StreamSettings,
+  StreamSubscription,
+  SubscribeRequest,
+  SystemInfo
+} from '../../../shared/protocol';
+
+export type KillProcessResponse = KillResponse;
+
+type MonitorSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+export const KILL_ERROR_MESSAGES: Record<KillErrorCode, string> = {
+  FORBIDDEN: 'Your account is not allowed to signal processes',
+  INVALID_PID: 'Invalid process ID',
+  UNKNOWN_PID: 'Process is no longer in the process list',
+  PROTECTED_PID: 'The monitor server cannot signal itself',
+  INVALID_SIGNAL: 'Unknown signal',
+  UNSUPPORTED_SIGNAL: 'Signal is not supported on the server platform',
+  NO_SUCH_PROCESS: 'Process has already exited',
+  PERMISSION_DENIED: 'Permission denied - try running the server with elevated privileges',
+  DEMO_MODE: 'The server shows demo or replayed data, its processes cannot be signalled',
+  SIGNAL_FAILED: 'Failed to signal process'
+};
+
+// Number of alert transitions kept for the recent activity list
+const MAX_ALERT_EVENTS = 50;
+
+// Builds the next page from the previous one and a delta, see ProcessListDelta
+const applyProcessDelta = (page: ProcessPage, delta: ProcessListDelta): ProcessPage => {
+  const removed = new Set(delta.removed);
+  const changes = new Map(delta.changed.map(change => [change.pid, change]));
+  const rows = [
+    ...page.processes
+      .filter(proc => !removed.has(proc.pid))
+      .map(proc => {
+        const change = changes.get(proc.pid);
+        return change ? { ...proc, ...change } : proc;
+      }),
+    ...delta.added
+  ];
+
+  let processes = rows;
+  if (delta.order) {
+    const byPid = new Map(rows.map(proc => [proc.pid, proc]));
+    processes = delta.order
+      .map(pid => byPid.get(pid))
+      .filter((proc): proc is ProcessInfo => proc !== undefined);
+  }
+
+  return { processes, total: delta.total, offset: delta.offset, limit: delta.limit };
+};
+
+// Stream changes the page has asked for, merged per stream
+const mergeSubscribeRequests = (current: SubscribeRequest, request: SubscribeRequest): SubscribeRequest => {
+  const merged = { ...current };
+  (Object.keys(request) as (keyof SubscribeRequest)[]).forEach(stream => {
+    merged[stream] = { ...merged[stream], ...request[stream] };
+  });
+  return merged;
+};
+
+// Everything the connection has received. Lives outside React so that each
+// component can subscribe to only the slices it reads.
+export interface SocketState {
+  isConnected: boolean;
+  connectionError: string | null;
+  // The server rejected the stored token, or there is none for it
+  authRequired: boolean;
+  systemInfo: SystemInfo | null;
+  cpuCores: CpuCores | null;
+  diskInfo: DiskInfo | null;
+  networkInfo: NetworkInfo | null;
+  streams: StreamSubscription | null;
+  processList: ProcessInfo[];
+  processTotal: number;
+  // Where processList starts in the full, filtered and sorted list
+  processOffset: number;
+  // The filter expression the server last accepted, and the last one it
+  // rejected with where and why
+  acceptedFilterQuery: string;
+  rejectedFilter: (ProcessFilterError & { message: string }) | null;
+  killStatus: { pid: number; status: string } | null;
+  activeAlerts: Alert[];
+  alertEvents: Alert[];
+  collectorStatus: CollectorStatusReport | null;
+}
+
+const INITIAL_STATE: SocketState = {
+  isConnected: false,
+  connectionError: null,
+  authRequired: false,
+  systemInfo: null,
+  cpuCores: null,
+  diskInfo: null,
+  networkInfo: null,
+  streams: null,
+  processList: [],
+  processTotal: 0,
+  processOffset: 0,
+  acceptedFilterQuery: '',
+  rejectedFilter: null,
+  killStatus: null,
+  activeAlerts: [],
+  alertEvents: [],
+  collectorStatus: null
+};
+
+class SocketStore {
+  private state = INITIAL_STATE;
+  private listeners = new Set<() => void>();
+
+  getState = (): SocketState => this.state;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  // Every slice not named keeps its identity, so selectors reading it do not
+  // re-render
+  update(changes: Partial<SocketState> | ((state: SocketState) => Partial<SocketState>)) {
+    const next = typeof changes === 'function' ? changes(this.state) : changes;
+    this.state = { ...this.state, ...next };
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export interface ProcessActions {
+  // Ask the server for a different page, order or filter of the process list.
+  // It answers with a 'process-list' page and keeps using the query on
+  // updates; the query is restored after reconnecting.
+  subscribeProcesses: (query: Partial<ProcessQuery>) => void;
+  killProcess: (pid: number, signal?: KillMode, gracePeriod?: number, tree?: boolean) => Promise<KillProcessResponse>;
+  getProcessHistory: (pid: number, started?: string) => Promise<ProcessHistory | null>;
+  getProcessConnections: (pid: number) => Promise<NetworkConnection[] | null>;
+  // Change the rate of streams, pause/resume or turn them off. Restored after
+  // reconnecting.
+  updateStreams: (request: SubscribeRequest) => void;
+}
+
+interface Connection {
+  url: string;
+  store: SocketStore;
+  actions: ProcessActions;
+  // Opens the socket, returns the function that closes it
+  connect: () => () => void;
+}
+
+// Opens the connection to one server and keeps what it receives in a store.
+// The actions never change identity; they act on whichever socket is current.
+// `streams` is what the connection asks for until updateStreams changes it.
+const createConnection = (url: string, streams: SubscribeRequest = {}): Connection => {
+  const store = new SocketStore();
+  let socket: MonitorSocket | null = null;
+  // Kept across reconnects, the server starts every connection with defaults
+  let requestedStreams: SubscribeRequest = streams;
+  let requestedQuery: Partial<ProcessQuery> | null = null;
+
+  const connectedSocket = () => (socket && store.getState().isConnected ? socket : null);
+
+  const connect = () => {
+    console.log('Initializing socket connection to:', url);
+
+    let token = getStoredSession(url)?.token;
+    // forceNew, as a cached manager would keep the handshake auth of the
+    // previous session
+    const newSocket: MonitorSocket = io(url, {
+      reconnection: true,
+      reconnectionAttempts: 10,
+      reconnectionDelay: 1000,
+      timeout: 10000,
+      forceNew: true,
+      auth: { token, protocolVersion: PROTOCOL_VERSION }
+    });
+    socket = newSocket;
+
+    // Logging in to this server (from the host overview) retries with the new
+    // token
+    const handleAuthChange = () => {
+      const current = getStoredSession(url)?.token;
+      if (current === token || !current) return;
+      token = current;
+      newSocket.auth = { token, protocolVersion: PROTOCOL_VERSION };
+      store.update({ authRequired: false, connectionError: null });
+      newSocket.disconnect().connect();
+    };
+    window.addEventListener(AUTH_CHANGED_EVENT, handleAuthChange);
+
+    // The page the process list deltas apply to and its sequence number
+    let processPage: ProcessPage | null = null;
+    let processSeq = 0;
+    let resyncRequested = false;
+    let killStatusTimer: ReturnType<typeof setTimeout> | undefined;
+
+    newSocket.on('connect', () => {
+      console.log('Socket connected successfully with ID:', newSocket.id);
+      store.update({ isConnected: true, connectionError: null, authRequired: false });
+
+      // Restore the stream settings, the answer carries the ones in effect
+      newSocket.emit('subscribe', requestedStreams);
+
+      // Restoring the process query also answers with a full page
+      console.log('Requesting initial data...');
+      if (requestedQuery) {
+        newSocket.emit('subscribe-processes', requestedQuery);
+      } else {
+        newSocket.emit('get-process-list');
+      }
+      newSocket.emit('get-system-info');
+    });
+
+    newSocket.on('connect_error', (error) => {
+      console.error('Socket connection error:', error);
+      if (error.message === 'Unauthorized') {
+        // Token expired, the user was removed or this server was never logged
+        // in to. For the dashboard's own server that means the login screen.
+        clearStoredSession(url);
+        store.update({ connectionError: 'Login required', isConnected: false, authRequired: true });
+        return;
+      }
+      if (error.message.startsWith('Protocol version mismatch')) {
+        // The server was upgraded (or downgraded) underneath this page
+        store.update({
+          connectionError: 'The server runs a different version of the dashboard, reload the page',
+          isConnected: false
+        });
+        newSocket.disconnect();
+        return;
+      }
+      store.update({ connectionError: `Connection Error: ${error.message}`, isConnected: false });
+    });
+
+    newSocket.on('disconnect', (reason) => {
+      console.log('Socket disconnected, reason:', reason);
+      store.update({ isConnected: false });
+    });
+
+    newSocket.on('system-info', (data) => {
+      console.log('Received system info:', data ? 'data received' : 'no data');
+      if (data) {
+        store.update({ systemInfo: data });
+      }
+    });
+
+    newSocket.on('cpu-cores', (data) => {
+      store.update({ cpuCores: data });
+    });
+
+    newSocket.on('disk-info', (data) => {
+      store.update({ diskInfo: data });
+    });
+
+    newSocket.on('network-info', (data) => {
+      store.update({ networkInfo: data });
+    });
+
+    newSocket.on('subscribe-response', (response) => {
+      if (response.success) {
+        store.update({ streams: response.streams });
+      } else {
+        console.error('Stream subscription rejected:', response.error);
+      }
+    });
+
+    newSocket.on('process-list', (data) => {
+      console.log('Received process list:', data && Array.isArray(data.processes)
+        ? `${data.processes.length} of ${data.total} processes`
+        : 'invalid data');
+
+      if (data && Array.isArray(data.processes)) {
+        processPage = { processes: data.processes, total: data.total, offset: data.offset, limit: data.limit };
+        processSeq = data.seq;
+        resyncRequested = false;
+        store.update({ processList: data.processes, processTotal: data.total, processOffset: data.offset });
+      } else {
+        console.error('Process list is not an array:', data);
+      }
+    });
+
+    newSocket.on('process-list-delta', (delta) => {
+      if (!processPage || delta.seq !== processSeq + 1) {
+        // A delta went missing, start over from a full snapshot and drop
+        // everything else until it arrives
+        processPage = null;
+        if (!resyncRequested) {
+          console.warn(`Process list out of sync (have ${processSeq}, got ${delta.seq}), requesting a snapshot`);
+          resyncRequested = true;
+          newSocket.emit('get-process-list');
+        }
+        return;
+      }
+
+      processPage = applyProcessDelta(processPage, delta);
+      processSeq = delta.seq;
+      store.update({
+        processList: processPage.processes,
+        processTotal: processPage.total,
+        processOffset: processPage.offset
+      });
+    });
+
+    newSocket.on('subscribe-processes-response', (response) => {
+      if (response.success) {
+        store.update({ acceptedFilterQuery: response.query.filter.query || '' });
+      } else if (response.filterError) {
+        store.update({ rejectedFilter: { ...response.filterError, message: response.error } });
+      } else {
+        console.error('Process query rejected:', response.error);
+      }
+    });
+
+    newSocket.on('kill-process-acknowledged', (data) => {
+      console.log('Kill request acknowledged for PID:', data.pid);
+      store.update({
+        killStatus: { pid: data.pid, status: data.signal === 'escalate' ? 'Sending SIGTERM, waiting for exit...' : 'Processing...' }
+      });
+    });
+
+    newSocket.on('kill-process-response', (response) => {
+      console.log('Kill process response:', response);
+      if (response.success) {
+        store.update({ killStatus: { pid: response.pid || 0, status: response.message || 'Terminated successfully' } });
+      } else {
+        const reason = response.code ? KILL_ERROR_MESSAGES[response.code] : response.message;
+        store.update({ killStatus: { pid: response.pid || 0, status: `Failed: ${reason || 'Unknown error'}` } });
+      }
+
+      // Clear the status after 3 seconds
+      clearTimeout(killStatusTimer);
+      killStatusTimer = setTimeout(() => {
+        store.update({ killStatus: null });
+      }, 3000);
+    });
+
+    // Currently firing alerts, sent once on connect
+    newSocket.on('alerts', (alerts) => {
+      store.update({ activeAlerts: alerts });
+    });
+
+    newSocket.on('alert', (alert) => {
+      console.log(`Alert ${alert.state}:`, alert.message);
+      store.update(state => {
+        const others = state.activeAlerts.filter(active => active.ruleId !== alert.ruleId || active.pid !== alert.pid);
+        return {
+          activeAlerts: alert.state === 'firing' ? [...others, alert] : others,
+          alertEvents: [alert, ...state.alertEvents].slice(0, MAX_ALERT_EVENTS)
+        };
+      });
+    });
+
+    // Whether each data source on the server works, and whether it is only
+    // generating demo data
+    newSocket.on('collector-status', (report) => {
+      store.update({ collectorStatus: report });
+    });
+
+    return () => {
+      console.log('Cleaning up socket connection');
+      window.removeEventListener(AUTH_CHANGED_EVENT, handleAuthChange);
+      clearTimeout(killStatusTimer);
+      newSocket.disconnect();
+      if (socket === newSocket) socket = null;
+    };
+  };
+
+  const actions: ProcessActions = {
+    subscribeProcesses: (query) => {
+      requestedQuery = query;
+      connectedSocket()?.emit('subscribe-processes', query);
+    },
+
+    updateStreams: (request) => {
+      requestedStreams = mergeSubscribeRequests(requestedStreams, request);
+      connectedSocket()?.emit('subscribe', request);
+    },
+
+    killProcess: (pid, signal = 'SIGKILL', gracePeriod, tree = false) => {
+      return new Promise((resolve) => {
+        const current = connectedSocket();
+        if (!current) {
+          console.error('Socket not connected');
+          resolve({ success: false, pid, message: 'Not connected to server' });
+          return;
+        }
+
+        // Other kills may be in flight, each waits for the answer about its PID
+        const handler = (response: KillResponse) => {
+          if (response.pid !== pid) return;
+          clearTimeout(timeout);
+          current.off('kill-process-response', handler);
+          resolve(response);
+        };
+
+        const timeout = setTimeout(() => {
+          console.error('Kill process request timed out');
+          current.off('kill-process-response', handler);
+          store.update({ killStatus: { pid, status: 'Request timed out' } });
+          resolve({ success: false, pid, message: 'Request timed out' });
+        }, signal === 'escalate' || tree ? 70000 : 10000); // Escalation and whole trees can take a while
+
+        current.on('kill-process-response', handler);
+        console.log(`Sending ${signal} request for process:`, pid);
+        current.emit('kill-process', { pid, signal, gracePeriod, tree });
+
+        // Set immediate status
+        store.update({ killStatus: { pid, status: 'Request sent...' } });
+      });
+    },
+
+    // The rolling resource history of a process
+    getProcessHistory: (pid, started) => {
+      return new Promise((resolve) => {
+        const current = connectedSocket();
+        if (!current) {
+          resolve(null);
+          return;
+        }
+
+        const handler = (response: ProcessHistory | ProcessHistoryError) => {
+          if (response.pid !== pid) return;
+          clearTimeout(timeout);
+          current.off('process-history', handler);
+          resolve('error' in response ? null : response);
+        };
+
+        const timeout = setTimeout(() => {
+          current.off('process-history', handler);
+          resolve(null);
+        }, 5000);
+
+        current.on('process-history', handler);
+        current.emit('get-process-history', { pid, started });
+      });
+    },
+
+    // The sockets a process has open
+    getProcessConnections: (pid) => {
+      return new Promise((resolve) => {
+        const current = connectedSocket();
+        if (!current) {
+          resolve(null);
+          return;
+        }
+
+        const handler = (response: ProcessConnections) => {
+          if (response.pid !== pid) return;
+          clearTimeout(timeout);
+          current.off('process-connections', handler);
+          resolve(response.connections);
+        };
+
+        const timeout = setTimeout(() => {
+          current.off('process-connections', handler);
+          resolve(null);
+        }, 5000);
+
+        current.on('process-connections', handler);
+        current.emit('get-process-connections', { pid });
+      });
+    }
+  };
+
+  return { url, store, actions, connect };
+};
+
+const ConnectionsContext = createContext<Map<string, Connection> | null>(null);
+const SocketContext = createContext<Connection | null>(null);
+
+// Keeps one connection open while mounted
+const ConnectionKeeper: React.FC<{ connection: Connection }> = ({ connection }) => {
+  useEffect(() => connection.connect(), [connection]);
+  return null;
+};
+
+interface ConnectionsProviderProps {
+  // Every server the page monitors, one connection each
+  urls: string[];
+  // What each connection asks for until a view changes it
+  streams?: SubscribeRequest;
+  children: React.ReactNode;
+}
+
+// Owns the page's connections, exactly one per server however many views
+// show it. Connections of servers that stay in `urls` survive changes to it.
+export const ConnectionsProvider: React.FC<ConnectionsProviderProps> = ({ urls, streams, children }) => {
+  const previous = useRef(new Map<string, Connection>());
+  const key = urls.join('\n');
+  const connections = useMemo(() => {
+    const next = new Map(key.split('\n').filter(Boolean).map(url => [
+      url,
+      previous.current.get(url) || createConnection(url, streams)
+    ]));
+    previous.current = next;
+    return next;
+    // `streams` only applies to new connections
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key]);
+
+  return (
+    <ConnectionsContext.Provider value={connections}>
+      {Array.from(connections.values(), connection => (
+        <ConnectionKeeper key={connection.url} connection={connection} />
+      ))}
+      {children}
+    </ConnectionsContext.Provider>
+  );
+};
+
+// Makes the connection to `url`, which the surrounding ConnectionsProvider
+// must hold, the one the hooks below read
+export const SocketProvider: React.FC<{ url: string; children: React.ReactNode }> = ({ url, children }) => {
+  const connection = useContext(ConnectionsContext)?.get(url);
+  if (!connection) {
+    throw new Error(`No connection to ${url}, it must be listed in the ConnectionsProvider`);
+  }
+
+  return (
+    <SocketContext.Provider value={connection}>
+      {children}
+    </SocketContext.Provider>
+  );
+};
+
+const useSocketContext = (): Connection => {
+  const context = useContext(SocketContext);
+  if (!context) {
+    throw new Error('Socket hooks must be used inside a SocketProvider');
+  }
+  return context;
+};
+
+// Re-renders only when the selected slice changes. Selectors must return
+// something the store already holds, not a new object on every call.
+export const useSocketState = <T,>(selector: (state: SocketState) => T): T => {
+  const { store } = useSocketContext();
+  return useSyncExternalStore(store.subscribe, () => selector(store.getState()));
+};
+
+// The server the surrounding SocketProvider is connected to
+export const useServerUrl = () => useSocketContext().url;
+
+export const useConnectionStatus = () => ({
+  isConnected: useSocketState(state => state.isConnected),
+  connectionError: useSocketState(state => state.connectionError),
+  authRequired: useSocketState(state => state.authRequired)
+});
+
+export const useSystemInfo = () => ({
+  systemInfo: useSocketState(state => state.systemInfo),
+  cpuCores: useSocketState(state => state.cpuCores)
+});
+
+export const useDiskInfo = () => useSocketState(state => state.diskInfo);
+
+export const useNetworkInfo = () => useSocketState(state => state.networkInfo);
+
+export const useProcesses = () => ({
+  processList: useSocketState(state => state.processList),
+  processTotal: useSocketState(state => state.processTotal),
+  processOffset: useSocketState(state => state.processOffset)
+});
+
+export const useProcessFilterStatus = () => ({
+  acceptedFilterQuery: useSocketState(state => state.acceptedFilterQuery),
+  rejectedFilter: useSocketState(state => state.rejectedFilter)
+});
+
+export const useKillStatus = () => useSocketState(state => state.killStatus);
+
+export const useAlerts = () => ({
+  activeAlerts: useSocketState(state => state.activeAlerts),
+  alertEvents: useSocketState(state => state.alertEvents)
+});
+
+export const useCollectorStatus = () => useSocketState(state => state.collectorStatus);
+
+export const useStreams = () => ({
+  streams: useSocketState(state => state.streams),
+  updateStreams: useSocketContext().actions.updateStreams
+});
+
+// Stable for the lifetime of the connection, never causes a re-render
+export const useProcessActions = (): ProcessActions => useSocketContext().actions;
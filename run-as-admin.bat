@@ -15,7 +15,7 @@ if %errorLevel% NEQ 0 (
 ) else (
     echo Running with administrator privileges - OK
     echo.
-    echo Starting server on port 3000...
+    echo Starting server on port 5000...
     echo.
     npm run server
 ) 
\ No newline at end of file
@@ -0,0 +1,96 @@
+import { io as connectToHub, Socket } from 'socket.io-client';
+import type { AuditEntry, AuditQuery } from './auditLog';
+import type { MetricsQuery, MetricsQueryResult } from './metricsStore';
+import type { DashboardFeed, FeedEvents, PublishFn } from './dashboards';
+import {
+  AGENTS_NAMESPACE,
+  AGENT_PROTOCOL_VERSION,
+  AgentHandshake,
+  AgentReply,
+  AgentToHubEvents,
+  HubToAgentEvents
+} from './hub';
+
+// Agent mode: this server keeps sampling and serving its own dashboards, and
+// also reports to a hub, see hub.ts. The connection is outbound only, so an
+// agent behind NAT needs nothing but a route to the hub.
+
+// After the hub turned the agent away (wrong secret, name taken), as
+// Socket.IO does not retry that by itself
+const REJECTED_RETRY_INTERVAL = 30000;
+
+export interface AgentOptions {
+  hubUrl: string;
+  name: string;
+  secret: string;
+  // What the hub's dashboards are served and what their requests act on
+  feed: DashboardFeed;
+  queryMetrics: (query: MetricsQuery) => MetricsQueryResult;
+  queryAudit: (query: AuditQuery) => Promise<AuditEntry[]>;
+}
+
+type HubSocket = Socket<HubToAgentEvents, AgentToHubEvents>;
+
+// Answers a request of the hub, turning failures into error replies
+const reply = async <T>(work: () => T | Promise<T>, callback: (reply: AgentReply<T>) => void) => {
+  try {
+    callback({ result: await work() });
+  } catch (error: any) {
+    console.error('Error answering the hub:', error);
+    callback({ error: error.message || String(error) });
+  }
+};
+
+// Connects to the hub and keeps reconnecting. Returns the function through
+// which the feed's new samples reach the hub; samples taken while the hub is
+// unreachable are dropped, a snapshot follows every reconnect.
+export const startAgent = ({ hubUrl, name, secret, feed, queryMetrics, queryAudit }: AgentOptions): PublishFn => {
+  const handshake: AgentHandshake = { protocolVersion: AGENT_PROTOCOL_VERSION, name, secret };
+  const socket: HubSocket = connectToHub(`${hubUrl}${AGENTS_NAMESPACE}`, { auth: { ...handshake } });
+  let lastError: string | null = null;
+
+  socket.on('connect', () => {
+    console.log(`Reporting to hub ${hubUrl} as ${name}`);
+    lastError = null;
+    socket.emit('snapshot', feed.snapshot());
+  });
+
+  socket.on('connect_error', error => {
+    // Only changes are logged, the attempts repeat every few seconds
+    if (error.message !== lastError) {
+      console.error(`Cannot connect to hub ${hubUrl}: ${error.message}`);
+      lastError = error.message;
+    }
+    if (!socket.active) {
+      setTimeout(() => socket.connect(), REJECTED_RETRY_INTERVAL);
+    }
+  });
+
+  socket.on('disconnect', reason => {
+    console.warn(`Lost the connection to hub ${hubUrl}: ${reason}`);
+  });
+
+  // The hub has checked nothing but the user's token, everything else is
+  // checked and audited here like for this server's own users
+  socket.on('control-process', ({ user, payload, source }, callback) => {
+    reply(() => feed.controlProcess(user, payload, { ...source, hub: hubUrl }), callback);
+  });
+  socket.on('process-history', ({ pid, started }, callback) => {
+    reply(() => feed.processHistory(pid, started), callback);
+  });
+  socket.on('process-connections', ({ pid }, callback) => {
+    reply(() => feed.processConnections(pid), callback);
+  });
+  socket.on('query-metrics', (query, callback) => {
+    reply(() => queryMetrics(query), callback);
+  });
+  socket.on('query-audit', (query, callback) => {
+    reply(() => queryAudit(query), callback);
+  });
+
+  return <E extends keyof FeedEvents>(event: E, payload: FeedEvents[E]) => {
+    if (!socket.connected) return;
+    // Emitting through a generic event name needs the untyped socket
+    (socket as Socket).emit(event, payload);
+  };
+};
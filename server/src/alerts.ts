@@ -0,0 +1,302 @@
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import { Systeminformation } from 'systeminformation';
+import type { Alert, SystemInfo } from '../../shared/protocol';
+
+export type { Alert };
+
+export type Comparator = '>' | '>=' | '<' | '<=';
+
+interface BaseRule {
+  id: string;
+  name?: string;
+  severity?: 'warning' | 'critical';
+  // Seconds the condition must hold before the alert fires
+  for?: number;
+  // Minimum seconds between two notifications of the same alert
+  cooldown?: number;
+}
+
+// Hysteresis: a firing threshold rule only resolves once the value is back on
+// the other side of clearThreshold (defaults to threshold)
+interface ThresholdRule extends BaseRule {
+  op: Comparator;
+  threshold: number;
+  clearThreshold?: number;
+}
+
+export interface SystemRule extends ThresholdRule {
+  type: 'system';
+  metric: 'cpu' | 'memory';
+}
+
+export interface ProcessRule extends ThresholdRule {
+  type: 'process';
+  // Case-insensitive regular expression matched against name and command
+  match: string;
+  // cpu and mem in percent, rss in bytes
+  metric: 'cpu' | 'mem' | 'rss';
+}
+
+export interface ProcessAbsentRule extends BaseRule {
+  type: 'process-absent';
+  match: string;
+}
+
+export type AlertRule = SystemRule | ProcessRule | ProcessAbsentRule;
+
+// A rule stays pending until it is notified, which the cooldown may hold back
+// past its `for` duration
+interface RuleState {
+  status: 'pending' | 'firing';
+  since: number;
+  alert?: Alert;
+}
+
+interface Subject {
+  value?: number;
+  pid?: number;
+  processName?: string;
+  describe: string;
+  // Message used when the alert resolves, if "<describe> is back to normal" does not fit
+  resolved?: string;
+}
+
+const COMPARATORS: Comparator[] = ['>', '>=', '<', '<='];
+
+const compare = (value: number, op: Comparator, threshold: number): boolean => {
+  switch (op) {
+    case '>': return value > threshold;
+    case '>=': return value >= threshold;
+    case '<': return value < threshold;
+    case '<=': return value <= threshold;
+  }
+};
+
+const validateRule = (rule: any, index: number): AlertRule => {
+  const where = `Alert rule ${rule && rule.id ? `"${rule.id}"` : `#${index}`}`;
+  if (!rule || typeof rule.id !== 'string') {
+    throw new Error(`${where}: id is required`);
+  }
+  if (rule.type === 'system' || rule.type === 'process') {
+    if (!COMPARATORS.includes(rule.op)) throw new Error(`${where}: op must be one of ${COMPARATORS.join(' ')}`);
+    if (typeof rule.threshold !== 'number') throw new Error(`${where}: threshold must be a number`);
+  }
+  if (rule.type === 'system' && !['cpu', 'memory'].includes(rule.metric)) {
+    throw new Error(`${where}: metric must be cpu or memory`);
+  }
+  if (rule.type === 'process' && !['cpu', 'mem', 'rss'].includes(rule.metric)) {
+    throw new Error(`${where}: metric must be cpu, mem or rss`);
+  }
+  if (rule.type === 'process' || rule.type === 'process-absent') {
+    if (typeof rule.match !== 'string') throw new Error(`${where}: match is required`);
+    try {
+      new RegExp(rule.match);
+    } catch (error: any) {
+      throw new Error(`${where}: invalid match pattern (${error.message})`);
+    }
+  }
+  if (!['system', 'process', 'process-absent'].includes(rule.type)) {
+    throw new Error(`${where}: unknown type ${rule.type}`);
+  }
+  return rule;
+};
+
+// Reads rule definitions from a JSON array; a missing file means no rules
+export const loadAlertRules = (file: string): AlertRule[] => {
+  let content: string;
+  try {
+    content = fs.readFileSync(file, 'utf8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const rules = JSON.parse(content);
+  if (!Array.isArray(rules)) {
+    throw new Error(`${file} must contain an array of alert rules`);
+  }
+  return rules.map(validateRule);
+};
+
+// Evaluates alert rules against every sample and emits 'alert' (Alert) each
+// time an alert starts firing or resolves.
+export class AlertEngine extends EventEmitter {
+  private states: Map<string, RuleState> = new Map();
+  private lastNotified: Map<string, number> = new Map();
+  private patterns: Map<string, RegExp> = new Map();
+
+  constructor(private rules: AlertRule[]) {
+    super();
+    rules.forEach(rule => {
+      if (rule.type !== 'system') this.patterns.set(rule.id, new RegExp(rule.match, 'i'));
+    });
+  }
+
+  // Alerts that are currently firing
+  get activeAlerts(): Alert[] {
+    const alerts: Alert[] = [];
+    this.states.forEach(state => {
+      if (state.status === 'firing' && state.alert) alerts.push(state.alert);
+    });
+    return alerts;
+  }
+
+  evaluateSystem(snapshot: SystemInfo, now = Date.now()) {
+    this.rules.forEach(rule => {
+      if (rule.type !== 'system') return;
+      const value = Number(rule.metric === 'cpu' ? snapshot.cpu.load : snapshot.memory.usedPercent);
+      this.evaluateThreshold(rule.id, rule, value, { value, describe: `System ${rule.metric}` }, now);
+    });
+  }
+
+  evaluateProcesses(processes: Systeminformation.ProcessesProcessData[], now = Date.now()) {
+    this.rules.forEach(rule => {
+      if (rule.type === 'system') return;
+      const pattern = this.patterns.get(rule.id)!;
+      const matching = processes.filter(proc => pattern.test(proc.name) || pattern.test(proc.command));
+
+      if (rule.type === 'process-absent') {
+        const missing = matching.length === 0;
+        this.transition(rule.id, rule, missing, !missing, {
+          describe: `No process matching "${rule.match}"`,
+          resolved: `A process matching "${rule.match}" is running again`
+        }, now);
+        return;
+      }
+
+      const seen = new Set<string>();
+      matching.forEach(proc => {
+        const key = `${rule.id}:${proc.pid}:${proc.started}`;
+        seen.add(key);
+        const value = rule.metric === 'rss' ? proc.memRss * 1024 : proc[rule.metric];
+        this.evaluateThreshold(key, rule, value, {
+          value,
+          pid: proc.pid,
+          processName: proc.name,
+          describe: `Process ${proc.name} (${proc.pid}) ${rule.metric}`
+        }, now);
+      });
+
+      // Processes that exited can no longer breach the rule
+      this.states.forEach((_, key) => {
+        if (key.startsWith(`${rule.id}:`) && !seen.has(key)) {
+          this.transition(key, rule, false, true, {
+            describe: 'Process',
+            resolved: 'Process exited'
+          }, now);
+          this.lastNotified.delete(key);
+        }
+      });
+    });
+  }
+
+  private evaluateThreshold(key: string, rule: SystemRule | ProcessRule, value: number, subject: Subject, now: number) {
+    const breaching = compare(value, rule.op, rule.threshold);
+    const clearing = !compare(value, rule.op, rule.clearThreshold ?? rule.threshold);
+    this.transition(key, rule, breaching, clearing, subject, now);
+  }
+
+  private transition(key: string, rule: AlertRule, breaching: boolean, clearing: boolean, subject: Subject, now: number) {
+    const state = this.states.get(key);
+
+    if (!state) {
+      if (breaching) {
+        this.states.set(key, { status: 'pending', since: now });
+        this.maybeFire(key, rule, subject, now);
+      }
+      return;
+    }
+
+    if (state.status === 'pending') {
+      if (breaching) {
+        this.maybeFire(key, rule, subject, now);
+      } else {
+        this.states.delete(key);
+      }
+      return;
+    }
+
+    if (clearing) {
+      this.states.delete(key);
+      if (state.alert) {
+        this.emit('alert', {
+          ...state.alert,
+          state: 'resolved',
+          message: subject.resolved || `${subject.describe} is back to normal`,
+          value: subject.value,
+          resolvedAt: now
+        });
+      }
+    }
+  }
+
+  private maybeFire(key: string, rule: AlertRule, subject: Subject, now: number) {
+    const state = this.states.get(key)!;
+    if (now - state.since < (rule.for ?? 0) * 1000) return;
+
+    const last = this.lastNotified.get(key);
+    if (last !== undefined && now - last < (rule.cooldown ?? 0) * 1000) return;
+
+    const threshold = rule.type === 'process-absent' ? undefined : rule.threshold;
+    state.status = 'firing';
+    state.alert = {
+      id: `${key}:${now}`,
+      ruleId: rule.id,
+      ruleName: rule.name || rule.id,
+      severity: rule.severity || 'warning',
+      state: 'firing',
+      message: threshold === undefined
+        ? subject.describe
+        : `${subject.describe} is ${subject.value} (${(rule as ThresholdRule).op} ${threshold})`,
+      value: subject.value,
+      threshold,
+      pid: subject.pid,
+      processName: subject.processName,
+      startedAt: now
+    };
+    this.lastNotified.set(key, now);
+    this.emit('alert', state.alert);
+  }
+}
+
+const WEBHOOK_TIMEOUT = 5000;
+
+// POSTs an alert as JSON to the configured webhook; failures are only logged
+export const sendWebhook = (url: string, alert: Alert): Promise<void> =>
+  new Promise((resolve) => {
+    const body = JSON.stringify(alert);
+    const client = url.startsWith('https:') ? https : http;
+
+    let request: http.ClientRequest;
+    try {
+      request = client.request(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(body)
+        },
+        timeout: WEBHOOK_TIMEOUT
+      }, (response) => {
+        response.resume();
+        if (response.statusCode && response.statusCode >= 400) {
+          console.error(`Alert webhook responded with ${response.statusCode}`);
+        }
+        resolve();
+      });
+    } catch (error: any) {
+      // Invalid URLs and unsupported protocols throw right away
+      console.error('Error sending alert webhook:', error.message);
+      resolve();
+      return;
+    }
+
+    request.on('timeout', () => request.destroy(new Error('Alert webhook timed out')));
+    request.on('error', (error) => {
+      console.error('Error sending alert webhook:', error.message);
+      resolve();
+    });
+    request.end(body);
+  });
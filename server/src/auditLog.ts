@@ -0,0 +1,111 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { AuthUser } from './auth';
+import { KillErrorCode, ProcessSignal } from './signals';
+
+export interface AuditEntry {
+  timestamp: string;
+  action: 'signal';
+  actor: AuthUser;
+  source: {
+    socketId?: string;
+    ip?: string;
+    // The hub the request was forwarded by, see hub.ts
+    hub?: string;
+  };
+  target: {
+    // null when the request did not carry a usable PID
+    pid: number | null;
+    name?: string;
+    command?: string;
+    user?: string;
+  };
+  // Set when the whole process tree was signalled: the target's descendants,
+  // deepest first
+  descendants?: number[];
+  // What was asked for (verbatim, it may be invalid) and the signal that
+  // finally took effect
+  requestedSignal?: string;
+  signal?: ProcessSignal;
+  // 'rejected' means the request never reached the OS
+  result: 'success' | 'failure' | 'rejected';
+  code?: KillErrorCode;
+  message: string;
+}
+
+export interface AuditQuery {
+  from?: number;
+  to?: number;
+  username?: string;
+  pid?: number;
+  // Case-insensitive substring of the target process name or command
+  process?: string;
+  result?: AuditEntry['result'];
+  limit?: number;
+}
+
+export const DEFAULT_AUDIT_LIMIT = 100;
+export const MAX_AUDIT_LIMIT = 1000;
+
+const matches = (entry: AuditEntry, query: AuditQuery): boolean => {
+  const time = Date.parse(entry.timestamp);
+  if (query.from !== undefined && time < query.from) return false;
+  if (query.to !== undefined && time > query.to) return false;
+  if (query.username !== undefined && entry.actor.username !== query.username) return false;
+  if (query.pid !== undefined && entry.target.pid !== query.pid) return false;
+  if (query.result !== undefined && entry.result !== query.result) return false;
+  if (query.process !== undefined) {
+    const needle = query.process.toLowerCase();
+    const haystack = `${entry.target.name || ''} ${entry.target.command || ''}`.toLowerCase();
+    if (!haystack.includes(needle)) return false;
+  }
+  return true;
+};
+
+// Append-only JSON-lines record of every process-control request. Entries are
+// never rewritten; queries scan the file and return the newest matches first.
+export class AuditLog {
+  private stream: fs.WriteStream | null = null;
+
+  constructor(private file: string) {}
+
+  record(entry: Omit<AuditEntry, 'timestamp' | 'action'>) {
+    const line: AuditEntry = { timestamp: new Date().toISOString(), action: 'signal', ...entry };
+
+    if (!this.stream) {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      this.stream = fs.createWriteStream(this.file, { flags: 'a' });
+      this.stream.on('error', error => console.error(`Error writing audit log ${this.file}:`, error));
+    }
+    this.stream.write(JSON.stringify(line) + '\n');
+  }
+
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    const limit = Math.min(query.limit ?? DEFAULT_AUDIT_LIMIT, MAX_AUDIT_LIMIT);
+    // Keep only the last `limit` matches while scanning oldest to newest
+    const results: AuditEntry[] = [];
+
+    if (!fs.existsSync(this.file)) return results;
+
+    const lines = readline.createInterface({
+      input: fs.createReadStream(this.file, 'utf8'),
+      crlfDelay: Infinity
+    });
+
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      if (!matches(entry, query)) continue;
+      results.push(entry);
+      if (results.length > limit) results.shift();
+    }
+
+    return results.reverse();
+  }
+}
@@ -0,0 +1,172 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { NextFunction, Request, Response } from 'express';
+
+export type Role = 'viewer' | 'operator';
+
+// Higher ranks include every permission of the lower ones
+const ROLE_RANK: Record<Role, number> = {
+  viewer: 0,
+  operator: 1
+};
+
+export interface AuthUser {
+  username: string;
+  role: Role;
+}
+
+interface UserRecord extends AuthUser {
+  // scrypt$<salt hex>$<key hex>, see hashPassword
+  passwordHash: string;
+}
+
+interface TokenPayload extends AuthUser {
+  exp: number;
+}
+
+export const TOKEN_TTL = Number(process.env.AUTH_TOKEN_TTL) || 12 * 60 * 60 * 1000;
+
+const KEY_LENGTH = 64;
+
+// URL-safe base64 without padding (Buffer's 'base64url' needs Node 15.7+)
+const toBase64Url = (buffer: Buffer) =>
+  buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (value: string) =>
+  Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+
+export const hashPassword = (password: string): string => {
+  const salt = crypto.randomBytes(16);
+  const key = crypto.scryptSync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${key.toString('hex')}`;
+};
+
+const verifyPassword = (password: string, passwordHash: string): boolean => {
+  const [scheme, salt, key] = passwordHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !key) return false;
+
+  const expected = Buffer.from(key, 'hex');
+  const actual = crypto.scryptSync(password, Buffer.from(salt, 'hex'), expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+};
+
+export const hasRole = (user: AuthUser | null | undefined, role: Role): boolean =>
+  !!user && ROLE_RANK[user.role] >= ROLE_RANK[role];
+
+// Identity used for every request when authentication is disabled
+const ANONYMOUS_USER: AuthUser = { username: 'anonymous', role: 'operator' };
+
+// Issues and verifies HMAC-signed bearer tokens for the users in a JSON file:
+// [{ "username": "...", "passwordHash": "scrypt$...", "role": "viewer" }]
+export class Authenticator {
+  private users: Map<string, UserRecord>;
+
+  constructor(users: UserRecord[], private secret: string) {
+    this.users = new Map(users.map(user => [user.username, user]));
+  }
+
+  static fromFile(file: string, secret: string): Authenticator {
+    const users = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (!Array.isArray(users)) {
+      throw new Error(`${file} must contain an array of users`);
+    }
+    users.forEach((user: any, index: number) => {
+      if (typeof user.username !== 'string' || typeof user.passwordHash !== 'string') {
+        throw new Error(`User #${index} in ${file} needs a username and passwordHash`);
+      }
+      if (!Object.prototype.hasOwnProperty.call(ROLE_RANK, user.role)) {
+        throw new Error(`User ${user.username} in ${file} has unknown role ${user.role}`);
+      }
+    });
+    return new Authenticator(users, secret);
+  }
+
+  login(username: string, password: string): { token: string; user: AuthUser; expiresAt: number } | null {
+    const record = this.users.get(username);
+    if (!record || !verifyPassword(password, record.passwordHash)) return null;
+
+    const user = { username: record.username, role: record.role };
+    const expiresAt = Date.now() + TOKEN_TTL;
+    return { token: this.sign({ ...user, exp: expiresAt }), user, expiresAt };
+  }
+
+  verify(token: unknown): AuthUser | null {
+    if (typeof token !== 'string') return null;
+    const [body, signature] = token.split('.');
+    if (!body || !signature) return null;
+
+    const expected = Buffer.from(this.signature(body));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    try {
+      const payload: TokenPayload = JSON.parse(fromBase64Url(body).toString('utf8'));
+      if (payload.exp < Date.now()) return null;
+      // Users removed from the file lose access even with an unexpired token
+      const record = this.users.get(payload.username);
+      if (!record) return null;
+      return { username: record.username, role: record.role };
+    } catch {
+      return null;
+    }
+  }
+
+  private sign(payload: TokenPayload): string {
+    const body = toBase64Url(Buffer.from(JSON.stringify(payload)));
+    return `${body}.${this.signature(body)}`;
+  }
+
+  private signature(body: string): string {
+    return toBase64Url(crypto.createHmac('sha256', this.secret).update(body).digest());
+  }
+}
+
+// Resolves a token to a user; a null authenticator means auth is disabled
+export const authenticate = (authenticator: Authenticator | null, token: unknown): AuthUser | null =>
+  authenticator ? authenticator.verify(token) : ANONYMOUS_USER;
+
+// Pulls the bearer token out of an Authorization header
+export const bearerToken = (req: Request): string | undefined => {
+  const header = req.headers.authorization;
+  return header && header.startsWith('Bearer ') ? header.slice('Bearer '.length) : undefined;
+};
+
+// Express middleware factory rejecting requests below the given role. With
+// no authenticator (auth disabled) everyone is treated as an operator.
+export const requireRole = (authenticator: Authenticator | null, role: Role) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const user = authenticate(authenticator, bearerToken(req));
+    if (!user) {
+      res.status(401).json({ error: 'Authentication required', code: 'UNAUTHORIZED' });
+      return;
+    }
+    if (!hasRole(user, role)) {
+      res.status(403).json({ error: `The ${role} role is required`, code: 'FORBIDDEN' });
+      return;
+    }
+    res.locals.user = user;
+    next();
+  };
+
+// Compares secrets in constant time, whatever their lengths
+export const tokensMatch = (presented: string, expected: string): boolean =>
+  crypto.timingSafeEqual(
+    crypto.createHash('sha256').update(presented).digest(),
+    crypto.createHash('sha256').update(expected).digest()
+  );
+
+// Like requireRole, but a fixed `token` is accepted as well, for machine
+// clients that cannot log in (e.g. a Prometheus scraper)
+export const requireRoleOrToken = (authenticator: Authenticator | null, role: Role, token: string | undefined) => {
+  const checkRole = requireRole(authenticator, role);
+  return (req: Request, res: Response, next: NextFunction) => {
+    const presented = bearerToken(req);
+    if (token && presented && tokensMatch(presented, token)) {
+      next();
+      return;
+    }
+    checkRole(req, res, next);
+  };
+};
@@ -0,0 +1,35 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+
+// Highest frequency of each logical core in GHz, from cpufreq. Only Linux
+// exposes it per core; elsewhere, and in VMs without cpufreq, every entry is
+// null.
+export const readCoreMaxSpeeds = async (count: number): Promise<(number | null)[]> => {
+  if (process.platform !== 'linux') return Array(count).fill(null);
+
+  return Promise.all(Array.from({ length: count }, async (_, core) => {
+    try {
+      const khz = Number(await fs.readFile(`/sys/devices/system/cpu/cpu${core}/cpufreq/cpuinfo_max_freq`, 'utf8'));
+      return khz > 0 ? Math.round(khz / 10000) / 100 : null;
+    } catch (error) {
+      return null;
+    }
+  }));
+};
+
+// Frequencies in GHz; 0 or missing means the platform did not report one
+export const ghz = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.round(value * 100) / 100 : null;
+
+// Sensors that cannot be read come back as null, 0 or -1 depending on the
+// platform, none of them is a real reading
+export const celsius = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.round(value * 10) / 10 : null;
+
+// 1, 5 and 15 minute load averages. Windows has no such thing, Node reports
+// zeros there.
+export const loadAverage = (): [number, number, number] | null => {
+  if (process.platform === 'win32') return null;
+  const [one, five, fifteen] = os.loadavg().map(value => Math.round(value * 100) / 100);
+  return [one, five, fifteen];
+};
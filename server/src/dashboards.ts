@@ -0,0 +1,363 @@
+import type { Namespace, Socket } from 'socket.io';
+import type {
+  Alert,
+  ClientToServerEvents,
+  CollectorStatusReport,
+  CpuCores,
+  DiskInfo,
+  KillMode,
+  KillResponse,
+  NetworkConnection,
+  NetworkInfo,
+  ProcessHistory,
+  ProcessInfo,
+  ProcessPage,
+  ServerToClientEvents,
+  SystemInfo
+} from '../../shared/protocol';
+import type { AuthUser } from './auth';
+import type { AuditEntry } from './auditLog';
+import { ProcessQuery, ProcessQueryError, applyProcessQuery, normalizeProcessQuery } from './processQuery';
+import { diffProcessPage } from './processDelta';
+import {
+  DEFAULT_STREAMS,
+  MAX_STREAM_INTERVAL,
+  MIN_STREAM_INTERVAL,
+  StreamName,
+  StreamSubscription,
+  StreamSubscriptionError,
+  applySubscribeRequest,
+  isActive,
+  isDue
+} from './streams';
+
+// The dashboard side of the socket protocol, for one namespace: this server's
+// own data on '/', and on a hub one namespace per agent, see hub.ts
+
+export interface SocketData {
+  user: AuthUser;
+  processQuery: ProcessQuery;
+  // The page the client holds and its sequence number, the base for the next
+  // process-list-delta
+  processPage: ProcessPage | null;
+  processSeq: number;
+  streams: StreamSubscription;
+  // When each stream was last sent, epoch ms
+  lastSent: Record<StreamName, number>;
+}
+
+export type DashboardNamespace = Namespace<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
+export type MonitorSocket = Socket<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
+
+// The latest of everything a dashboard is sent when it connects
+export interface FeedSnapshot {
+  systemInfo: SystemInfo | null;
+  cpuCores: CpuCores | null;
+  diskInfo: DiskInfo | null;
+  networkInfo: NetworkInfo | null;
+  processList: ProcessInfo[] | null;
+  alerts: Alert[];
+  collectorStatus: CollectorStatusReport;
+}
+
+// Fresh samples and changes, as they are published to the dashboards
+export interface FeedEvents {
+  'system-info': SystemInfo;
+  'cpu-cores': CpuCores;
+  'disk-info': DiskInfo;
+  'network-info': NetworkInfo;
+  'process-list': ProcessInfo[];
+  'collector-status': CollectorStatusReport;
+  'alert': Alert;
+}
+
+export type PublishFn = <E extends keyof FeedEvents>(event: E, payload: FeedEvents[E]) => void;
+
+// Where the dashboards of a namespace get what they ask for
+export interface DashboardFeed {
+  snapshot(): FeedSnapshot;
+  // Null when there is no history for the process
+  processHistory(pid: number, started?: string): Promise<ProcessHistory | null>;
+  processConnections(pid: number): Promise<NetworkConnection[]>;
+  // Validates, signals and audits; `acknowledge` is called once the request
+  // is valid, as escalation can take a while
+  controlProcess(
+    user: AuthUser,
+    payload: unknown,
+    source: AuditEntry['source'],
+    acknowledge?: (pid: number, signal: KillMode) => void
+  ): Promise<KillResponse>;
+}
+
+// Serves `feed` to every dashboard connecting to `namespace` and returns the
+// function through which the feed's new samples reach them. `onStreamsChange`
+// is called whenever a client's stream subscription changes or it leaves.
+export const serveDashboards = (
+  namespace: DashboardNamespace,
+  feed: DashboardFeed,
+  onStreamsChange: () => void = () => {}
+): PublishFn => {
+  // Samples only reach the clients whose stream for them is enabled, not
+  // paused and due according to the client's own interval
+  const sendIfDue = (socket: MonitorSocket, stream: StreamName, send: () => void) => {
+    const now = Date.now();
+    if (!isDue(socket.data.streams[stream], socket.data.lastSent[stream], now)) return;
+    socket.data.lastSent[stream] = now;
+    send();
+  };
+
+  // Sends the client's whole page and makes it the base for the following deltas
+  const sendProcessSnapshot = (socket: MonitorSocket, processes: ProcessInfo[]) => {
+    const page = applyProcessQuery(processes, socket.data.processQuery);
+    socket.data.processPage = page;
+    socket.data.processSeq += 1;
+    socket.emit('process-list', { ...page, seq: socket.data.processSeq });
+  };
+
+  // Sends only what changed on the client's page since it was last sent, and
+  // nothing at all when the page is unchanged
+  const sendProcessDelta = (socket: MonitorSocket, processes: ProcessInfo[]) => {
+    const previous = socket.data.processPage;
+    if (!previous) {
+      sendProcessSnapshot(socket, processes);
+      return;
+    }
+
+    const page = applyProcessQuery(processes, socket.data.processQuery);
+    const delta = diffProcessPage(previous, page);
+    if (!delta) return;
+    socket.data.processPage = page;
+    socket.data.processSeq += 1;
+    socket.emit('process-list-delta', { ...delta, seq: socket.data.processSeq });
+  };
+
+  const publish = <E extends keyof FeedEvents>(event: E, payload: FeedEvents[E]) => {
+    // Narrowed one event at a time, TypeScript cannot correlate the pair
+    const sample = payload as FeedEvents[keyof FeedEvents];
+    switch (event) {
+      case 'system-info':
+        namespace.sockets.forEach(socket => {
+          sendIfDue(socket, 'system', () => socket.emit('system-info', sample as SystemInfo));
+        });
+        break;
+      case 'cpu-cores':
+        namespace.sockets.forEach(socket => {
+          sendIfDue(socket, 'cores', () => socket.emit('cpu-cores', sample as CpuCores));
+        });
+        break;
+      case 'disk-info':
+        namespace.sockets.forEach(socket => {
+          sendIfDue(socket, 'disks', () => socket.emit('disk-info', sample as DiskInfo));
+        });
+        break;
+      case 'network-info':
+        namespace.sockets.forEach(socket => {
+          sendIfDue(socket, 'network', () => socket.emit('network-info', sample as NetworkInfo));
+        });
+        break;
+      // Each client sees its own page of the full list, so the list is
+      // filtered, sorted, sliced and diffed per socket on every tick
+      case 'process-list':
+        namespace.sockets.forEach(socket => {
+          sendIfDue(socket, 'processes', () => sendProcessDelta(socket, sample as ProcessInfo[]));
+        });
+        break;
+      // Alerts and collector status go to everyone, whatever their streams
+      case 'collector-status':
+        namespace.emit('collector-status', sample as CollectorStatusReport);
+        break;
+      case 'alert':
+        namespace.emit('alert', sample as Alert);
+        break;
+    }
+  };
+
+  namespace.on('connection', (socket) => {
+    const user = socket.data.user;
+    console.log(`Client connected: ${socket.id} to ${namespace.name} (${user.username}, ${user.role})`);
+    socket.data.processQuery = normalizeProcessQuery({});
+    socket.data.processPage = null;
+    socket.data.processSeq = 0;
+    socket.data.streams = DEFAULT_STREAMS;
+    const connectedAt = Date.now();
+    socket.data.lastSent = { system: connectedAt, cores: connectedAt, processes: connectedAt, disks: connectedAt, network: connectedAt };
+
+    // Serve the latest cached snapshots right away instead of waiting for the
+    // next sampling tick
+    const latest = feed.snapshot();
+    if (latest.systemInfo) {
+      socket.emit('system-info', latest.systemInfo);
+    }
+    if (latest.cpuCores) {
+      socket.emit('cpu-cores', latest.cpuCores);
+    }
+    if (latest.diskInfo) {
+      socket.emit('disk-info', latest.diskInfo);
+    }
+    if (latest.networkInfo) {
+      socket.emit('network-info', latest.networkInfo);
+    }
+    if (latest.processList) {
+      sendProcessSnapshot(socket, latest.processList);
+    }
+    socket.emit('alerts', latest.alerts);
+    socket.emit('collector-status', latest.collectorStatus);
+
+    socket.on('disconnect', () => {
+      console.log('Client disconnected:', socket.id);
+      onStreamsChange();
+    });
+
+    // Chooses which streams the client gets, how often, and pauses or resumes
+    // them. A stream that becomes active again gets the latest sample at once.
+    socket.on('subscribe', (payload: unknown) => {
+      const previous = socket.data.streams;
+      try {
+        socket.data.streams = applySubscribeRequest(previous, payload);
+      } catch (error) {
+        socket.emit('subscribe-response', {
+          success: false,
+          error: (error as StreamSubscriptionError).message
+        });
+        return;
+      }
+
+      const { streams } = socket.data;
+      socket.emit('subscribe-response', {
+        success: true,
+        streams,
+        minInterval: MIN_STREAM_INTERVAL,
+        maxInterval: MAX_STREAM_INTERVAL
+      });
+      onStreamsChange();
+
+      const resumed = (stream: StreamName) => !isActive(previous[stream]) && isActive(streams[stream]);
+      const now = Date.now();
+      const current = feed.snapshot();
+      if (resumed('system') && current.systemInfo) {
+        socket.data.lastSent.system = now;
+        socket.emit('system-info', current.systemInfo);
+      }
+      if (resumed('cores') && current.cpuCores) {
+        socket.data.lastSent.cores = now;
+        socket.emit('cpu-cores', current.cpuCores);
+      }
+      if (resumed('disks') && current.diskInfo) {
+        socket.data.lastSent.disks = now;
+        socket.emit('disk-info', current.diskInfo);
+      }
+      if (resumed('network') && current.networkInfo) {
+        socket.data.lastSent.network = now;
+        socket.emit('network-info', current.networkInfo);
+      }
+      if (resumed('processes') && current.processList) {
+        socket.data.lastSent.processes = now;
+        sendProcessDelta(socket, current.processList);
+      }
+    });
+
+    // Explicit refreshes, answered from the cache. A process list request
+    // also resyncs a client that lost track of the deltas.
+    socket.on('get-system-info', () => {
+      const { systemInfo, cpuCores } = feed.snapshot();
+      if (systemInfo) {
+        socket.emit('system-info', systemInfo);
+      }
+      if (cpuCores) {
+        socket.emit('cpu-cores', cpuCores);
+      }
+    });
+    socket.on('get-process-list', () => {
+      const { processList } = feed.snapshot();
+      if (processList) {
+        sendProcessSnapshot(socket, processList);
+      }
+    });
+
+    // Replaces the client's process list query (sort, direction, filter,
+    // limit, offset) and answers with the matching page straight away
+    socket.on('subscribe-processes', (payload: unknown) => {
+      let query: ProcessQuery;
+      try {
+        query = normalizeProcessQuery(payload);
+      } catch (error) {
+        const { message, filterError } = error as ProcessQueryError;
+        socket.emit('subscribe-processes-response', {
+          success: false,
+          error: message,
+          ...(filterError ? { filterError } : {})
+        });
+        return;
+      }
+
+      socket.data.processQuery = query;
+      socket.emit('subscribe-processes-response', { success: true, query });
+      const { processList } = feed.snapshot();
+      if (processList) {
+        sendProcessSnapshot(socket, processList);
+      }
+    });
+
+    // Rolling CPU/memory history of one process, identified by PID and
+    // optionally the start time the client last saw for it
+    socket.on('get-process-history', async (payload: unknown) => {
+      const { pid, started } = (typeof payload === 'object' && payload !== null
+        ? payload
+        : { pid: payload }) as { pid?: unknown; started?: unknown };
+
+      if (typeof pid !== 'number' || !Number.isSafeInteger(pid) || pid <= 0) {
+        socket.emit('process-history', { pid, error: 'Invalid PID' });
+        return;
+      }
+
+      try {
+        const history = await feed.processHistory(pid, typeof started === 'string' ? started : undefined);
+        socket.emit('process-history', history || { pid, error: `No history for process ${pid}` });
+      } catch (error: any) {
+        socket.emit('process-history', { pid, error: error.message });
+      }
+    });
+
+    // Listening sockets and established connections of one process, from the
+    // latest network sample
+    socket.on('get-process-connections', async (payload: unknown) => {
+      const { pid } = (typeof payload === 'object' && payload !== null
+        ? payload
+        : { pid: payload }) as { pid?: unknown };
+
+      if (typeof pid !== 'number' || !Number.isSafeInteger(pid) || pid <= 0) {
+        return;
+      }
+      try {
+        socket.emit('process-connections', { pid, connections: await feed.processConnections(pid) });
+      } catch (error) {
+        console.error('Error fetching process connections:', error);
+      }
+    });
+
+    // Handle kill process request, see DashboardFeed.controlProcess
+    socket.on('kill-process', async (payload: unknown) => {
+      try {
+        const response = await feed.controlProcess(
+          user,
+          payload,
+          { socketId: socket.id, ip: socket.handshake.address },
+          (pid, signal) => socket.emit('kill-process-acknowledged', { pid, signal })
+        );
+        socket.emit('kill-process-response', response);
+      } catch (error: any) {
+        // E.g. the audit log could not be written; the client would otherwise
+        // wait for its timeout
+        console.error('Error handling kill request:', error);
+        const { pid } = (typeof payload === 'object' && payload !== null ? payload : {}) as { pid?: unknown };
+        socket.emit('kill-process-response', {
+          success: false,
+          pid: typeof pid === 'number' ? pid : undefined,
+          message: `The request failed: ${error.message}`
+        });
+      }
+    });
+  });
+
+  return publish;
+};
@@ -0,0 +1,384 @@
+import { Systeminformation } from 'systeminformation';
+import type { IoCounters } from './processIo';
+import type { ProcessDetailData } from './processDetail';
+import { CollectedProcesses, MetricsCollector, formatStarted } from './metricsCollector';
+
+// Generated data for `--demo`: a made-up 8-thread machine whose load drifts
+// slowly, with a fixed set of processes plus a worker that comes and goes.
+// Nothing here is read from the host, and clients are told the server is in
+// demo mode so the numbers are never mistaken for real ones.
+
+const CORES = 8;
+const PHYSICAL_CORES = 4;
+const SPEED_MAX = 4.2;
+const MEMORY_TOTAL = 16 * 1024 ** 3;
+const GiB = 1024 ** 3;
+
+interface DemoProcess {
+  pid: number;
+  parentPid: number;
+  name: string;
+  user: string;
+  command: string;
+  // Average CPU and memory percent, the reported values swing around them
+  cpu: number;
+  mem: number;
+  // Bytes per second read from / written to storage
+  io?: { read: number; write: number };
+  ports?: number[];
+}
+
+const PROCESSES: DemoProcess[] = [
+  { pid: 1, parentPid: 0, name: 'init', user: 'root', command: '/sbin/init', cpu: 0.1, mem: 0.1 },
+  { pid: 210, parentPid: 1, name: 'sshd', user: 'root', command: '/usr/sbin/sshd -D', cpu: 0.1, mem: 0.1, ports: [22] },
+  { pid: 340, parentPid: 1, name: 'nginx', user: 'root', command: 'nginx: master process', cpu: 0.2, mem: 0.2, ports: [80, 443] },
+  { pid: 341, parentPid: 340, name: 'nginx', user: 'www-data', command: 'nginx: worker process', cpu: 3, mem: 0.4 },
+  { pid: 342, parentPid: 340, name: 'nginx', user: 'www-data', command: 'nginx: worker process', cpu: 2.5, mem: 0.4 },
+  {
+    pid: 500, parentPid: 1, name: 'postgres', user: 'postgres', command: 'postgres -D /data/pg',
+    cpu: 6, mem: 8, io: { read: 4 * 1024 ** 2, write: 2 * 1024 ** 2 }, ports: [5432]
+  },
+  { pid: 501, parentPid: 500, name: 'postgres', user: 'postgres', command: 'postgres: checkpointer', cpu: 0.5, mem: 1 },
+  {
+    pid: 502, parentPid: 500, name: 'postgres', user: 'postgres', command: 'postgres: walwriter',
+    cpu: 1, mem: 0.5, io: { read: 0, write: 1024 ** 2 }
+  },
+  {
+    pid: 800, parentPid: 1, name: 'node', user: 'app', command: 'node /srv/app/server.js',
+    cpu: 14, mem: 6, ports: [3000]
+  },
+  { pid: 820, parentPid: 1, name: 'redis-server', user: 'redis', command: 'redis-server *:6379', cpu: 2, mem: 3, ports: [6379] },
+  {
+    pid: 900, parentPid: 1, name: 'java', user: 'app', command: 'java -Xmx4g -jar /srv/search/search.jar',
+    cpu: 22, mem: 26, io: { read: 512 * 1024, write: 256 * 1024 }, ports: [9200]
+  },
+  { pid: 1200, parentPid: 210, name: 'bash', user: 'alice', command: '-bash', cpu: 0, mem: 0.1 },
+  { pid: 1201, parentPid: 1200, name: 'top', user: 'alice', command: 'top', cpu: 0.8, mem: 0.1 }
+];
+
+// Appears every other minute so the process list sees additions and removals
+const WORKER: DemoProcess = {
+  pid: 4100, parentPid: 800, name: 'node', user: 'app', command: 'node /srv/app/worker.js --batch',
+  cpu: 35, mem: 4, io: { read: 8 * 1024 ** 2, write: 3 * 1024 ** 2 }
+};
+
+const BOOT_TIME = Date.now() - 3 * 24 * 60 * 60 * 1000;
+
+// Slow oscillation between -1 and 1 with a period of `seconds`, offset by
+// `phase` so that cores and processes do not move in lockstep
+const wave = (seconds: number, phase = 0): number =>
+  Math.sin((Date.now() / 1000 / seconds) * 2 * Math.PI + phase);
+
+const jitter = (amount: number): number => (Math.random() * 2 - 1) * amount;
+
+const clamp = (value: number, min: number, max: number): number => Math.min(Math.max(value, min), max);
+
+const threadCount = (proc: DemoProcess): number =>
+  proc.name === 'java' ? 64 : proc.name === 'node' ? 11 : 1;
+
+export class DemoCollector implements MetricsCollector {
+  private started = Date.now();
+  private workerStarted = 0;
+  // Cumulative counters, advanced by the rates above on every read
+  private lastAdvance = Date.now();
+  private diskBytes = { read: 0, write: 0 };
+  private diskOps = { read: 0, write: 0 };
+  private networkBytes = { rx: 0, tx: 0 };
+  private processBytes = new Map<number, IoCounters>();
+
+  private get workerRunning(): boolean {
+    const running = Math.floor((Date.now() - this.started) / 60000) % 2 === 1;
+    if (running && !this.workerStarted) this.workerStarted = Date.now();
+    if (!running) this.workerStarted = 0;
+    return running;
+  }
+
+  private get runningProcesses(): DemoProcess[] {
+    return this.workerRunning ? [...PROCESSES, WORKER] : PROCESSES;
+  }
+
+  private coreLoad(core: number): number {
+    return clamp(30 + 25 * wave(90, core) + 10 * wave(17, core * 2) + jitter(5), 0, 100);
+  }
+
+  // Moves every cumulative counter forward by the time since the last call
+  private advance() {
+    const now = Date.now();
+    const seconds = (now - this.lastAdvance) / 1000;
+    this.lastAdvance = now;
+    const busy = 1 + 0.5 * wave(120);
+
+    this.runningProcesses.forEach(proc => {
+      const counters = this.processBytes.get(proc.pid) || { read: 0, write: 0 };
+      if (proc.io) {
+        counters.read += proc.io.read * busy * seconds;
+        counters.write += proc.io.write * busy * seconds;
+      }
+      this.processBytes.set(proc.pid, counters);
+    });
+
+    const read = this.runningProcesses.reduce((sum, proc) => sum + (proc.io?.read ?? 0), 0);
+    const write = this.runningProcesses.reduce((sum, proc) => sum + (proc.io?.write ?? 0), 0);
+    this.diskBytes.read += read * busy * seconds;
+    this.diskBytes.write += write * busy * seconds;
+    this.diskOps.read += (read / 16384) * busy * seconds;
+    this.diskOps.write += (write / 16384) * busy * seconds;
+    this.networkBytes.rx += (2 + wave(45)) * 1024 ** 2 * seconds;
+    this.networkBytes.tx += (6 + 3 * wave(45, 1)) * 1024 ** 2 * seconds;
+  }
+
+  async currentLoad(): Promise<Systeminformation.CurrentLoadData> {
+    const cpus = Array.from({ length: CORES }, (_, core) => {
+      const load = this.coreLoad(core);
+      return {
+        load,
+        loadUser: load * 0.7,
+        loadSystem: load * 0.3,
+        loadNice: 0,
+        loadIdle: 100 - load,
+        loadIrq: 0,
+        loadSteal: 0,
+        loadGuest: 0,
+        rawLoad: 0,
+        rawLoadUser: 0,
+        rawLoadSystem: 0,
+        rawLoadNice: 0,
+        rawLoadIdle: 0,
+        rawLoadIrq: 0,
+        rawLoadSteal: 0,
+        rawLoadGuest: 0
+      };
+    });
+    const currentLoad = cpus.reduce((sum, cpu) => sum + cpu.load, 0) / CORES;
+    return {
+      avgLoad: Math.round(currentLoad * CORES) / 100,
+      currentLoad,
+      currentLoadUser: currentLoad * 0.7,
+      currentLoadSystem: currentLoad * 0.3,
+      currentLoadNice: 0,
+      currentLoadIdle: 100 - currentLoad,
+      currentLoadIrq: 0,
+      currentLoadSteal: 0,
+      currentLoadGuest: 0,
+      rawCurrentLoad: 0,
+      rawCurrentLoadUser: 0,
+      rawCurrentLoadSystem: 0,
+      rawCurrentLoadNice: 0,
+      rawCurrentLoadIdle: 0,
+      rawCurrentLoadIrq: 0,
+      rawCurrentLoadSteal: 0,
+      rawCurrentLoadGuest: 0,
+      cpus
+    };
+  }
+
+  async mem(): Promise<Systeminformation.MemData> {
+    const used = Math.round(MEMORY_TOTAL * clamp(0.6 + 0.05 * wave(300) + jitter(0.005), 0, 1));
+    return {
+      total: MEMORY_TOTAL,
+      free: MEMORY_TOTAL - used,
+      used,
+      active: used,
+      available: MEMORY_TOTAL - used,
+      buffcache: 2 * GiB,
+      buffers: 0,
+      cached: 2 * GiB,
+      slab: 0,
+      swaptotal: 4 * GiB,
+      swapused: 0,
+      swapfree: 4 * GiB,
+      writeback: null,
+      dirty: null
+    };
+  }
+
+  async cpu(): Promise<Systeminformation.CpuData> {
+    return {
+      manufacturer: 'Demo',
+      brand: 'Simulated CPU',
+      vendor: 'Demo',
+      family: '',
+      model: '',
+      stepping: '',
+      revision: '',
+      voltage: '',
+      speed: 3.2,
+      speedMin: 0.8,
+      speedMax: SPEED_MAX,
+      governor: 'powersave',
+      cores: CORES,
+      physicalCores: PHYSICAL_CORES,
+      processors: 1,
+      socket: '',
+      flags: '',
+      virtualization: false,
+      cache: { l1d: 0, l1i: 0, l2: 0, l3: 0 }
+    };
+  }
+
+  async cpuCurrentSpeed(): Promise<Systeminformation.CpuCurrentSpeedData> {
+    const cores = Array.from({ length: CORES }, (_, core) =>
+      Math.round((1.2 + (this.coreLoad(core) / 100) * (SPEED_MAX - 1.2)) * 100) / 100);
+    return {
+      min: Math.min(...cores),
+      max: Math.max(...cores),
+      avg: Math.round((cores.reduce((sum, speed) => sum + speed, 0) / CORES) * 100) / 100,
+      cores
+    };
+  }
+
+  async cpuTemperature(): Promise<Systeminformation.CpuTemperatureData> {
+    const cores = Array.from({ length: CORES }, (_, core) => Math.round(40 + this.coreLoad(core) * 0.4));
+    return { main: Math.max(...cores), cores, max: Math.max(...cores) };
+  }
+
+  async coreMaxSpeeds(count: number): Promise<(number | null)[]> {
+    return Array(count).fill(SPEED_MAX);
+  }
+
+  loadAverage(): [number, number, number] {
+    const load = (CORES * (30 + 25 * wave(90))) / 100;
+    return [load, load * 0.9, load * 0.8].map(value => Math.round(value * 100) / 100) as [number, number, number];
+  }
+
+  async processes(): Promise<CollectedProcesses> {
+    const list = this.runningProcesses.map((proc, index) => {
+      const cpu = clamp(proc.cpu * (1 + 0.5 * wave(40, index)) + jitter(proc.cpu * 0.1), 0, 100 * CORES);
+      const mem = clamp(proc.mem * (1 + 0.05 * wave(200, index)), 0, 100);
+      const memRss = Math.round((mem / 100) * MEMORY_TOTAL / 1024);
+      return {
+        pid: proc.pid,
+        parentPid: proc.parentPid,
+        name: proc.name,
+        cpu,
+        cpuu: cpu * 0.7,
+        cpus: cpu * 0.3,
+        mem,
+        priority: 20,
+        memVsz: memRss * 3,
+        memRss,
+        nice: 0,
+        threads: threadCount(proc),
+        started: formatStarted(proc === WORKER ? this.workerStarted : BOOT_TIME),
+        state: cpu > 5 ? 'running' : 'sleeping',
+        tty: '',
+        user: proc.user,
+        command: proc.command,
+        params: '',
+        path: ''
+      };
+    });
+    const running = list.filter(proc => proc.state === 'running').length;
+    return { all: list.length, running, blocked: 0, sleeping: list.length - running, unknown: 0, list };
+  }
+
+  async processIo(pids: Iterable<number>): Promise<Map<number, IoCounters>> {
+    this.advance();
+    const counters = new Map<number, IoCounters>();
+    Array.from(pids).forEach(pid => {
+      const current = this.processBytes.get(pid);
+      if (current) counters.set(pid, { read: Math.round(current.read), write: Math.round(current.write) });
+    });
+    return counters;
+  }
+
+  async processDetail(pid: number): Promise<ProcessDetailData | null> {
+    const proc = this.runningProcesses.find(candidate => candidate.pid === pid);
+    if (!proc) return null;
+    const variables = proc.user === 'root' ? 8 : 24;
+    return {
+      cmdline: proc.command.split(' '),
+      cwd: proc.user === 'root' ? '/' : `/home/${proc.user}`,
+      environment: { variables, bytes: variables * 40 },
+      threads: threadCount(proc)
+    };
+  }
+
+  async fsSize(): Promise<Systeminformation.FsSizeData[]> {
+    const filesystem = (fs: string, mount: string, size: number, usedFraction: number) => {
+      const used = Math.round(size * usedFraction);
+      return { fs, type: 'ext4', size, used, available: size - used, use: usedFraction * 100, mount, rw: true };
+    };
+    return [
+      filesystem('/dev/demo1', '/', 64 * GiB, 0.42),
+      filesystem('/dev/demo2', '/data', 512 * GiB, 0.87 + 0.005 * wave(600))
+    ];
+  }
+
+  async disksIO(): Promise<Systeminformation.DisksIoData> {
+    this.advance();
+    const rIO = Math.round(this.diskOps.read);
+    const wIO = Math.round(this.diskOps.write);
+    return {
+      rIO,
+      wIO,
+      tIO: rIO + wIO,
+      rIO_sec: null,
+      wIO_sec: null,
+      tIO_sec: null,
+      rWaitTime: 0,
+      wWaitTime: 0,
+      tWaitTime: 0,
+      rWaitPercent: null,
+      wWaitPercent: null,
+      tWaitPercent: null,
+      ms: 0
+    };
+  }
+
+  async fsStats(): Promise<Systeminformation.FsStatsData> {
+    const rx = Math.round(this.diskBytes.read);
+    const wx = Math.round(this.diskBytes.write);
+    return { rx, wx, tx: rx + wx, rx_sec: null, wx_sec: null, tx_sec: null, ms: 0 };
+  }
+
+  async networkStats(): Promise<Systeminformation.NetworkStatsData[]> {
+    this.advance();
+    const iface = (name: string, rx: number, tx: number) => ({
+      iface: name,
+      operstate: 'up',
+      rx_bytes: Math.round(rx),
+      rx_dropped: 0,
+      rx_errors: 0,
+      tx_bytes: Math.round(tx),
+      tx_dropped: 0,
+      tx_errors: 0,
+      rx_sec: 0,
+      tx_sec: 0,
+      ms: 0
+    });
+    return [
+      iface('eth0', this.networkBytes.rx, this.networkBytes.tx),
+      iface('lo', this.networkBytes.rx / 10, this.networkBytes.rx / 10)
+    ];
+  }
+
+  async networkConnections(): Promise<Systeminformation.NetworkConnectionsData[]> {
+    const listening = PROCESSES.flatMap(proc => (proc.ports || []).map(port => ({
+      protocol: 'tcp',
+      localAddress: '0.0.0.0',
+      localPort: String(port),
+      peerAddress: '0.0.0.0',
+      peerPort: '*',
+      state: 'LISTEN',
+      pid: proc.pid,
+      process: proc.name
+    })));
+    const established = [
+      { pid: 341, port: '443', peer: '203.0.113.24', peerPort: '51234', process: 'nginx' },
+      { pid: 342, port: '443', peer: '198.51.100.7', peerPort: '40112', process: 'nginx' },
+      { pid: 800, port: '45678', peer: '127.0.0.1', peerPort: '5432', process: 'node' },
+      { pid: 800, port: '45680', peer: '127.0.0.1', peerPort: '6379', process: 'node' }
+    ].map(conn => ({
+      protocol: 'tcp',
+      localAddress: conn.peer.startsWith('127.') ? '127.0.0.1' : '10.0.0.5',
+      localPort: conn.port,
+      peerAddress: conn.peer,
+      peerPort: conn.peerPort,
+      state: 'ESTABLISHED',
+      pid: conn.pid,
+      process: conn.process
+    }));
+    return [...listening, ...established];
+  }
+}
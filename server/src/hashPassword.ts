@@ -0,0 +1,11 @@
+import { hashPassword } from './auth';
+
+// Prints a password hash for users.json: npm run hash-password -- <password>
+const password = process.argv[2];
+
+if (!password) {
+  console.error('Usage: npm run hash-password -- <password>');
+  process.exit(1);
+}
+
+console.log(hashPassword(password));
@@ -0,0 +1,348 @@
+import type { ExtendedError, Namespace, Server, Socket } from 'socket.io';
+import type {
+  Alert,
+  ClientToServerEvents,
+  CollectorSource,
+  CollectorStatus,
+  CollectorStatusReport,
+  KillResponse,
+  NetworkConnection,
+  ProcessHistory,
+  ServerToClientEvents
+} from '../../shared/protocol';
+import { AuthUser, tokensMatch } from './auth';
+import type { AuditEntry, AuditQuery } from './auditLog';
+import type { MetricsQuery, MetricsQueryResult } from './metricsStore';
+import { MAX_GRACE_PERIOD } from './signals';
+import {
+  DashboardFeed,
+  DashboardNamespace,
+  FeedEvents,
+  FeedSnapshot,
+  MonitorSocket,
+  PublishFn,
+  SocketData,
+  serveDashboards
+} from './dashboards';
+
+// Hub mode: agents behind NAT connect out to the hub on AGENTS_NAMESPACE with
+// a shared secret and push everything they sample. The hub keeps the latest
+// of it per host and serves each host to dashboards on its own namespace,
+// /hosts/<name>, with the same protocol as the hub's own data on '/'.
+// Requests that need the host itself (signals, process history, metrics
+// history, audit log) are forwarded to its agent.
+
+// Must match between hub and agents, independent of the dashboard protocol
+export const AGENT_PROTOCOL_VERSION = 2;
+
+export const AGENTS_NAMESPACE = '/agents';
+
+// Names become part of the host's namespace and URL
+export const AGENT_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,62}$/;
+
+export const hostNamespace = (name: string) => `/hosts/${name}`;
+
+export interface AgentHandshake {
+  protocolVersion: number;
+  name: string;
+  secret: string;
+}
+
+export type AgentToHubEvents = {
+  [E in keyof FeedEvents]: (payload: FeedEvents[E]) => void;
+} & {
+  // Everything the agent holds, sent on every (re)connect
+  snapshot: (snapshot: FeedSnapshot) => void;
+};
+
+// Agents answer every request, errors included
+export type AgentReply<T> = { result: T } | { error: string };
+
+// A signal request of one of the hub's users, checked and audited by the
+// agent like its own users' requests
+export interface ForwardedSignal {
+  user: AuthUser;
+  payload: unknown;
+  source: AuditEntry['source'];
+}
+
+export interface HubToAgentEvents {
+  'control-process': (request: ForwardedSignal, callback: (reply: AgentReply<KillResponse>) => void) => void;
+  'process-history': (
+    request: { pid: number; started?: string },
+    callback: (reply: AgentReply<ProcessHistory | null>) => void
+  ) => void;
+  'process-connections': (request: { pid: number }, callback: (reply: AgentReply<NetworkConnection[]>) => void) => void;
+  'query-metrics': (query: MetricsQuery, callback: (reply: AgentReply<MetricsQueryResult>) => void) => void;
+  'query-audit': (query: AuditQuery, callback: (reply: AgentReply<AuditEntry[]>) => void) => void;
+}
+
+interface AgentSocketData {
+  name: string;
+}
+
+type AgentNamespace = Namespace<AgentToHubEvents, HubToAgentEvents, Record<string, never>, AgentSocketData>;
+type AgentSocket = Socket<AgentToHubEvents, HubToAgentEvents, Record<string, never>, AgentSocketData>;
+
+export type DashboardMiddleware = (socket: MonitorSocket, next: (error?: ExtendedError) => void) => void;
+
+// Thrown for requests to a host whose agent is not connected or too slow
+export class AgentUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AgentUnavailableError';
+  }
+}
+
+// How long the hub waits for an agent's answer; signals may escalate, which
+// takes up to the grace period
+const REQUEST_TIMEOUT = 10000;
+const SIGNAL_TIMEOUT = MAX_GRACE_PERIOD + REQUEST_TIMEOUT;
+
+const SOURCES: CollectorSource[] = ['system', 'processes', 'disks', 'network'];
+
+// Matches how dashboards tell alerts apart
+const alertKey = (alert: Alert) => `${alert.ruleId}:${alert.pid ?? ''}`;
+
+export interface HostSummary {
+  name: string;
+  connected: boolean;
+  // ISO dates: when the agent last connected, and when it was last heard from
+  connectedAt: string | null;
+  lastSeen: string | null;
+}
+
+// One agent's host as the hub sees it: serves the latest of what the agent
+// reported and forwards requests to it. Outlives the agent's connection, so
+// that dashboards keep the host while its agent reconnects.
+export class AgentHost implements DashboardFeed {
+  private agent: AgentSocket | null = null;
+  private latest: FeedSnapshot;
+  private alerts: Map<string, Alert> = new Map();
+  private connectedAt: number | null = null;
+  private lastSeen: number | null = null;
+  private readonly publish: PublishFn;
+
+  constructor(readonly name: string, namespace: DashboardNamespace) {
+    this.latest = {
+      systemInfo: null,
+      cpuCores: null,
+      diskInfo: null,
+      networkInfo: null,
+      processList: null,
+      alerts: [],
+      collectorStatus: { backend: 'systeminformation', demo: false, collectors: {} }
+    };
+    this.publish = serveDashboards(namespace, this);
+  }
+
+  get summary(): HostSummary {
+    return {
+      name: this.name,
+      connected: this.agent !== null,
+      connectedAt: this.connectedAt !== null ? new Date(this.connectedAt).toISOString() : null,
+      lastSeen: this.lastSeen !== null ? new Date(this.lastSeen).toISOString() : null
+    };
+  }
+
+  get connected(): boolean {
+    return this.agent !== null;
+  }
+
+  attach(agent: AgentSocket) {
+    this.agent = agent;
+    this.connectedAt = Date.now();
+    this.lastSeen = this.connectedAt;
+
+    const received = <E extends keyof FeedEvents>(event: E, update: (payload: FeedEvents[E]) => void) => {
+      // Listeners of typed sockets cannot be registered through a generic
+      // event name, hence the casts
+      (agent as unknown as Socket).on(event as string, (payload: FeedEvents[E]) => {
+        this.lastSeen = Date.now();
+        update(payload);
+        this.publish(event, payload);
+      });
+    };
+    received('system-info', systemInfo => { this.latest = { ...this.latest, systemInfo }; });
+    received('cpu-cores', cpuCores => { this.latest = { ...this.latest, cpuCores }; });
+    received('disk-info', diskInfo => { this.latest = { ...this.latest, diskInfo }; });
+    received('network-info', networkInfo => { this.latest = { ...this.latest, networkInfo }; });
+    received('process-list', processList => { this.latest = { ...this.latest, processList }; });
+    received('collector-status', collectorStatus => { this.latest = { ...this.latest, collectorStatus }; });
+    received('alert', alert => {
+      if (alert.state === 'firing') {
+        this.alerts.set(alertKey(alert), alert);
+      } else {
+        this.alerts.delete(alertKey(alert));
+      }
+      this.latest = { ...this.latest, alerts: Array.from(this.alerts.values()) };
+    });
+
+    agent.on('snapshot', snapshot => {
+      this.lastSeen = Date.now();
+      this.latest = snapshot;
+      this.replaceAlerts(snapshot.alerts);
+      this.publish('collector-status', snapshot.collectorStatus);
+      if (snapshot.systemInfo) this.publish('system-info', snapshot.systemInfo);
+      if (snapshot.cpuCores) this.publish('cpu-cores', snapshot.cpuCores);
+      if (snapshot.diskInfo) this.publish('disk-info', snapshot.diskInfo);
+      if (snapshot.networkInfo) this.publish('network-info', snapshot.networkInfo);
+      if (snapshot.processList) this.publish('process-list', snapshot.processList);
+    });
+
+    agent.on('disconnect', reason => {
+      if (this.agent !== agent) return;
+      console.warn(`Agent ${this.name} disconnected: ${reason}`);
+      this.agent = null;
+      this.markDisconnected();
+    });
+  }
+
+  snapshot(): FeedSnapshot {
+    return this.latest;
+  }
+
+  processHistory(pid: number, started?: string): Promise<ProcessHistory | null> {
+    return this.forward(REQUEST_TIMEOUT, agent => agent.timeout(REQUEST_TIMEOUT).emitWithAck('process-history', { pid, started }));
+  }
+
+  processConnections(pid: number): Promise<NetworkConnection[]> {
+    return this.forward(REQUEST_TIMEOUT, agent => agent.timeout(REQUEST_TIMEOUT).emitWithAck('process-connections', { pid }));
+  }
+
+  queryMetrics(query: MetricsQuery): Promise<MetricsQueryResult> {
+    return this.forward(REQUEST_TIMEOUT, agent => agent.timeout(REQUEST_TIMEOUT).emitWithAck('query-metrics', query));
+  }
+
+  queryAudit(query: AuditQuery): Promise<AuditEntry[]> {
+    return this.forward(REQUEST_TIMEOUT, agent => agent.timeout(REQUEST_TIMEOUT).emitWithAck('query-audit', query));
+  }
+
+  // The agent validates, signals and audits. Only what happens before the
+  // request reaches it is reported from here.
+  async controlProcess(user: AuthUser, payload: unknown, source: AuditEntry['source']): Promise<KillResponse> {
+    try {
+      return await this.forward(
+        SIGNAL_TIMEOUT,
+        agent => agent.timeout(SIGNAL_TIMEOUT).emitWithAck('control-process', { user, payload, source })
+      );
+    } catch (error: any) {
+      const pid = typeof payload === 'object' && payload !== null ? (payload as { pid?: unknown }).pid : payload;
+      return {
+        success: false,
+        ...(typeof pid === 'number' ? { pid } : {}),
+        code: 'SIGNAL_FAILED',
+        message: error.message
+      };
+    }
+  }
+
+  private async forward<T>(timeout: number, send: (agent: AgentSocket) => Promise<AgentReply<T>>): Promise<T> {
+    if (!this.agent) {
+      throw new AgentUnavailableError(`The agent of ${this.name} is not connected to the hub`);
+    }
+    let reply: AgentReply<T>;
+    try {
+      reply = await send(this.agent);
+    } catch (error) {
+      throw new AgentUnavailableError(`The agent of ${this.name} did not answer within ${timeout / 1000} s`);
+    }
+    if ('error' in reply) {
+      throw new Error(reply.error);
+    }
+    return reply.result;
+  }
+
+  // Dashboards only learn about changes, so alerts that resolved or fired
+  // while the agent was away are passed on as if they just did
+  private replaceAlerts(alerts: Alert[]) {
+    const next = new Map(alerts.map(alert => [alertKey(alert), alert]));
+    const now = Date.now();
+    this.alerts.forEach((alert, key) => {
+      if (!next.has(key)) this.publish('alert', { ...alert, state: 'resolved', resolvedAt: now });
+    });
+    next.forEach((alert, key) => {
+      if (!this.alerts.has(key)) this.publish('alert', alert);
+    });
+    this.alerts = next;
+  }
+
+  // Whatever the dashboards hold stays on screen, reported as stale through
+  // the collector status like a failing collector
+  private markDisconnected() {
+    const now = new Date().toISOString();
+    const { collectors } = this.latest.collectorStatus;
+    const failed = Object.fromEntries(SOURCES.map(source => [source, {
+      state: 'failed',
+      reason: 'The agent is not connected to the hub',
+      lastSuccess: collectors[source]?.lastSuccess ?? null,
+      lastAttempt: now
+    } as CollectorStatus]));
+    const collectorStatus: CollectorStatusReport = { ...this.latest.collectorStatus, collectors: failed };
+    this.latest = { ...this.latest, collectorStatus };
+    this.publish('collector-status', collectorStatus);
+  }
+}
+
+// Accepts agents and keeps one AgentHost per agent name. Dashboards connecting
+// to a host's namespace pass `authorize` like those on '/'.
+export class AgentHub {
+  private hosts: Map<string, AgentHost> = new Map();
+
+  constructor(
+    private io: Server<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>,
+    secret: string,
+    private authorize: DashboardMiddleware
+  ) {
+    // The server is typed for dashboards, agents speak their own protocol
+    const agents = io.of(AGENTS_NAMESPACE) as unknown as AgentNamespace;
+
+    agents.use((socket, next) => {
+      const handshake = (socket.handshake.auth || {}) as Partial<AgentHandshake>;
+      if (handshake.protocolVersion !== AGENT_PROTOCOL_VERSION) {
+        next(new Error(`Agent protocol version mismatch: hub speaks ${AGENT_PROTOCOL_VERSION}, agent sent ${String(handshake.protocolVersion)}`));
+        return;
+      }
+      if (typeof handshake.secret !== 'string' || !tokensMatch(handshake.secret, secret)) {
+        console.warn(`Rejected agent from ${socket.handshake.address}: wrong secret`);
+        next(new Error('Unauthorized'));
+        return;
+      }
+      if (typeof handshake.name !== 'string' || !AGENT_NAME_PATTERN.test(handshake.name)) {
+        next(new Error('Agent names consist of letters, digits, dots, dashes and underscores'));
+        return;
+      }
+      if (this.hosts.get(handshake.name)?.connected) {
+        next(new Error(`Another agent is connected as ${handshake.name}`));
+        return;
+      }
+      socket.data.name = handshake.name;
+      next();
+    });
+
+    agents.on('connection', socket => {
+      const { name } = socket.data;
+      console.log(`Agent ${name} connected from ${socket.handshake.address}`);
+      this.hostFor(name).attach(socket);
+    });
+  }
+
+  get summaries(): HostSummary[] {
+    return Array.from(this.hosts.values(), host => host.summary);
+  }
+
+  host(name: string): AgentHost | undefined {
+    return this.hosts.get(name);
+  }
+
+  private hostFor(name: string): AgentHost {
+    let host = this.hosts.get(name);
+    if (!host) {
+      const namespace = this.io.of(hostNamespace(name));
+      namespace.use(this.authorize);
+      host = new AgentHost(name, namespace);
+      this.hosts.set(name, host);
+    }
+    return host;
+  }
+}
@@ -1,141 +1,631 @@
-import express from 'express';
+import express, { Request, Response } from 'express';
 import http from 'http';
+import type { AddressInfo } from 'net';
 import { Server } from 'socket.io';
 import cors from 'cors';
-import si from 'systeminformation';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type {
+  ClientToServerEvents,
+  CollectorBackend,
+  CollectorStatusReport,
+  HandshakeAuth,
+  KillMode,
+  KillResponse,
+  ProtocolVersion,
+  ServerToClientEvents
+} from '../../shared/protocol';
+import {
+  DISK_INFO_INTERVAL,
+  NETWORK_INFO_INTERVAL,
+  PROCESS_LIST_INTERVAL,
+  SYSTEM_INFO_INTERVAL,
+  Sampler
+} from './sampler';
+import { MetricsCollector } from './metricsCollector';
+import { systeminformationCollector } from './systeminformationCollector';
+import { ProcCollector } from './procCollector';
+import { RecordingCollector, ReplayCollector } from './replayCollector';
+import { DemoCollector } from './demoCollector';
+import { formatMetrics, parseProcessNames } from './prometheus';
+import { createRestApi, restApiErrorHandler } from './restApi';
+import { MAX_POINTS, MetricsQuery, MetricsQueryResult, MetricsStore } from './metricsStore';
+import { ProcessHistory } from './processHistory';
+import { AlertEngine, loadAlertRules, sendWebhook } from './alerts';
+import { AuthUser, Authenticator, authenticate, hasRole, requireRole, requireRoleOrToken } from './auth';
+import { AuditEntry, AuditLog, AuditQuery, MAX_AUDIT_LIMIT } from './auditLog';
+import { descendantsOf } from './processTree';
+import { isActive } from './streams';
+import { DashboardFeed, PublishFn, SocketData, serveDashboards } from './dashboards';
+import { AGENT_NAME_PATTERN, AgentHost, AgentHub, AgentUnavailableError, DashboardMiddleware } from './hub';
+import { startAgent } from './agent';
+import {
+  KillRequest,
+  KillResult,
+  ProcessControlError,
+  signalProcess,
+  signalProcessTree,
+  validateKillRequest,
+  validateProcessTree
+} from './signals';
+
+// Must match the client's, see shared/protocol.d.ts
+const PROTOCOL_VERSION: ProtocolVersion = 10;
+
+// MODE is standalone (default); agent, which also reports everything to the
+// hub at HUB_URL; or hub, which also serves the hosts of the agents reporting
+// to it, see hub.ts. Hub and agents share HUB_SECRET.
+type ServerMode = 'standalone' | 'agent' | 'hub';
+const MODE = (process.env.MODE || 'standalone') as ServerMode;
+if (!['standalone', 'agent', 'hub'].includes(MODE)) {
+  console.error('MODE must be standalone, agent or hub');
+  process.exit(1);
+}
+
+const createHubSecret = (): string => {
+  const secret = process.env.HUB_SECRET;
+  if (!secret || secret.length < 16) {
+    console.error(`HUB_SECRET must be set to at least 16 characters when MODE is ${MODE}`);
+    process.exit(1);
+  }
+  return secret;
+};
+const HUB_SECRET = MODE === 'standalone' ? '' : createHubSecret();
+
+// Agents send the hub every process of their host in one message
+const HUB_MAX_MESSAGE_SIZE = 16 * 1024 * 1024;
 
 const app = express();
 const server = http.createServer(app);
-const io = new Server(server, {
+const io = new Server<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>(server, {
   cors: {
     origin: '*',
     methods: ['GET', 'POST']
-  }
+  },
+  ...(MODE === 'hub' ? { maxHttpBufferSize: HUB_MAX_MESSAGE_SIZE } : {})
 });
 
 app.use(cors());
 app.use(express.json());
 
+// Authentication: users come from USERS_FILE, AUTH_DISABLED=true lets every
+// client act as an operator (local development only)
+const createAuthenticator = (): Authenticator | null => {
+  if (process.env.AUTH_DISABLED === 'true') {
+    console.warn('Authentication is disabled, anyone who can reach this server can signal processes');
+    return null;
+  }
+
+  let secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    console.warn('AUTH_SECRET is not set, issued tokens will not survive a restart');
+    secret = crypto.randomBytes(32).toString('hex');
+  }
+
+  const usersFile = process.env.USERS_FILE || path.join(process.cwd(), 'users.json');
+  try {
+    return Authenticator.fromFile(usersFile, secret);
+  } catch (error: any) {
+    console.error(`Cannot load users from ${usersFile}: ${error.message}`);
+    console.error('Create it (see users.example.json) or set AUTH_DISABLED=true');
+    process.exit(1);
+  }
+};
+
+const authenticator = createAuthenticator();
+
+// --demo serves generated data instead of measuring this machine. Clients are
+// told so, nothing is written to the metrics history and no process can be
+// signalled; the same goes for replayed recordings.
+const DEMO = process.argv.includes('--demo');
+if (DEMO) {
+  console.warn('Demo mode: every sample is generated, none of it describes this machine');
+}
+
+// Collector backend: COLLECTOR is systeminformation (default), proc or replay
+// (plays back REPLAY_FILE), --demo overrides it. With RECORD_FILE every result
+// is also appended to that file, ready to be replayed.
+const createCollector = (): { backend: CollectorBackend; collector: MetricsCollector } => {
+  const backend = DEMO ? 'demo' : process.env.COLLECTOR || 'systeminformation';
+  let collector: MetricsCollector;
+  try {
+    switch (backend) {
+      case 'demo':
+        collector = new DemoCollector();
+        break;
+      case 'systeminformation':
+        collector = systeminformationCollector;
+        break;
+      case 'proc':
+        collector = new ProcCollector();
+        break;
+      case 'replay':
+        if (!process.env.REPLAY_FILE) {
+          throw new Error('REPLAY_FILE is not set');
+        }
+        collector = ReplayCollector.fromFile(process.env.REPLAY_FILE);
+        break;
+      default:
+        throw new Error('COLLECTOR must be systeminformation, proc or replay');
+    }
+  } catch (error: any) {
+    console.error(`Cannot start the ${backend} collector: ${error.message}`);
+    process.exit(1);
+  }
+
+  if (process.env.RECORD_FILE) {
+    console.log(`Recording collector results to ${process.env.RECORD_FILE}`);
+    collector = new RecordingCollector(collector, process.env.RECORD_FILE);
+  }
+  return { backend: backend as CollectorBackend, collector };
+};
+
+const { backend, collector } = createCollector();
+const SIMULATED = backend === 'demo' || backend === 'replay';
+console.log(`Collecting with ${backend}`);
+
+// A single sampler feeds every connected client, so the monitor's own
+// overhead does not grow with the number of dashboards open
+const sampler = new Sampler(collector);
+
+const collectorStatusReport = (): CollectorStatusReport => ({
+  backend,
+  demo: DEMO,
+  collectors: sampler.collectorStatus
+});
+
+const processHistory = new ProcessHistory();
+sampler.on('process-scan', processes => processHistory.record(processes));
+
+const alertEngine = new AlertEngine(
+  loadAlertRules(process.env.ALERT_RULES_FILE || path.join(process.cwd(), 'alert-rules.json'))
+);
+
+// Checked once here, so that a typo does not only show when the first alert
+// is sent
+const createWebhookUrl = (): string | null => {
+  const value = process.env.ALERT_WEBHOOK_URL;
+  if (!value) return null;
+  let url: URL | null = null;
+  try {
+    url = new URL(value);
+  } catch {
+    // Reported below
+  }
+  if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:')) {
+    console.error(`ALERT_WEBHOOK_URL must be an http:// or https:// URL, got ${value}`);
+    process.exit(1);
+  }
+  return url.href;
+};
+const ALERT_WEBHOOK_URL = createWebhookUrl();
+
+sampler.on('process-scan', processes => alertEngine.evaluateProcesses(processes));
+
+const metricsStore = new MetricsStore(
+  process.env.METRICS_DIR || path.join(process.cwd(), 'data')
+);
+
+const auditLog = new AuditLog(
+  process.env.AUDIT_LOG_FILE || path.join(process.env.METRICS_DIR || path.join(process.cwd(), 'data'), 'audit.jsonl')
+);
+
+// Signals a process on behalf of a user, for the kill-process event and the
+// REST API alike. Accepts either a bare PID (SIGKILL) or { pid, signal,
+// gracePeriod, tree } where signal may also be 'escalate' and tree also
+// signals every descendant, children first. Every outcome is audited;
+// `acknowledge` is called once the request is valid, as escalation can take a
+// while.
+const controlProcess = async (
+  user: AuthUser,
+  payload: unknown,
+  source: AuditEntry['source'],
+  acknowledge: (pid: number, signal: KillMode) => void = () => {}
+): Promise<KillResponse> => {
+  const requested = (typeof payload === 'object' && payload !== null
+    ? payload
+    : { pid: payload }) as { pid?: unknown; signal?: unknown };
+  const pid = typeof requested.pid === 'number' ? requested.pid : null;
+  // Look the target up before signalling, it may be gone from the next scan
+  const target = pid !== null ? sampler.getProcess(pid) : undefined;
+
+  // Resolved once the request is validated, from the same scan as the target
+  let descendants: number[] | undefined;
+
+  const respond = (result: Omit<KillResult, 'pid'>, outcome: AuditEntry['result']): KillResponse => {
+    auditLog.record({
+      actor: user,
+      source,
+      target: {
+        pid,
+        name: target?.name,
+        command: target?.command,
+        user: target?.user
+      },
+      descendants,
+      requestedSignal: typeof requested.signal === 'string' ? requested.signal : 'SIGKILL',
+      signal: result.signal,
+      result: outcome,
+      code: result.code,
+      message: result.message
+    });
+    return pid !== null ? { ...result, pid } : result;
+  };
+
+  if (!hasRole(user, 'operator')) {
+    return respond({
+      success: false,
+      code: 'FORBIDDEN',
+      message: 'The operator role is required to signal processes'
+    }, 'rejected');
+  }
+
+  if (SIMULATED) {
+    return respond({
+      success: false,
+      code: 'DEMO_MODE',
+      message: DEMO
+        ? 'The server runs in demo mode, its processes do not exist'
+        : 'The server replays a recording, its processes are not on this machine'
+    }, 'rejected');
+  }
+
+  let request: KillRequest;
+  try {
+    request = validateKillRequest(payload, sampler.knownPids);
+    if (request.tree) {
+      descendants = descendantsOf(sampler.processTree, request.pid);
+      validateProcessTree(request.pid, descendants);
+    }
+  } catch (error) {
+    const { code, message } = error as ProcessControlError;
+    return respond({ success: false, code, message }, 'rejected');
+  }
+
+  acknowledge(request.pid, request.signal || 'SIGKILL');
+
+  const result = descendants
+    ? await signalProcessTree(request, descendants)
+    : await signalProcess(request);
+  if (!result.success) {
+    console.error('Error signalling process:', result.message);
+  }
+  return respond(result, result.success ? 'success' : 'failure');
+};
+
+// Accepts either milliseconds since epoch or an ISO 8601 date
+const parseTime = (value: unknown): number | null => {
+  if (typeof value !== 'string' || value === '') return null;
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+};
+
 // Routes
+// Unauthenticated, so collectors are reported by state only, without reasons
 app.get('/api/health', (req, res) => {
-  res.json({ status: 'ok' });
+  const collectors = Object.fromEntries(
+    Object.entries(sampler.collectorStatus).map(([source, status]) => [source, status?.state])
+  );
+  res.json({ status: 'ok', backend, demo: DEMO, collectors });
 });
 
-// Socket connection
-io.on('connection', (socket) => {
-  console.log('Client connected:', socket.id);
+// Exchanges username/password for a bearer token
+const login = (req: Request, res: Response) => {
+  if (!authenticator) {
+    res.json({ token: null, user: authenticate(null, null), expiresAt: null });
+    return;
+  }
 
-  let systemInfoInterval: NodeJS.Timeout;
-  let processListInterval: NodeJS.Timeout;
+  const { username, password } = req.body || {};
+  if (typeof username !== 'string' || typeof password !== 'string') {
+    res.status(400).json({ error: 'username and password are required' });
+    return;
+  }
 
-  // Send CPU and memory info every 2 seconds
-  systemInfoInterval = setInterval(async () => {
-    try {
-      const [cpuData, memData] = await Promise.all([
-        si.currentLoad(),
-        si.mem()
-      ]);
-      
-      socket.emit('system-info', {
-        cpu: {
-          load: cpuData.currentLoad.toFixed(1),
-          cores: cpuData.cpus.map(core => ({
-            load: core.load.toFixed(1)
-          }))
-        },
-        memory: {
-          total: memData.total,
-          used: memData.used,
-          free: memData.free,
-          usedPercent: ((memData.used / memData.total) * 100).toFixed(1)
-        }
-      });
-    } catch (error) {
-      console.error('Error fetching system info:', error);
+  const session = authenticator.login(username, password);
+  if (!session) {
+    res.status(401).json({ error: 'Invalid username or password' });
+    return;
+  }
+  res.json(session);
+};
+app.post('/api/login', login);
+
+// CPU/memory history: from/to default to the last 15 minutes, step is the
+// bucket size in ms. Answered by `query`, for this server or a hub's host.
+const metricsRoute = (query: (metricsQuery: MetricsQuery, res: Response) => Promise<MetricsQueryResult>) =>
+  async (req: Request, res: Response) => {
+    const now = Date.now();
+    const to = req.query.to === undefined ? now : parseTime(req.query.to);
+    const from = req.query.from === undefined ? now - 15 * 60 * 1000 : parseTime(req.query.from);
+    const step = req.query.step === undefined ? undefined : Number(req.query.step);
+
+    if (from === null || to === null) {
+      res.status(400).json({ error: 'from and to must be epoch milliseconds or ISO dates' });
+      return;
+    }
+    if (from >= to) {
+      res.status(400).json({ error: 'from must be before to' });
+      return;
+    }
+    if (step !== undefined && (!Number.isInteger(step) || step <= 0)) {
+      res.status(400).json({ error: 'step must be a positive integer (ms)' });
+      return;
+    }
+    if (step !== undefined && (to - from) / step > MAX_POINTS) {
+      res.status(400).json({ error: `Range would return more than ${MAX_POINTS} points, use a larger step` });
+      return;
     }
-  }, 2000);
 
-  // Send process list every 3 seconds
-  processListInterval = setInterval(async () => {
     try {
-      const processes = await si.processes();
-      
-      // Sort processes by CPU usage (descending)
-      const sortedProcesses = processes.list
-        .sort((a, b) => b.cpu - a.cpu)
-        .slice(0, 20) // Limit to top 20 processes
-        .map(proc => ({
-          pid: proc.pid,
-          name: proc.name,
-          cpu: proc.cpu.toFixed(1),
-          mem: proc.mem.toFixed(1),
-          memVsz: proc.memVsz,
-          memRss: proc.memRss,
-          command: proc.command,
-          user: proc.user,
-          state: proc.state
-        }));
-      
-      socket.emit('process-list', sortedProcesses);
-    } catch (error) {
-      console.error('Error fetching process list:', error);
-    }
-  }, 3000);
-
-  // Clean up on disconnect
-  socket.on('disconnect', () => {
-    console.log('Client disconnected:', socket.id);
-    clearInterval(systemInfoInterval);
-    clearInterval(processListInterval);
-  });
+      res.json(await query({ from, to, step }, res));
+    } catch (error: any) {
+      if (error instanceof AgentUnavailableError) {
+        res.status(503).json({ error: error.message });
+        return;
+      }
+      console.error('Error reading metrics history:', error);
+      res.status(500).json({ error: 'Failed to read metrics history' });
+    }
+  };
+app.get('/api/metrics', requireRole(authenticator, 'viewer'), metricsRoute(async query => metricsStore.query(query)));
 
-  // Handle kill process request
-  socket.on('kill-process', async (pid: number) => {
-    try {
-      if (!pid) {
-        socket.emit('kill-process-response', { 
-          success: false, 
-          message: 'Invalid PID' 
-        });
+// Process-control audit trail, newest first. Filters: from, to (epoch ms or
+// ISO date), user, pid, process (name/command substring), result, limit.
+// Answered by `query`, for this server or a hub's host.
+const auditRoute = (query: (auditQuery: AuditQuery, res: Response) => Promise<AuditEntry[]>) =>
+  async (req: Request, res: Response) => {
+    const auditQuery: AuditQuery = {};
+    const { from, to, user, pid, process: processFilter, result, limit } = req.query;
+
+    if (from !== undefined) {
+      const time = parseTime(from);
+      if (time === null) {
+        res.status(400).json({ error: 'from must be epoch milliseconds or an ISO date' });
+        return;
+      }
+      auditQuery.from = time;
+    }
+    if (to !== undefined) {
+      const time = parseTime(to);
+      if (time === null) {
+        res.status(400).json({ error: 'to must be epoch milliseconds or an ISO date' });
+        return;
+      }
+      auditQuery.to = time;
+    }
+    if (pid !== undefined) {
+      auditQuery.pid = Number(pid);
+      if (!Number.isSafeInteger(auditQuery.pid) || auditQuery.pid <= 0) {
+        res.status(400).json({ error: 'pid must be a positive integer' });
         return;
       }
+    }
+    if (limit !== undefined) {
+      auditQuery.limit = Number(limit);
+      if (!Number.isInteger(auditQuery.limit) || auditQuery.limit <= 0 || auditQuery.limit > MAX_AUDIT_LIMIT) {
+        res.status(400).json({ error: `limit must be between 1 and ${MAX_AUDIT_LIMIT}` });
+        return;
+      }
+    }
+    if (result !== undefined) {
+      if (result !== 'success' && result !== 'failure' && result !== 'rejected') {
+        res.status(400).json({ error: 'result must be success, failure or rejected' });
+        return;
+      }
+      auditQuery.result = result;
+    }
+    if (typeof user === 'string' && user) auditQuery.username = user;
+    if (typeof processFilter === 'string' && processFilter) auditQuery.process = processFilter;
 
-      // Using Node's child_process instead of si.processKill which doesn't exist
-      const { exec } = require('child_process');
-      const platform = process.platform;
-      
-      // Different commands for different OS
-      const command = platform === 'win32' 
-        ? `taskkill /F /PID ${pid}` 
-        : `kill -9 ${pid}`;
-      
-      exec(command, (error: any) => {
-        if (error) {
-          console.error('Error killing process:', error);
-          socket.emit('kill-process-response', { 
-            success: false, 
-            message: error.message || 'Failed to terminate process' 
-          });
-          return;
-        }
-        
-        socket.emit('kill-process-response', { 
-          success: true, 
-          message: `Process ${pid} terminated successfully` 
-        });
-      });
+    try {
+      res.json({ entries: await query(auditQuery, res) });
     } catch (error: any) {
-      console.error('Error killing process:', error);
-      socket.emit('kill-process-response', { 
-        success: false, 
-        message: error.message || 'Failed to terminate process' 
-      });
+      if (error instanceof AgentUnavailableError) {
+        res.status(503).json({ error: error.message });
+        return;
+      }
+      console.error('Error reading audit log:', error);
+      res.status(500).json({ error: 'Failed to read audit log' });
+    }
+  };
+app.get('/api/audit', requireRole(authenticator, 'viewer'), auditRoute(query => auditLog.query(query)));
+
+// Prometheus scrape endpoint. Scrapers cannot log in, so METRICS_TOKEN is
+// accepted as a bearer token next to a viewer's; METRICS_PROCESS_NAMES lists
+// the process names exported per name.
+const METRICS_PROCESS_NAMES = parseProcessNames(process.env.METRICS_PROCESS_NAMES);
+app.get('/metrics', requireRoleOrToken(authenticator, 'viewer', process.env.METRICS_TOKEN), (req, res) => {
+  res.type('text/plain; version=0.0.4; charset=utf-8').send(formatMetrics({
+    backend,
+    collectors: sampler.collectorStatus,
+    systemInfo: sampler.latestSystemInfo,
+    cpuCores: sampler.latestCpuCores,
+    processes: sampler.latestProcessList,
+    processNames: METRICS_PROCESS_NAMES
+  }));
+});
+
+// Versioned REST API for scripts, see restApi.ts. The error handler sits on
+// the app so that malformed JSON bodies get the API's error format too.
+app.use('/api/v1', createRestApi({
+  authenticator,
+  sampler,
+  collectorStatus: collectorStatusReport,
+  controlProcess
+}), restApiErrorHandler);
+
+// The sampler runs as fast as the most demanding client asks for, but never
+// slower than its defaults
+const updateSamplingIntervals = () => {
+  let systemInfo = SYSTEM_INFO_INTERVAL;
+  let processList = PROCESS_LIST_INTERVAL;
+  let diskInfo = DISK_INFO_INTERVAL;
+  let networkInfo = NETWORK_INFO_INTERVAL;
+  io.sockets.sockets.forEach(socket => {
+    const { system, cores, processes, disks, network } = socket.data.streams;
+    [system, cores].filter(isActive).forEach(settings => {
+      systemInfo = Math.min(systemInfo, settings.interval);
+    });
+    if (isActive(processes)) {
+      processList = Math.min(processList, processes.interval);
+    }
+    if (isActive(disks)) {
+      diskInfo = Math.min(diskInfo, disks.interval);
+    }
+    if (isActive(network)) {
+      networkInfo = Math.min(networkInfo, network.interval);
     }
   });
+  sampler.setIntervals({ systemInfo, processList, diskInfo, networkInfo });
+};
+
+// Every dashboard socket must speak this protocol version and present a valid
+// token in its handshake auth, on '/' and on a hub's host namespaces alike
+const authorizeDashboard: DashboardMiddleware = (socket, next) => {
+  const auth = (socket.handshake.auth || {}) as Partial<HandshakeAuth>;
+  if (auth.protocolVersion !== PROTOCOL_VERSION) {
+    next(new Error(`Protocol version mismatch: server speaks ${PROTOCOL_VERSION}, client sent ${String(auth.protocolVersion)}`));
+    return;
+  }
+
+  const user = authenticate(authenticator, auth.token);
+  if (!user) {
+    next(new Error('Unauthorized'));
+    return;
+  }
+  socket.data.user = user;
+  next();
+};
+io.use(authorizeDashboard);
+
+// This server's own data, served to the dashboards on '/' and, for an agent,
+// to the hub
+const localFeed: DashboardFeed = {
+  snapshot: () => ({
+    systemInfo: sampler.latestSystemInfo,
+    cpuCores: sampler.latestCpuCores,
+    diskInfo: sampler.latestDiskInfo,
+    networkInfo: sampler.latestNetworkInfo,
+    processList: sampler.latestProcessList,
+    alerts: alertEngine.activeAlerts,
+    collectorStatus: collectorStatusReport()
+  }),
+  processHistory: async (pid, started) => processHistory.get(pid, started),
+  processConnections: async pid => sampler.connectionsOf(pid),
+  controlProcess
+};
+const publishToDashboards = serveDashboards(io.of('/'), localFeed, updateSamplingIntervals);
+
+// Agent mode: HUB_URL is where the hub listens, AGENT_NAME (default: the
+// hostname) is how this host is listed there
+const createAgentConfig = (): { hubUrl: string; name: string } => {
+  let hubUrl: URL;
+  try {
+    hubUrl = new URL(process.env.HUB_URL || '');
+  } catch {
+    console.error('HUB_URL must be set to the URL of the hub when MODE is agent');
+    process.exit(1);
+  }
+  const name = process.env.AGENT_NAME || os.hostname();
+  if (!AGENT_NAME_PATTERN.test(name)) {
+    console.error(`Invalid agent name ${name}: set AGENT_NAME to letters, digits, dots, dashes and underscores`);
+    process.exit(1);
+  }
+  return { hubUrl: hubUrl.origin, name };
+};
+
+const reportToHub = MODE === 'agent'
+  ? startAgent({
+    ...createAgentConfig(),
+    secret: HUB_SECRET,
+    feed: localFeed,
+    queryMetrics: query => metricsStore.query(query),
+    queryAudit: query => auditLog.query(query)
+  })
+  : null;
+
+const publish: PublishFn = (event, payload) => {
+  publishToDashboards(event, payload);
+  reportToHub?.(event, payload);
+};
+
+sampler.on('system-info', snapshot => {
+  publish('system-info', snapshot);
+  alertEngine.evaluateSystem(snapshot);
+  if (SIMULATED) return;
+  metricsStore.record({
+    t: Date.now(),
+    cpu: Number(snapshot.cpu.load),
+    mem: Number(snapshot.memory.usedPercent)
+  });
 });
+sampler.on('cpu-cores', snapshot => publish('cpu-cores', snapshot));
+sampler.on('disk-info', snapshot => publish('disk-info', snapshot));
+sampler.on('network-info', snapshot => publish('network-info', snapshot));
+sampler.on('process-list', snapshot => publish('process-list', snapshot));
+sampler.on('collector-status', () => publish('collector-status', collectorStatusReport()));
+
+alertEngine.on('alert', alert => {
+  console.log(`Alert ${alert.state}: ${alert.message}`);
+  publish('alert', alert);
+  if (ALERT_WEBHOOK_URL) {
+    sendWebhook(ALERT_WEBHOOK_URL, alert);
+  }
+});
+
+// Hub mode: agents connect on /agents, each host is served on
+// /hosts/<name>. The hub's tokens are valid for every host, so the REST
+// endpoints the dashboard uses are offered per host as well and forwarded to
+// the host's agent.
+const hub = MODE === 'hub' ? new AgentHub(io, HUB_SECRET, authorizeDashboard) : null;
+if (hub) {
+  console.log('Hub mode: accepting agents');
+
+  app.get('/api/hosts', requireRole(authenticator, 'viewer'), (req, res) => {
+    res.json({ hosts: hub.summaries });
+  });
+
+  app.use('/hosts/:name/api', (req, res, next) => {
+    const host = hub.host(req.params.name);
+    if (!host) {
+      res.status(404).json({ error: `No agent has reported as ${req.params.name}` });
+      return;
+    }
+    res.locals.host = host;
+    next();
+  });
+  const agentHost = (res: Response): AgentHost => res.locals.host;
+  app.post('/hosts/:name/api/login', login);
+  app.get('/hosts/:name/api/metrics', requireRole(authenticator, 'viewer'),
+    metricsRoute((query, res) => agentHost(res).queryMetrics(query)));
+  app.get('/hosts/:name/api/audit', requireRole(authenticator, 'viewer'),
+    auditRoute((query, res) => agentHost(res).queryAudit(query)));
+}
+
+// The built dashboard is served from the same origin as the API, so one
+// process serves both
+const CLIENT_BUILD_DIR = process.env.CLIENT_BUILD_DIR || path.join(__dirname, '..', '..', 'client', 'build');
+if (fs.existsSync(CLIENT_BUILD_DIR)) {
+  app.use(express.static(CLIENT_BUILD_DIR));
+  // Client-side routes fall back to the app shell, unknown API paths do not
+  app.get(/^\/(?!api\/|hosts\/[^/]+\/api\/).*/, (req, res) => {
+    res.sendFile(path.join(CLIENT_BUILD_DIR, 'index.html'));
+  });
+} else {
+  console.warn(`No client build in ${CLIENT_BUILD_DIR}, only the API is served (run "npm run build" in client/)`);
+}
 
 const PORT = process.env.PORT || 5000;
 
-server.listen(PORT, () => {
-  console.log(`Server running on port ${PORT}`);
-}); 
\ No newline at end of file
+metricsStore.open()
+  .catch(error => console.error('Error opening metrics store, history will not be persisted:', error))
+  .finally(() => {
+    server.listen(PORT, () => {
+      // PORT=0 picks a free port, so report the one that was bound
+      console.log(`Server running on port ${(server.address() as AddressInfo).port}`);
+      sampler.start();
+    });
+  }); 
\ No newline at end of file
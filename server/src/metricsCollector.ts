@@ -0,0 +1,61 @@
+import type { Systeminformation } from 'systeminformation';
+import type { IoCounters } from './processIo';
+import type { ProcessDetailData } from './processDetail';
+
+// systeminformation's process data, plus what only some backends count
+export interface CollectedProcess extends Systeminformation.ProcessesProcessData {
+  // Absent where the backend does not count them (systeminformation)
+  threads?: number;
+}
+
+export interface CollectedProcesses extends Omit<Systeminformation.ProcessesData, 'list'> {
+  list: CollectedProcess[];
+}
+
+// Everything the sampler reads from the machine, in systeminformation's
+// shapes. Backends are interchangeable and picked by configuration:
+//   systeminformation - the default, works on every platform
+//   proc              - Linux only, reads load, memory and processes straight
+//                       from /proc, which is much cheaper on busy hosts
+//   replay            - plays back a recording, see ReplayCollector
+// --demo uses DemoCollector instead, which makes everything up.
+export interface MetricsCollector {
+  currentLoad(): Promise<Systeminformation.CurrentLoadData>;
+  mem(): Promise<Systeminformation.MemData>;
+  cpu(): Promise<Systeminformation.CpuData>;
+  cpuCurrentSpeed(): Promise<Systeminformation.CpuCurrentSpeedData>;
+  cpuTemperature(): Promise<Systeminformation.CpuTemperatureData>;
+  coreMaxSpeeds(count: number): Promise<(number | null)[]>;
+  loadAverage(): [number, number, number] | null;
+  processes(): Promise<CollectedProcesses>;
+  processIo(pids: Iterable<number>): Promise<Map<number, IoCounters> | null>;
+  // Read on request for one process, null when it no longer exists
+  processDetail(pid: number): Promise<ProcessDetailData | null>;
+  fsSize(): Promise<Systeminformation.FsSizeData[]>;
+  // Both are null where the platform has no counters
+  disksIO(): Promise<Systeminformation.DisksIoData | null>;
+  fsStats(): Promise<Systeminformation.FsStatsData | null>;
+  networkStats(): Promise<Systeminformation.NetworkStatsData[]>;
+  networkConnections(): Promise<Systeminformation.NetworkConnectionsData[]>;
+}
+
+export type CollectorMethod = keyof MetricsCollector;
+
+// What a collector method resolves to
+export type CollectorResult<M extends CollectorMethod> = Awaited<ReturnType<MetricsCollector[M]>>;
+
+// systeminformation's format for process start times, local time
+export const formatStarted = (time: number): string => {
+  const date = new Date(time);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} `
+    + `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+};
+
+// Inverse of formatStarted, epoch ms or null
+export const parseStarted = (started: string): number | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})$/.exec(started);
+  if (!match) return null;
+  const [year, month, day, hours, minutes, seconds] = match.slice(1).map(Number);
+  return new Date(year, month - 1, day, hours, minutes, seconds).getTime();
+};
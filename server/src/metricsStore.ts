@@ -0,0 +1,248 @@
+import fs from 'fs';
+import path from 'path';
+
+export interface MetricPoint {
+  // Sample time (ms since epoch); for downsampled points the bucket start
+  t: number;
+  cpu: number;
+  mem: number;
+}
+
+export interface MetricsQuery {
+  from: number;
+  to: number;
+  // Bucket size in ms; defaults to whatever keeps the result near DEFAULT_POINTS
+  step?: number;
+}
+
+export interface MetricsQueryResult {
+  from: number;
+  to: number;
+  step: number;
+  // Resolution of the tier the points were read from (0 = raw samples)
+  resolution: number;
+  points: MetricPoint[];
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const DEFAULT_POINTS = 300;
+export const MAX_POINTS = 5000;
+
+// How often expired points are dropped from the log files on disk
+const COMPACT_INTERVAL = 10 * MINUTE;
+
+interface TierConfig {
+  name: string;
+  resolution: number;
+  retention: number;
+}
+
+// Raw samples for an hour, 1-minute averages for a week, hourly for 90 days
+export const TIERS: TierConfig[] = [
+  { name: 'raw', resolution: 0, retention: HOUR },
+  { name: '1m', resolution: MINUTE, retention: 7 * DAY },
+  { name: '1h', resolution: HOUR, retention: 90 * DAY }
+];
+
+interface Bucket {
+  start: number;
+  cpu: number;
+  mem: number;
+  count: number;
+}
+
+interface Tier extends TierConfig {
+  file: string;
+  points: MetricPoint[];
+  stream: fs.WriteStream | null;
+  // Points recorded while the log is being rewritten, written to the new
+  // file once it is in place
+  queued: MetricPoint[] | null;
+  // Samples accumulated for the current downsampling bucket
+  bucket: Bucket | null;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Averages points into fixed buckets of `step` ms aligned to the epoch
+const downsample = (points: MetricPoint[], step: number): MetricPoint[] => {
+  const result: MetricPoint[] = [];
+  let current: Bucket | null = null;
+
+  for (const point of points) {
+    const start = Math.floor(point.t / step) * step;
+    if (!current || current.start !== start) {
+      if (current) {
+        result.push({ t: current.start, cpu: round(current.cpu / current.count), mem: round(current.mem / current.count) });
+      }
+      current = { start, cpu: 0, mem: 0, count: 0 };
+    }
+    current.cpu += point.cpu;
+    current.mem += point.mem;
+    current.count++;
+  }
+  if (current) {
+    result.push({ t: current.start, cpu: round(current.cpu / current.count), mem: round(current.mem / current.count) });
+  }
+  return result;
+};
+
+// Stores system CPU/memory samples in memory and in one append-only JSON-lines
+// log per retention tier, so history survives restarts without a database.
+export class MetricsStore {
+  private tiers: Tier[];
+  private compactTimer: NodeJS.Timeout | null = null;
+
+  constructor(directory: string) {
+    this.tiers = TIERS.map(config => ({
+      ...config,
+      file: path.join(directory, `metrics-${config.name}.jsonl`),
+      points: [],
+      stream: null,
+      queued: null,
+      bucket: null
+    }));
+  }
+
+  async open() {
+    await fs.promises.mkdir(path.dirname(this.tiers[0].file), { recursive: true });
+    for (const tier of this.tiers) {
+      tier.points = await this.load(tier);
+    }
+    await this.compact();
+    this.compactTimer = setInterval(() => {
+      this.compact().catch(error => console.error('Error compacting metrics store:', error));
+    }, COMPACT_INTERVAL);
+  }
+
+  close() {
+    if (this.compactTimer) {
+      clearInterval(this.compactTimer);
+      this.compactTimer = null;
+    }
+    this.tiers.forEach(tier => {
+      tier.stream?.end();
+      tier.stream = null;
+    });
+  }
+
+  record(sample: MetricPoint) {
+    this.tiers.forEach(tier => {
+      if (tier.resolution === 0) {
+        this.append(tier, sample);
+        return;
+      }
+
+      const start = Math.floor(sample.t / tier.resolution) * tier.resolution;
+      if (tier.bucket && tier.bucket.start !== start) {
+        const { bucket } = tier;
+        this.append(tier, { t: bucket.start, cpu: round(bucket.cpu / bucket.count), mem: round(bucket.mem / bucket.count) });
+        tier.bucket = null;
+      }
+      if (!tier.bucket) {
+        tier.bucket = { start, cpu: 0, mem: 0, count: 0 };
+      }
+      tier.bucket.cpu += sample.cpu;
+      tier.bucket.mem += sample.mem;
+      tier.bucket.count++;
+    });
+  }
+
+  query({ from, to, step }: MetricsQuery): MetricsQueryResult {
+    const now = Date.now();
+    const effectiveStep = step ?? Math.max(Math.ceil((to - from) / DEFAULT_POINTS), 1);
+
+    // Use the finest tier that still covers the start of the range and is not
+    // finer than needed; fall back to the coarsest one
+    const tier = this.tiers.find(candidate =>
+      now - candidate.retention <= from && candidate.resolution <= effectiveStep
+    ) || this.tiers[this.tiers.length - 1];
+
+    const points = tier.points.filter(point => point.t >= from && point.t <= to);
+
+    return {
+      from,
+      to,
+      step: effectiveStep,
+      resolution: tier.resolution,
+      points: effectiveStep > tier.resolution ? downsample(points, effectiveStep) : points
+    };
+  }
+
+  private append(tier: Tier, point: MetricPoint) {
+    tier.points.push(point);
+    this.prune(tier, point.t);
+
+    if (tier.queued) {
+      tier.queued.push(point);
+      return;
+    }
+    this.write(tier, point);
+  }
+
+  private write(tier: Tier, point: MetricPoint) {
+    if (!tier.stream) {
+      tier.stream = fs.createWriteStream(tier.file, { flags: 'a' });
+      tier.stream.on('error', error => console.error(`Error writing ${tier.file}:`, error));
+    }
+    tier.stream.write(JSON.stringify(point) + '\n');
+  }
+
+  private prune(tier: Tier, now: number) {
+    const cutoff = now - tier.retention;
+    let expired = 0;
+    while (expired < tier.points.length && tier.points[expired].t < cutoff) {
+      expired++;
+    }
+    if (expired > 0) {
+      tier.points.splice(0, expired);
+    }
+  }
+
+  private async load(tier: Tier): Promise<MetricPoint[]> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(tier.file, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const points: MetricPoint[] = [];
+    content.split('\n').forEach(line => {
+      if (!line.trim()) return;
+      try {
+        points.push(JSON.parse(line));
+      } catch {
+        // A torn write from an unclean shutdown only loses that one line
+        console.warn(`Skipping corrupt line in ${tier.file}`);
+      }
+    });
+    return points.sort((a, b) => a.t - b.t);
+  }
+
+  // Rewrites each log with only the points that are still within retention
+  private async compact() {
+    const now = Date.now();
+    for (const tier of this.tiers) {
+      this.prune(tier, now);
+      tier.stream?.end();
+      tier.stream = null;
+      // An append stream opened now would point at the file being replaced
+      tier.queued = [];
+
+      try {
+        const temp = `${tier.file}.tmp`;
+        await fs.promises.writeFile(temp, tier.points.map(point => JSON.stringify(point) + '\n').join(''));
+        await fs.promises.rename(temp, tier.file);
+      } finally {
+        const { queued } = tier;
+        tier.queued = null;
+        queued.forEach(point => this.write(tier, point));
+      }
+    }
+  }
+}
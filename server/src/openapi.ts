@@ -0,0 +1,324 @@
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, SORT_KEYS } from './processQuery';
+import { MAX_GRACE_PERIOD, SIGNALS } from './signals';
+
+// OpenAPI description of the REST API in restApi.ts, served as
+// /api/v1/openapi.json. Keep it in step with the routes.
+
+const KILL_ERROR_CODES = [
+  'FORBIDDEN', 'INVALID_PID', 'UNKNOWN_PID', 'PROTECTED_PID', 'INVALID_SIGNAL', 'UNSUPPORTED_SIGNAL',
+  'NO_SUCH_PROCESS', 'PERMISSION_DENIED', 'DEMO_MODE', 'SIGNAL_FAILED'
+];
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } }
+});
+
+const nullable = (schema: Record<string, unknown>) => ({ ...schema, nullable: true });
+
+const pidParameter = {
+  name: 'pid',
+  in: 'path',
+  required: true,
+  schema: { type: 'integer', minimum: 1 }
+};
+
+const stringQuery = (name: string, description: string) => ({
+  name,
+  in: 'query',
+  description,
+  schema: { type: 'string' }
+});
+
+export const openApiDocument = {
+  openapi: '3.0.3',
+  info: {
+    title: 'Process Monitor API',
+    version: '1.0.0',
+    description: 'Read the latest samples and signal processes without a Socket.IO client. Tokens come '
+      + 'from POST /api/login. Every error response is { error, code }; all data is answered from the '
+      + 'samples the dashboard sees, so it is at most one sampling interval old.'
+  },
+  servers: [{ url: '/api/v1' }],
+  security: [{ bearerAuth: [] }],
+  paths: {
+    '/system': {
+      get: {
+        summary: 'Latest CPU, memory and per-core sample',
+        responses: {
+          200: {
+            description: 'The latest sample and the state of each collector',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/System' } } }
+          },
+          401: errorResponse('UNAUTHORIZED'),
+          503: errorResponse('NOT_SAMPLED: no sample yet, or the collector fails')
+        }
+      }
+    },
+    '/processes': {
+      get: {
+        summary: 'One page of the latest process list',
+        parameters: [
+          { name: 'sort', in: 'query', schema: { type: 'string', enum: SORT_KEYS, default: 'cpu' } },
+          { name: 'direction', in: 'query', schema: { type: 'string', enum: ['asc', 'desc'], default: 'desc' } },
+          { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE } },
+          { name: 'offset', in: 'query', schema: { type: 'integer', minimum: 0, default: 0 } },
+          {
+            name: 'tree',
+            in: 'query',
+            description: 'Depth-first rows of the process tree; matches keep their ancestors',
+            schema: { type: 'boolean', default: false }
+          },
+          stringQuery('search', 'Case-insensitive substring of the name, user or PID'),
+          stringQuery('name', 'Case-insensitive substring of the name'),
+          stringQuery('user', 'Case-insensitive substring of the user'),
+          stringQuery('command', 'Case-insensitive substring of the command line'),
+          stringQuery('state', 'Case-insensitive substring of the state'),
+          {
+            name: 'killable',
+            in: 'query',
+            description: 'true lists only processes the dashboard offers to signal',
+            schema: { type: 'boolean', default: false }
+          },
+          stringQuery('query', 'Filter expression, e.g. user:postgres cpu>5 -name:chrome; see the README for the syntax')
+        ],
+        responses: {
+          200: {
+            description: 'The page and the number of matching processes',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/ProcessPage' } } }
+          },
+          400: errorResponse('INVALID_REQUEST: unknown or invalid parameter'),
+          401: errorResponse('UNAUTHORIZED'),
+          503: errorResponse('NOT_SAMPLED')
+        }
+      }
+    },
+    '/processes/{pid}': {
+      get: {
+        summary: 'Everything known about one process',
+        parameters: [pidParameter],
+        responses: {
+          200: {
+            description: 'The process from the latest scan plus details read on request',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/ProcessDetail' } } }
+          },
+          400: errorResponse('INVALID_PID'),
+          401: errorResponse('UNAUTHORIZED'),
+          404: errorResponse('UNKNOWN_PID: not in the latest scan; NO_SUCH_PROCESS: exited since'),
+          503: errorResponse('NOT_SAMPLED')
+        }
+      }
+    },
+    '/processes/{pid}/signal': {
+      post: {
+        summary: 'Signal a process, or its whole tree',
+        description: 'Requires the operator role. Every attempt, including rejected ones, is written to '
+          + 'the audit log. Answers once the signal took effect, which for escalate can take up to the '
+          + 'grace period.',
+        parameters: [pidParameter],
+        requestBody: {
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/SignalRequest' } } }
+        },
+        responses: {
+          200: {
+            description: 'Signalled',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/SignalResult' } } }
+          },
+          400: errorResponse('INVALID_REQUEST, INVALID_PID, INVALID_SIGNAL or UNSUPPORTED_SIGNAL'),
+          401: errorResponse('UNAUTHORIZED'),
+          403: errorResponse('FORBIDDEN, PROTECTED_PID or PERMISSION_DENIED'),
+          404: errorResponse('UNKNOWN_PID or NO_SUCH_PROCESS'),
+          409: errorResponse('DEMO_MODE: the server runs in demo mode or replays a recording'),
+          500: errorResponse('SIGNAL_FAILED')
+        }
+      }
+    },
+    '/openapi.json': {
+      get: {
+        summary: 'This document',
+        security: [],
+        responses: { 200: { description: 'OpenAPI 3.0 document' } }
+      }
+    }
+  },
+  components: {
+    securitySchemes: {
+      bearerAuth: { type: 'http', scheme: 'bearer' }
+    },
+    schemas: {
+      Error: {
+        type: 'object',
+        required: ['error', 'code'],
+        properties: {
+          error: { type: 'string', description: 'Human-readable message' },
+          code: {
+            type: 'string',
+            enum: ['INVALID_REQUEST', 'UNAUTHORIZED', 'NOT_FOUND', 'NOT_SAMPLED', 'INTERNAL', ...KILL_ERROR_CODES]
+          }
+        }
+      },
+      CollectorStatus: {
+        type: 'object',
+        properties: {
+          state: { type: 'string', enum: ['ok', 'degraded', 'failed'] },
+          reason: nullable({ type: 'string' }),
+          lastSuccess: nullable({ type: 'string', format: 'date-time' }),
+          lastAttempt: { type: 'string', format: 'date-time' }
+        }
+      },
+      System: {
+        type: 'object',
+        properties: {
+          system: {
+            type: 'object',
+            properties: {
+              cpu: {
+                type: 'object',
+                properties: {
+                  load: { type: 'string', description: 'Percent, one decimal' },
+                  manufacturer: { type: 'string' },
+                  brand: { type: 'string' },
+                  cores: { type: 'integer' },
+                  physicalCores: { type: 'integer' },
+                  speed: nullable({ type: 'number', description: 'GHz' }),
+                  speedMax: nullable({ type: 'number', description: 'GHz' }),
+                  temperature: nullable({ type: 'number', description: 'Degrees Celsius' }),
+                  loadAverage: nullable({ type: 'array', items: { type: 'number' }, minItems: 3, maxItems: 3 })
+                }
+              },
+              memory: {
+                type: 'object',
+                properties: {
+                  total: { type: 'integer', description: 'Bytes' },
+                  used: { type: 'integer', description: 'Bytes' },
+                  free: { type: 'integer', description: 'Bytes' },
+                  usedPercent: { type: 'string', description: 'Percent, one decimal' }
+                }
+              },
+              timestamp: { type: 'string', format: 'date-time' }
+            }
+          },
+          cores: nullable({
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                load: { type: 'string', description: 'Percent, one decimal' },
+                speed: nullable({ type: 'number' }),
+                speedMax: nullable({ type: 'number' }),
+                temperature: nullable({ type: 'number' })
+              }
+            }
+          }),
+          collectors: {
+            type: 'object',
+            properties: {
+              backend: { type: 'string', enum: ['systeminformation', 'proc', 'replay', 'demo'] },
+              demo: { type: 'boolean' },
+              collectors: {
+                type: 'object',
+                additionalProperties: { $ref: '#/components/schemas/CollectorStatus' }
+              }
+            }
+          }
+        }
+      },
+      Process: {
+        type: 'object',
+        properties: {
+          pid: { type: 'integer' },
+          parentPid: { type: 'integer' },
+          childCount: { type: 'integer' },
+          name: { type: 'string' },
+          cpu: { type: 'string', description: 'Percent, one decimal' },
+          memory: { type: 'string', description: 'Percent of total memory, one decimal' },
+          memRss: { type: 'integer', description: 'KiB' },
+          memVsz: { type: 'integer', description: 'KiB' },
+          command: { type: 'string', description: 'The executable' },
+          commandLine: { type: 'string', description: 'The executable with its arguments' },
+          user: { type: 'string' },
+          state: { type: 'string' },
+          started: { type: 'string', description: 'YYYY-MM-DD HH:mm:ss, server local time' },
+          threads: nullable({ type: 'integer', description: 'Null where the collector backend does not count them' }),
+          priority: { type: 'integer' },
+          nice: { type: 'integer' },
+          killable: { type: 'boolean' },
+          subtreeCpu: { type: 'string' },
+          subtreeMemory: { type: 'string' },
+          depth: { type: 'integer', description: 'Only in tree mode' }
+        }
+      },
+      ProcessPage: {
+        type: 'object',
+        properties: {
+          processes: { type: 'array', items: { $ref: '#/components/schemas/Process' } },
+          total: { type: 'integer' },
+          offset: { type: 'integer' },
+          limit: { type: 'integer' }
+        }
+      },
+      ProcessDetail: {
+        allOf: [
+          { $ref: '#/components/schemas/Process' },
+          {
+            type: 'object',
+            description: 'Null where the platform does not report a field or the server may not read it',
+            properties: {
+              cmdline: nullable({ type: 'array', items: { type: 'string' } }),
+              cwd: nullable({ type: 'string' }),
+              environment: nullable({
+                type: 'object',
+                description: 'Size only, values are never exposed',
+                properties: {
+                  variables: { type: 'integer' },
+                  bytes: { type: 'integer' }
+                }
+              }),
+              threads: nullable({ type: 'integer' }),
+              startTime: nullable({ type: 'integer', description: 'Epoch milliseconds' })
+            }
+          }
+        ]
+      },
+      SignalRequest: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          signal: {
+            type: 'string',
+            enum: [...SIGNALS, 'escalate'],
+            default: 'SIGKILL',
+            description: 'escalate sends SIGTERM and SIGKILL after the grace period'
+          },
+          gracePeriod: {
+            type: 'number',
+            minimum: 0,
+            description: `Milliseconds for escalate, at most ${MAX_GRACE_PERIOD} are waited`
+          },
+          tree: { type: 'boolean', default: false, description: 'Also signal every descendant, children first' }
+        }
+      },
+      SignalResult: {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean' },
+          pid: { type: 'integer' },
+          signal: { type: 'string', enum: SIGNALS, description: 'The signal that finally took effect' },
+          message: { type: 'string' },
+          targets: { type: 'array', items: { type: 'integer' } },
+          failures: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                pid: { type: 'integer' },
+                code: { type: 'string', enum: KILL_ERROR_CODES },
+                message: { type: 'string' }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+};
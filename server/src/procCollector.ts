@@ -0,0 +1,361 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Systeminformation } from 'systeminformation';
+import { CollectedProcesses, MetricsCollector, formatStarted } from './metricsCollector';
+import { systeminformationCollector } from './systeminformationCollector';
+
+// Clock ticks per second that /proc times are counted in. The kernel exports
+// USER_HZ as 100 on every architecture Node runs on.
+const CLOCK_TICKS = 100;
+
+// Processes read at once; a busy host has thousands and each needs three files
+const READ_BATCH = 64;
+
+// One cpu line of /proc/stat, in clock ticks since boot
+interface CpuTimes {
+  user: number;
+  nice: number;
+  system: number;
+  idle: number;
+  iowait: number;
+  irq: number;
+  softirq: number;
+  steal: number;
+  guest: number;
+  total: number;
+}
+
+interface ProcStat {
+  // The aggregated "cpu" line, then one per core
+  all: CpuTimes;
+  cores: CpuTimes[];
+  // Boot time, epoch seconds
+  bootTime: number;
+}
+
+const parseCpuLine = (line: string): CpuTimes => {
+  const [user, nice, system, idle, iowait, irq, softirq, steal, guest] = line
+    .trim()
+    .split(/\s+/)
+    .slice(1)
+    .map(value => Number(value) || 0);
+  return {
+    user,
+    nice,
+    system,
+    idle,
+    iowait,
+    irq,
+    softirq,
+    steal,
+    guest,
+    // Guest time is already counted in user and nice
+    total: user + nice + system + idle + iowait + irq + softirq + steal
+  };
+};
+
+const readProcStat = async (): Promise<ProcStat> => {
+  const lines = (await fs.readFile('/proc/stat', 'utf8')).split('\n');
+  const all = lines.find(line => line.startsWith('cpu '));
+  if (!all) {
+    throw new Error('/proc/stat has no cpu line');
+  }
+  const btime = lines.find(line => line.startsWith('btime '));
+  return {
+    all: parseCpuLine(all),
+    cores: lines.filter(line => /^cpu\d+ /.test(line)).map(parseCpuLine),
+    bootTime: btime ? Number(btime.split(/\s+/)[1]) : Date.now() / 1000 - os.uptime()
+  };
+};
+
+// /proc/meminfo values, converted from kB to bytes
+const readMeminfo = async (): Promise<Map<string, number>> => {
+  const text = await fs.readFile('/proc/meminfo', 'utf8');
+  const values = new Map<string, number>();
+  text.split('\n').forEach(line => {
+    const match = /^(\w+(?:\(\w+\))?):\s+(\d+)/.exec(line);
+    if (match) values.set(match[1], Number(match[2]) * 1024);
+  });
+  return values;
+};
+
+// Username per uid from /etc/passwd; directory services are not consulted,
+// their users show up as their uid
+const readUsers = async (): Promise<Map<number, string>> => {
+  const users = new Map<number, string>();
+  try {
+    const text = await fs.readFile('/etc/passwd', 'utf8');
+    text.split('\n').forEach(line => {
+      const [name, , uid] = line.split(':');
+      if (name && uid !== undefined) users.set(Number(uid), name);
+    });
+  } catch (error) {
+    // Without it every user is shown as a uid
+  }
+  return users;
+};
+
+// Percentages of one cpu line between two readings
+const loadBetween = (current: CpuTimes, previous: CpuTimes | undefined) => {
+  const delta = (key: keyof CpuTimes) => current[key] - (previous ? previous[key] : 0);
+  const total = delta('total');
+  const percent = (ticks: number) => total > 0 ? (ticks / total) * 100 : 0;
+  const idle = delta('idle') + delta('iowait');
+  return {
+    load: percent(total - idle),
+    loadUser: percent(delta('user')),
+    loadSystem: percent(delta('system')),
+    loadNice: percent(delta('nice')),
+    loadIdle: percent(idle),
+    loadIrq: percent(delta('irq') + delta('softirq')),
+    loadSteal: percent(delta('steal')),
+    loadGuest: percent(delta('guest')),
+    rawLoad: total - idle,
+    rawLoadUser: delta('user'),
+    rawLoadSystem: delta('system'),
+    rawLoadNice: delta('nice'),
+    rawLoadIdle: idle,
+    rawLoadIrq: delta('irq') + delta('softirq'),
+    rawLoadSteal: delta('steal'),
+    rawLoadGuest: delta('guest')
+  };
+};
+
+const PROCESS_STATES: Record<string, string> = {
+  R: 'running',
+  S: 'sleeping',
+  D: 'blocked',
+  T: 'stopped',
+  t: 'stopped',
+  Z: 'zombie',
+  X: 'dead',
+  I: 'idle'
+};
+
+// What one scan needs from /proc/<pid>, null once the process has exited
+interface RawProcess {
+  pid: number;
+  parentPid: number;
+  comm: string;
+  state: string;
+  // utime + stime, clock ticks
+  cpuTicks: number;
+  userTicks: number;
+  systemTicks: number;
+  priority: number;
+  nice: number;
+  numThreads: number;
+  // Clock ticks after boot
+  startTicks: number;
+  uid: number;
+  // kB, 0 for kernel threads
+  rss: number;
+  vsz: number;
+  argv: string[];
+}
+
+const readProcess = async (pid: number): Promise<RawProcess | null> => {
+  try {
+    const [stat, status, cmdline] = await Promise.all([
+      fs.readFile(`/proc/${pid}/stat`, 'utf8'),
+      fs.readFile(`/proc/${pid}/status`, 'utf8'),
+      fs.readFile(`/proc/${pid}/cmdline`, 'utf8')
+    ]);
+
+    // The name may itself contain spaces and parentheses, the fields start
+    // after the last ')'
+    const nameEnd = stat.lastIndexOf(')');
+    const comm = stat.slice(stat.indexOf('(') + 1, nameEnd);
+    const fields = stat.slice(nameEnd + 2).split(' ');
+    const statusValue = (key: string) => {
+      const match = new RegExp(`^${key}:\\s+(\\d+)`, 'm').exec(status);
+      return match ? Number(match[1]) : 0;
+    };
+
+    const userTicks = Number(fields[11]);
+    const systemTicks = Number(fields[12]);
+    return {
+      pid,
+      parentPid: Number(fields[1]),
+      comm,
+      state: fields[0],
+      cpuTicks: userTicks + systemTicks,
+      userTicks,
+      systemTicks,
+      priority: Number(fields[15]),
+      nice: Number(fields[16]),
+      numThreads: Number(fields[17]),
+      startTicks: Number(fields[19]),
+      uid: statusValue('Uid'),
+      rss: statusValue('VmRSS'),
+      vsz: statusValue('VmSize'),
+      argv: cmdline.split('\0').filter(arg => arg !== '')
+    };
+  } catch (error) {
+    // Exited while being read
+    return null;
+  }
+};
+
+// The process name the way systeminformation reports it: the executable of
+// the command line, or the kernel's name for kernel threads and processes
+// that rewrote their command line
+const processName = (comm: string, argv: string[]): string => {
+  if (argv.length === 0) return comm;
+  const executable = path.basename(argv[0].split(' ')[0]).replace(/:$/, '');
+  return executable.startsWith(comm) ? executable : comm;
+};
+
+// Linux backend that reads CPU load, memory and the process list straight
+// from /proc instead of spawning ps, and works out CPU percentages from the
+// tick counters itself. Everything else comes from systeminformation.
+export class ProcCollector implements MetricsCollector {
+  // Readings of the previous currentLoad() call
+  private previousLoad: ProcStat | null = null;
+  // Ticks of the previous processes() call, per PID and for the whole machine
+  private previousScan: { total: number; ticks: Map<number, number> } | null = null;
+
+  cpu = systeminformationCollector.cpu;
+  cpuCurrentSpeed = systeminformationCollector.cpuCurrentSpeed;
+  cpuTemperature = systeminformationCollector.cpuTemperature;
+  coreMaxSpeeds = systeminformationCollector.coreMaxSpeeds;
+  loadAverage = systeminformationCollector.loadAverage;
+  processIo = systeminformationCollector.processIo;
+  processDetail = systeminformationCollector.processDetail;
+  fsSize = systeminformationCollector.fsSize;
+  disksIO = systeminformationCollector.disksIO;
+  fsStats = systeminformationCollector.fsStats;
+  networkStats = systeminformationCollector.networkStats;
+  networkConnections = systeminformationCollector.networkConnections;
+
+  constructor() {
+    if (process.platform !== 'linux') {
+      throw new Error('The proc collector only works on Linux');
+    }
+  }
+
+  // Load since the previous call, or since boot on the first one
+  async currentLoad(): Promise<Systeminformation.CurrentLoadData> {
+    const stat = await readProcStat();
+    const previous = this.previousLoad;
+    this.previousLoad = stat;
+
+    const overall = loadBetween(stat.all, previous?.all);
+    return {
+      avgLoad: Math.round((os.loadavg()[0] / Math.max(stat.cores.length, 1)) * 100) / 100,
+      currentLoad: overall.load,
+      currentLoadUser: overall.loadUser,
+      currentLoadSystem: overall.loadSystem,
+      currentLoadNice: overall.loadNice,
+      currentLoadIdle: overall.loadIdle,
+      currentLoadIrq: overall.loadIrq,
+      currentLoadSteal: overall.loadSteal,
+      currentLoadGuest: overall.loadGuest,
+      rawCurrentLoad: overall.rawLoad,
+      rawCurrentLoadUser: overall.rawLoadUser,
+      rawCurrentLoadSystem: overall.rawLoadSystem,
+      rawCurrentLoadNice: overall.rawLoadNice,
+      rawCurrentLoadIdle: overall.rawLoadIdle,
+      rawCurrentLoadIrq: overall.rawLoadIrq,
+      rawCurrentLoadSteal: overall.rawLoadSteal,
+      rawCurrentLoadGuest: overall.rawLoadGuest,
+      cpus: stat.cores.map((core, index) => loadBetween(core, previous?.cores[index]))
+    };
+  }
+
+  // Same accounting as systeminformation: used includes the page cache,
+  // available is the kernel's estimate
+  async mem(): Promise<Systeminformation.MemData> {
+    const info = await readMeminfo();
+    const value = (key: string) => info.get(key) ?? 0;
+    const total = value('MemTotal');
+    const free = value('MemFree');
+    const buffcache = value('Buffers') + value('Cached') + value('Slab');
+    const available = info.get('MemAvailable') ?? free + buffcache;
+    return {
+      total,
+      free,
+      used: total - free,
+      active: total - available,
+      available,
+      buffcache,
+      buffers: value('Buffers'),
+      cached: value('Cached'),
+      slab: value('Slab'),
+      swaptotal: value('SwapTotal'),
+      swapused: value('SwapTotal') - value('SwapFree'),
+      swapfree: value('SwapFree'),
+      writeback: info.get('Writeback') ?? null,
+      dirty: info.get('Dirty') ?? null
+    };
+  }
+
+  // CPU percent is the share of all cores' time since the previous scan (since
+  // the process started on the first), like systeminformation's
+  async processes(): Promise<CollectedProcesses> {
+    const [entries, stat, meminfo, users] = await Promise.all([
+      fs.readdir('/proc'),
+      readProcStat(),
+      readMeminfo(),
+      readUsers()
+    ]);
+    const pids = entries.filter(entry => /^\d+$/.test(entry)).map(Number);
+
+    const raw: RawProcess[] = [];
+    for (let i = 0; i < pids.length; i += READ_BATCH) {
+      const batch = await Promise.all(pids.slice(i, i + READ_BATCH).map(readProcess));
+      batch.forEach(proc => {
+        if (proc) raw.push(proc);
+      });
+    }
+
+    const previous = this.previousScan;
+    this.previousScan = { total: stat.all.total, ticks: new Map(raw.map(proc => [proc.pid, proc.cpuTicks])) };
+    const memTotal = meminfo.get('MemTotal') || os.totalmem();
+    const uptimeTicks = (Date.now() / 1000 - stat.bootTime) * CLOCK_TICKS;
+
+    const list = raw.map(proc => {
+      // Ticks the whole machine had while the process was measured
+      const before = previous?.ticks.get(proc.pid);
+      const elapsed = before !== undefined && previous
+        ? stat.all.total - previous.total
+        : (uptimeTicks - proc.startTicks) * stat.cores.length;
+      const share = (ticks: number) => elapsed > 0 ? Math.min((ticks / elapsed) * 100, 100) : 0;
+      const cpu = share(proc.cpuTicks - (before ?? 0));
+      const userShare = proc.cpuTicks > 0 ? proc.userTicks / proc.cpuTicks : 0;
+
+      return {
+        pid: proc.pid,
+        parentPid: proc.parentPid,
+        name: processName(proc.comm, proc.argv),
+        cpu,
+        cpuu: cpu * userShare,
+        cpus: cpu * (1 - userShare),
+        mem: ((proc.rss * 1024) / memTotal) * 100,
+        priority: proc.priority,
+        memVsz: proc.vsz,
+        memRss: proc.rss,
+        nice: proc.nice,
+        threads: proc.numThreads,
+        started: formatStarted((stat.bootTime + proc.startTicks / CLOCK_TICKS) * 1000),
+        state: PROCESS_STATES[proc.state] || 'unknown',
+        tty: '',
+        user: users.get(proc.uid) ?? String(proc.uid),
+        command: proc.argv.length > 0 ? path.basename(proc.argv[0]) : proc.comm,
+        params: proc.argv.slice(1).join(' '),
+        path: proc.argv.length > 0 && proc.argv[0].includes('/') ? path.dirname(proc.argv[0]) : ''
+      };
+    });
+
+    const count = (state: string) => list.filter(proc => proc.state === state).length;
+    return {
+      all: list.length,
+      running: count('running'),
+      blocked: count('blocked'),
+      sleeping: count('sleeping'),
+      unknown: count('unknown'),
+      list
+    };
+  }
+}
@@ -0,0 +1,63 @@
+import type { ProcessInfo, ProcessListDelta, ProcessPage } from '../../shared/protocol';
+
+export type { ProcessListDelta };
+
+type ProcessChange = ProcessListDelta['changed'][number];
+
+// The fields of a row that differ from its previous version. Every row of a
+// page comes from the same query, so both versions carry the same keys.
+const changedFields = (previous: ProcessInfo, next: ProcessInfo): ProcessChange | null => {
+  const change: Record<string, unknown> = { pid: next.pid };
+  let changed = false;
+  (Object.keys(next) as (keyof ProcessInfo)[]).forEach(key => {
+    if (previous[key] !== next[key]) {
+      change[key] = next[key];
+      changed = true;
+    }
+  });
+  return changed ? change as ProcessChange : null;
+};
+
+// What a client holding `previous` needs to build `next`, or null when the
+// two pages are identical. The sequence number is left to the caller.
+export const diffProcessPage = (previous: ProcessPage, next: ProcessPage): Omit<ProcessListDelta, 'seq'> | null => {
+  const before = new Map(previous.processes.map(proc => [proc.pid, proc]));
+  const after = new Set(next.processes.map(proc => proc.pid));
+
+  const removed = previous.processes.filter(proc => !after.has(proc.pid)).map(proc => proc.pid);
+  const added: ProcessInfo[] = [];
+  const changed: ProcessChange[] = [];
+  next.processes.forEach(proc => {
+    const old = before.get(proc.pid);
+    if (!old) {
+      added.push(proc);
+      return;
+    }
+    const change = changedFields(old, proc);
+    if (change) changed.push(change);
+  });
+
+  // The order the client ends up with when none is sent, see ProcessListDelta
+  const implied = [
+    ...previous.processes.filter(proc => after.has(proc.pid)),
+    ...added
+  ];
+  const reordered = implied.some((proc, index) => proc.pid !== next.processes[index].pid);
+
+  if (
+    added.length === 0 && removed.length === 0 && changed.length === 0 && !reordered
+    && previous.total === next.total && previous.offset === next.offset && previous.limit === next.limit
+  ) {
+    return null;
+  }
+
+  return {
+    added,
+    removed,
+    changed,
+    ...(reordered ? { order: next.processes.map(proc => proc.pid) } : {}),
+    total: next.total,
+    offset: next.offset,
+    limit: next.limit
+  };
+};
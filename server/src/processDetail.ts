@@ -0,0 +1,51 @@
+import { promises as fs } from 'fs';
+
+// What a process scan does not include because it is too costly to read for
+// every process on every tick. Each field is null where the platform does not
+// report it or the server is not allowed to inspect the process.
+export interface ProcessDetailData {
+  // The arguments as the process was started with them
+  cmdline: string[] | null;
+  cwd: string | null;
+  // Only the size of the environment, its values may hold secrets
+  environment: { variables: number; bytes: number } | null;
+  threads: number | null;
+}
+
+export const UNKNOWN_DETAIL: ProcessDetailData = { cmdline: null, cwd: null, environment: null, threads: null };
+
+// Null when the read fails, e.g. for another user's process
+const readOrNull = async <T>(read: () => Promise<T>): Promise<T | null> => {
+  try {
+    return await read();
+  } catch (error) {
+    return null;
+  }
+};
+
+// Reads /proc/<pid>. Returns null when the process no longer exists; on other
+// platforms nothing beyond the scan is known.
+export const readProcessDetail = async (pid: number): Promise<ProcessDetailData | null> => {
+  if (process.platform !== 'linux') return UNKNOWN_DETAIL;
+
+  // status is readable for every process, so failing here means it is gone
+  const status = await readOrNull(() => fs.readFile(`/proc/${pid}/status`, 'utf8'));
+  if (status === null) return null;
+  const threads = /^Threads:\s*(\d+)/m.exec(status);
+
+  const [cmdline, cwd, environ] = await Promise.all([
+    readOrNull(() => fs.readFile(`/proc/${pid}/cmdline`)),
+    readOrNull(() => fs.readlink(`/proc/${pid}/cwd`)),
+    readOrNull(() => fs.readFile(`/proc/${pid}/environ`))
+  ]);
+  // Both are NUL-separated with a trailing NUL; kernel threads have no
+  // command line
+  const split = (data: Buffer) => data.toString('utf8').split('\0').slice(0, -1);
+
+  return {
+    cmdline: cmdline && cmdline.length > 0 ? split(cmdline) : null,
+    cwd,
+    environment: environ ? { variables: split(environ).length, bytes: environ.length } : null,
+    threads: threads ? Number(threads[1]) : null
+  };
+};
@@ -0,0 +1,230 @@
+import { RE2JS } from 're2js';
+import type { ProcessFilterField, ProcessInfo } from '../../shared/protocol';
+
+// The filter expression language of ProcessFilter.query. An expression is a
+// list of terms separated by spaces, all of which must match:
+//   user:postgres   the field contains the value (case-insensitive)
+//   state=running   the field equals the value (case-insensitive)
+//   name~^java      the field matches the RE2 regular expression (case-insensitive)
+//   cpu>5 mem>=2%   numeric comparisons: > >= < <= and = (or :)
+//   rss>500M        sizes in bytes, with K, M, G or T for powers of 1024
+//   killable:true   true or false (also yes or no)
+//   -name:chrome    a leading - negates the term
+//   nginx           a bare word matches name, user or PID like the search box
+// Values with spaces are quoted: cmd:"--port 80", with \" for a quote.
+//
+// Regular expressions come from any viewer and run against every process on
+// every tick, so they use RE2's linear-time engine rather than RegExp, which
+// backtracks exponentially on patterns like (.*.*)*X. RE2 has no
+// backreferences or lookaround; those are rejected as syntax errors.
+
+export type ProcessPredicate = (proc: ProcessInfo) => boolean;
+
+// Filters are compiled per client query and run on every process of every tick
+export const MAX_FILTER_LENGTH = 500;
+
+type FieldKind = 'text' | 'number' | 'percent' | 'size' | 'boolean';
+type Operator = ':' | '=' | '~' | '>' | '>=' | '<' | '<=';
+
+interface FieldSpec {
+  kind: FieldKind;
+  // Null where the value is unknown, which matches nothing
+  read: (proc: ProcessInfo) => string | number | boolean | null;
+}
+
+const FIELDS: Record<ProcessFilterField, FieldSpec> = {
+  pid: { kind: 'number', read: proc => proc.pid },
+  ppid: { kind: 'number', read: proc => proc.parentPid },
+  name: { kind: 'text', read: proc => proc.name },
+  user: { kind: 'text', read: proc => proc.user },
+  cmd: { kind: 'text', read: proc => proc.commandLine },
+  state: { kind: 'text', read: proc => proc.state },
+  cpu: { kind: 'percent', read: proc => Number(proc.cpu) },
+  mem: { kind: 'percent', read: proc => Number(proc.memory) },
+  rss: { kind: 'size', read: proc => proc.memRss * 1024 },
+  vsz: { kind: 'size', read: proc => proc.memVsz * 1024 },
+  threads: { kind: 'number', read: proc => proc.threads },
+  nice: { kind: 'number', read: proc => proc.nice },
+  priority: { kind: 'number', read: proc => proc.priority },
+  killable: { kind: 'boolean', read: proc => proc.killable }
+};
+
+// The names the process table uses for the same columns
+const ALIASES: Record<string, ProcessFilterField> = {
+  memory: 'mem',
+  command: 'cmd',
+  parentpid: 'ppid'
+};
+
+const OPERATORS: Record<FieldKind, Operator[]> = {
+  text: [':', '=', '~'],
+  number: [':', '=', '>', '>=', '<', '<='],
+  percent: [':', '=', '>', '>=', '<', '<='],
+  size: [':', '=', '>', '>=', '<', '<='],
+  boolean: [':', '=']
+};
+
+// Field names come from the client, so Object.prototype's must not count
+const has = (record: object, key: string) => Object.prototype.hasOwnProperty.call(record, key);
+
+const SIZE_UNITS: Record<string, number> = { '': 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3, t: 1024 ** 4 };
+
+export class FilterSyntaxError extends Error {
+  constructor(message: string, public readonly start: number, public readonly end: number) {
+    super(message);
+    this.name = 'FilterSyntaxError';
+  }
+}
+
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Reads a value at `start`, quoted or up to the next space
+const readValue = (expression: string, start: number): Token => {
+  if (expression[start] !== '"') {
+    let end = start;
+    while (end < expression.length && !/\s/.test(expression[end])) end += 1;
+    return { text: expression.slice(start, end), start, end };
+  }
+
+  let text = '';
+  let index = start + 1;
+  while (index < expression.length && expression[index] !== '"') {
+    if (expression[index] === '\\' && index + 1 < expression.length) index += 1;
+    text += expression[index];
+    index += 1;
+  }
+  if (index >= expression.length) {
+    throw new FilterSyntaxError('Unterminated quote', start, expression.length);
+  }
+  return { text, start, end: index + 1 };
+};
+
+const parseNumber = (kind: FieldKind, value: Token): number => {
+  const match = kind === 'size'
+    ? /^(-?\d+(?:\.\d+)?)\s*([kmgt]?)(?:i?b)?$/i.exec(value.text)
+    : kind === 'percent'
+      ? /^(-?\d+(?:\.\d+)?)%?$/.exec(value.text)
+      : /^(-?\d+(?:\.\d+)?)$/.exec(value.text);
+  if (!match) {
+    const expected = kind === 'size' ? 'a size like 512M' : kind === 'percent' ? 'a percentage' : 'a number';
+    throw new FilterSyntaxError(`"${value.text}" is not ${expected}`, value.start, value.end);
+  }
+  return Number(match[1]) * (kind === 'size' ? SIZE_UNITS[match[2].toLowerCase()] : 1);
+};
+
+const compileTerm = (field: FieldSpec, operator: Operator, value: Token): ProcessPredicate => {
+  if (field.kind === 'boolean') {
+    const text = value.text.toLowerCase();
+    if (!['true', 'false', 'yes', 'no'].includes(text)) {
+      throw new FilterSyntaxError('Expected true or false', value.start, value.end);
+    }
+    const expected = text === 'true' || text === 'yes';
+    return proc => field.read(proc) === expected;
+  }
+
+  if (field.kind === 'text') {
+    const needle = value.text.toLowerCase();
+    if (operator === '~') {
+      let pattern: RE2JS;
+      try {
+        pattern = RE2JS.compile(value.text, RE2JS.CASE_INSENSITIVE);
+      } catch (error: any) {
+        throw new FilterSyntaxError(error.message, value.start, value.end);
+      }
+      return proc => pattern.test(String(field.read(proc) ?? ''));
+    }
+    return operator === '='
+      ? proc => String(field.read(proc) ?? '').toLowerCase() === needle
+      : proc => String(field.read(proc) ?? '').toLowerCase().includes(needle);
+  }
+
+  const number = parseNumber(field.kind, value);
+  const compare: Record<Exclude<Operator, '~'>, (actual: number) => boolean> = {
+    ':': actual => actual === number,
+    '=': actual => actual === number,
+    '>': actual => actual > number,
+    '>=': actual => actual >= number,
+    '<': actual => actual < number,
+    '<=': actual => actual <= number
+  };
+  const test = compare[operator as Exclude<Operator, '~'>];
+  return proc => {
+    const actual = field.read(proc);
+    return actual !== null && test(Number(actual));
+  };
+};
+
+// A bare word, like the search box: name, user or PID
+const compileSearch = (value: Token): ProcessPredicate => {
+  const needle = value.text.toLowerCase();
+  return proc => proc.name.toLowerCase().includes(needle)
+    || proc.user.toLowerCase().includes(needle)
+    || String(proc.pid).includes(needle);
+};
+
+// Compiles an expression into a predicate. Throws a FilterSyntaxError that
+// points at the offending part of the expression.
+export const parseProcessFilter = (expression: string): ProcessPredicate => {
+  if (expression.length > MAX_FILTER_LENGTH) {
+    throw new FilterSyntaxError(
+      `Filters are limited to ${MAX_FILTER_LENGTH} characters`,
+      MAX_FILTER_LENGTH,
+      expression.length
+    );
+  }
+
+  const terms: ProcessPredicate[] = [];
+  let index = 0;
+  while (index < expression.length) {
+    if (/\s/.test(expression[index])) {
+      index += 1;
+      continue;
+    }
+
+    const negated = expression[index] === '-' && index + 1 < expression.length && !/\s/.test(expression[index + 1]);
+    const termStart = negated ? index + 1 : index;
+    let term: ProcessPredicate;
+
+    const fieldMatch = /^([A-Za-z]+)(>=|<=|[:=~<>])/.exec(expression.slice(termStart));
+    if (fieldMatch) {
+      const [, name, operator] = fieldMatch;
+      const fieldEnd = termStart + name.length;
+      const operatorEnd = fieldEnd + operator.length;
+      const fieldName = (has(ALIASES, name.toLowerCase()) ? ALIASES[name.toLowerCase()] : name.toLowerCase()) as ProcessFilterField;
+      const field = has(FIELDS, fieldName) ? FIELDS[fieldName] : null;
+      if (!field) {
+        throw new FilterSyntaxError(
+          `Unknown field "${name}", expected one of ${Object.keys(FIELDS).join(', ')}`,
+          termStart,
+          fieldEnd
+        );
+      }
+      if (!OPERATORS[field.kind].includes(operator as Operator)) {
+        throw new FilterSyntaxError(
+          `${fieldName} does not support ${operator}, only ${OPERATORS[field.kind].join(' ')}`,
+          fieldEnd,
+          operatorEnd
+        );
+      }
+
+      const value = readValue(expression, operatorEnd);
+      if (value.end === operatorEnd) {
+        throw new FilterSyntaxError(`Missing value after ${name}${operator}`, termStart, operatorEnd);
+      }
+      term = compileTerm(field, operator as Operator, value);
+      index = value.end;
+    } else {
+      const value = readValue(expression, termStart);
+      term = compileSearch(value);
+      index = value.end;
+    }
+
+    terms.push(negated ? proc => !term(proc) : term);
+  }
+
+  return proc => terms.every(term => term(proc));
+};
@@ -0,0 +1,68 @@
+import { Systeminformation } from 'systeminformation';
+import type { ProcessHistory as ProcessHistoryResponse, ProcessSample } from '../../shared/protocol';
+
+// Roughly ten minutes at the default process-list interval
+export const MAX_SAMPLES = 200;
+
+interface Entry {
+  pid: number;
+  name: string;
+  started: string;
+  samples: ProcessSample[];
+}
+
+const keyOf = (pid: number, started: string) => `${pid}:${started}`;
+
+// Rolling per-process resource history built from successive process scans.
+// Entries are keyed on PID plus start time so a reused PID starts a fresh
+// history, and are dropped as soon as the process disappears from a scan.
+export class ProcessHistory {
+  private entries: Map<string, Entry> = new Map();
+  // Latest key for each PID, so lookups by PID alone find the live process
+  private current: Map<number, string> = new Map();
+
+  record(processes: Systeminformation.ProcessesProcessData[], t = Date.now()) {
+    const seen = new Set<string>();
+    const current = new Map<number, string>();
+
+    processes.forEach(proc => {
+      const key = keyOf(proc.pid, proc.started);
+      seen.add(key);
+      current.set(proc.pid, key);
+
+      let entry = this.entries.get(key);
+      if (!entry) {
+        entry = { pid: proc.pid, name: proc.name, started: proc.started, samples: [] };
+        this.entries.set(key, entry);
+      }
+      entry.samples.push({
+        t,
+        cpu: Math.round(proc.cpu * 10) / 10,
+        mem: Math.round(proc.mem * 10) / 10,
+        memRss: proc.memRss,
+        memVsz: proc.memVsz
+      });
+      if (entry.samples.length > MAX_SAMPLES) {
+        entry.samples.shift();
+      }
+    });
+
+    this.entries.forEach((_, key) => {
+      if (!seen.has(key)) this.entries.delete(key);
+    });
+    this.current = current;
+  }
+
+  get(pid: number, started?: string): ProcessHistoryResponse | null {
+    const key = started !== undefined ? keyOf(pid, started) : this.current.get(pid);
+    const entry = key && this.entries.get(key);
+    if (!entry) return null;
+
+    return {
+      pid: entry.pid,
+      name: entry.name,
+      started: entry.started,
+      samples: entry.samples
+    };
+  }
+}
@@ -0,0 +1,29 @@
+import { promises as fs } from 'fs';
+
+export interface IoCounters {
+  // Cumulative bytes the process caused to be read from / written to storage
+  read: number;
+  write: number;
+}
+
+// Per-process storage I/O counters from /proc/<pid>/io. Only Linux reports
+// them, and only for processes the server is allowed to inspect; returns null
+// on other platforms.
+export const readProcessIo = async (pids: Iterable<number>): Promise<Map<number, IoCounters> | null> => {
+  if (process.platform !== 'linux') return null;
+
+  const counters = new Map<number, IoCounters>();
+  await Promise.all(Array.from(pids, async pid => {
+    try {
+      const text = await fs.readFile(`/proc/${pid}/io`, 'utf8');
+      const read = /^read_bytes:\s*(\d+)/m.exec(text);
+      const write = /^write_bytes:\s*(\d+)/m.exec(text);
+      if (read && write) {
+        counters.set(pid, { read: Number(read[1]), write: Number(write[1]) });
+      }
+    } catch (error) {
+      // Exited since the scan, or owned by another user
+    }
+  }));
+  return counters;
+};
@@ -0,0 +1,244 @@
+import type {
+  ProcessFilter,
+  ProcessFilterError,
+  ProcessInfo,
+  ProcessPage,
+  ProcessQuery,
+  ProcessSortKey
+} from '../../shared/protocol';
+import { buildProcessTree } from './processTree';
+import { FilterSyntaxError, ProcessPredicate, parseProcessFilter } from './processFilter';
+
+export type { ProcessFilter, ProcessPage, ProcessQuery };
+
+export const SORT_KEYS: readonly ProcessSortKey[] = [
+  'pid', 'name', 'cpu', 'memory', 'memRss', 'memVsz', 'user', 'state', 'command',
+  'commandLine', 'parentPid', 'threads', 'priority', 'nice', 'started'
+];
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+export const MAX_COLLAPSED = 5000;
+
+export const DEFAULT_PROCESS_QUERY: ProcessQuery = {
+  sort: 'cpu',
+  direction: 'desc',
+  filter: {},
+  limit: DEFAULT_PAGE_SIZE,
+  offset: 0,
+  tree: false,
+  collapsed: []
+};
+
+// Start times sort as strings, their format is year first. Unknown thread
+// counts sort as 0.
+const NUMERIC_KEYS: (keyof ProcessInfo)[] = [
+  'pid', 'parentPid', 'cpu', 'memory', 'memRss', 'memVsz', 'threads', 'priority', 'nice', 'subtreeCpu', 'subtreeMemory'
+];
+const FILTER_FIELDS: ('search' | 'name' | 'user' | 'command' | 'state')[] = ['search', 'name', 'user', 'command', 'state'];
+
+export class ProcessQueryError extends Error {
+  // Set when the error is in filter.query
+  constructor(message: string, public readonly filterError?: ProcessFilterError) {
+    super(message);
+    this.name = 'ProcessQueryError';
+  }
+}
+
+// Compiled filter expressions, as every tick matches every client's filter
+// against the whole list. Cleared when full, clients rarely switch filters.
+const MAX_COMPILED_FILTERS = 200;
+const compiledFilters = new Map<string, ProcessPredicate>();
+
+const compileFilter = (expression: string): ProcessPredicate => {
+  let predicate = compiledFilters.get(expression);
+  if (!predicate) {
+    predicate = parseProcessFilter(expression);
+    if (compiledFilters.size >= MAX_COMPILED_FILTERS) compiledFilters.clear();
+    compiledFilters.set(expression, predicate);
+  }
+  return predicate;
+};
+
+// Validates an untrusted query from a client, filling in defaults
+export const normalizeProcessQuery = (input: unknown): ProcessQuery => {
+  const raw = (typeof input === 'object' && input !== null ? input : {}) as Record<string, any>;
+  const query: ProcessQuery = { ...DEFAULT_PROCESS_QUERY, filter: {}, collapsed: [] };
+
+  if (raw.sort !== undefined) {
+    if (!SORT_KEYS.includes(raw.sort)) {
+      throw new ProcessQueryError(`sort must be one of ${SORT_KEYS.join(', ')}`);
+    }
+    query.sort = raw.sort;
+  }
+  if (raw.direction !== undefined) {
+    if (raw.direction !== 'asc' && raw.direction !== 'desc') {
+      throw new ProcessQueryError('direction must be asc or desc');
+    }
+    query.direction = raw.direction;
+  }
+  if (raw.limit !== undefined) {
+    const limit = Number(raw.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      throw new ProcessQueryError(`limit must be between 1 and ${MAX_PAGE_SIZE}`);
+    }
+    query.limit = limit;
+  }
+  if (raw.offset !== undefined) {
+    const offset = Number(raw.offset);
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new ProcessQueryError('offset must be a non-negative integer');
+    }
+    query.offset = offset;
+  }
+  if (raw.filter !== undefined) {
+    if (typeof raw.filter !== 'object' || raw.filter === null) {
+      throw new ProcessQueryError('filter must be an object');
+    }
+    FILTER_FIELDS.forEach(field => {
+      const value = raw.filter[field];
+      if (value === undefined || value === '') return;
+      if (typeof value !== 'string') {
+        throw new ProcessQueryError(`filter.${field} must be a string`);
+      }
+      query.filter[field] = value.toLowerCase();
+    });
+    const expression = raw.filter.query;
+    if (expression !== undefined && typeof expression !== 'string') {
+      throw new ProcessQueryError('filter.query must be a string');
+    }
+    if (expression !== undefined && expression.trim() !== '') {
+      try {
+        compileFilter(expression);
+      } catch (error) {
+        const { message, start, end } = error as FilterSyntaxError;
+        throw new ProcessQueryError(
+          `filter.query: ${message} (at characters ${start + 1}-${Math.max(end, start + 1)})`,
+          { query: expression, start, end }
+        );
+      }
+      query.filter.query = expression;
+    }
+    if (raw.filter.killable !== undefined) {
+      if (typeof raw.filter.killable !== 'boolean') {
+        throw new ProcessQueryError('filter.killable must be a boolean');
+      }
+      // false means "any", not "only unkillable ones"
+      if (raw.filter.killable) query.filter.killable = true;
+    }
+  }
+  if (raw.tree !== undefined) {
+    if (typeof raw.tree !== 'boolean') {
+      throw new ProcessQueryError('tree must be a boolean');
+    }
+    query.tree = raw.tree;
+  }
+  if (raw.collapsed !== undefined) {
+    if (!Array.isArray(raw.collapsed) || raw.collapsed.length > MAX_COLLAPSED
+      || !raw.collapsed.every((pid: unknown) => Number.isSafeInteger(pid))) {
+      throw new ProcessQueryError(`collapsed must be a list of at most ${MAX_COLLAPSED} PIDs`);
+    }
+    query.collapsed = raw.collapsed;
+  }
+
+  return query;
+};
+
+const includes = (value: string | undefined, needle: string) =>
+  (value || '').toLowerCase().includes(needle);
+
+const matchesFilter = (proc: ProcessInfo, filter: ProcessFilter): boolean => {
+  if (filter.search !== undefined
+    && !includes(proc.name, filter.search)
+    && !includes(proc.user, filter.search)
+    && !String(proc.pid).includes(filter.search)) {
+    return false;
+  }
+  if (filter.name !== undefined && !includes(proc.name, filter.name)) return false;
+  if (filter.user !== undefined && !includes(proc.user, filter.user)) return false;
+  if (filter.command !== undefined && !includes(proc.command, filter.command)) return false;
+  if (filter.state !== undefined && !includes(proc.state, filter.state)) return false;
+  if (filter.killable && !proc.killable) return false;
+  return true;
+};
+
+// The filter as a predicate, with its expression compiled once
+const filterMatcher = (filter: ProcessFilter) => {
+  const expression = filter.query !== undefined ? compileFilter(filter.query) : null;
+  return (proc: ProcessInfo) => matchesFilter(proc, filter) && (!expression || expression(proc));
+};
+
+const hasFilter = (filter: ProcessFilter) =>
+  filter.killable === true || filter.query !== undefined || FILTER_FIELDS.some(field => filter[field] !== undefined);
+
+const comparator = (key: keyof ProcessInfo, direction: ProcessQuery['direction']) => {
+  const factor = direction === 'asc' ? 1 : -1;
+  const numeric = NUMERIC_KEYS.includes(key);
+  return (a: ProcessInfo, b: ProcessInfo) => {
+    const order = numeric
+      ? Number(a[key]) - Number(b[key])
+      : String(a[key] ?? '').localeCompare(String(b[key] ?? ''));
+    // Fall back to PID so pages stay stable between ticks
+    return (order || a.pid - b.pid) * factor;
+  };
+};
+
+// Depth-first rows of the process tree, skipping the descendants of
+// collapsed processes
+const treeRows = (processes: ProcessInfo[], query: ProcessQuery): ProcessInfo[] => {
+  const byPid = new Map(processes.map(proc => [proc.pid, proc]));
+  const tree = buildProcessTree(processes);
+  // Siblings are ordered by their whole subtree's usage
+  const key = query.sort === 'cpu' ? 'subtreeCpu' : query.sort === 'memory' ? 'subtreeMemory' : query.sort;
+  const compare = comparator(key, query.direction);
+  const collapsed = new Set(query.collapsed);
+
+  let visible: Set<number> | null = null;
+  if (hasFilter(query.filter)) {
+    const shown = new Set<number>();
+    const matches = filterMatcher(query.filter);
+    processes.forEach(proc => {
+      if (!matches(proc)) return;
+      let current: ProcessInfo | undefined = proc;
+      while (current && !shown.has(current.pid)) {
+        shown.add(current.pid);
+        current = byPid.get(current.parentPid);
+      }
+    });
+    visible = shown;
+  }
+
+  const rows: ProcessInfo[] = [];
+  const visit = (pids: number[], depth: number) => {
+    pids
+      .filter(pid => !visible || visible.has(pid))
+      .map(pid => byPid.get(pid) as ProcessInfo)
+      .sort(compare)
+      .forEach(proc => {
+        rows.push({ ...proc, depth });
+        if (!collapsed.has(proc.pid)) {
+          visit(tree.children.get(proc.pid) || [], depth + 1);
+        }
+      });
+  };
+  visit(tree.roots, 0);
+  return rows;
+};
+
+// Filters, sorts and pages the full process list for one client
+export const applyProcessQuery = (processes: ProcessInfo[], query: ProcessQuery): ProcessPage => {
+  const { sort, direction, filter, limit, offset } = query;
+
+  const matching: ProcessInfo[] = query.tree
+    ? treeRows(processes, query)
+    : processes
+      .filter(filterMatcher(filter))
+      .sort(comparator(sort, direction));
+
+  return {
+    processes: matching.slice(offset, offset + limit),
+    total: matching.length,
+    offset,
+    limit
+  };
+};
@@ -0,0 +1,65 @@
+export interface ProcessTree {
+  // Direct children of each PID, in scan order
+  children: Map<number, number[]>;
+  // Processes whose parent is not in the scan (PID 1, kernel threads, ...)
+  roots: number[];
+}
+
+// Links every process to its parent. A process is a root when its parent is
+// missing from the scan; anything only reachable through a cycle (PID reuse
+// racing the scan) is promoted to a root so nothing drops out of the tree.
+export const buildProcessTree = (processes: { pid: number; parentPid: number }[]): ProcessTree => {
+  const pids = new Set(processes.map(proc => proc.pid));
+  const children = new Map<number, number[]>();
+  const roots: number[] = [];
+
+  processes.forEach(({ pid, parentPid }) => {
+    if (parentPid === pid || !pids.has(parentPid)) {
+      roots.push(pid);
+      return;
+    }
+    const siblings = children.get(parentPid);
+    if (siblings) {
+      siblings.push(pid);
+    } else {
+      children.set(parentPid, [pid]);
+    }
+  });
+
+  const reached = new Set<number>();
+  const reach = (root: number) => {
+    const stack = [root];
+    while (stack.length > 0) {
+      const pid = stack.pop() as number;
+      if (reached.has(pid)) continue;
+      reached.add(pid);
+      (children.get(pid) || []).forEach(child => stack.push(child));
+    }
+  };
+  roots.forEach(reach);
+
+  processes.forEach(({ pid, parentPid }) => {
+    if (reached.has(pid)) return;
+    // Break the cycle at this process
+    const siblings = children.get(parentPid) || [];
+    siblings.splice(siblings.indexOf(pid), 1);
+    roots.push(pid);
+    reach(pid);
+  });
+
+  return { children, roots };
+};
+
+// Every descendant of a process, deepest first, so that signalling them in
+// order never leaves an orphan to be re-parented before it is reached
+export const descendantsOf = (tree: ProcessTree, pid: number): number[] => {
+  const order: number[] = [];
+  const visit = (parent: number) => {
+    (tree.children.get(parent) || []).forEach(child => {
+      visit(child);
+      order.push(child);
+    });
+  };
+  visit(pid);
+  return order;
+};
@@ -0,0 +1,121 @@
+import type {
+  CollectorBackend,
+  CollectorSource,
+  CollectorStatus,
+  CpuCores,
+  ProcessInfo,
+  SystemInfo
+} from '../../shared/protocol';
+
+// Every label value is one series; per-process series are only exported for
+// names on the allow-list, and the list itself is capped
+export const MAX_PROCESS_NAMES = 50;
+
+export interface MetricsSnapshot {
+  backend: CollectorBackend;
+  collectors: Partial<Record<CollectorSource, CollectorStatus>>;
+  systemInfo: SystemInfo | null;
+  cpuCores: CpuCores | null;
+  processes: ProcessInfo[] | null;
+  // Allow-list of process names exported per name
+  processNames: readonly string[];
+}
+
+// Parses METRICS_PROCESS_NAMES: comma-separated exact process names
+export const parseProcessNames = (value: string | undefined): string[] => {
+  const names = Array.from(new Set((value || '').split(',').map(name => name.trim()).filter(Boolean)));
+  if (names.length > MAX_PROCESS_NAMES) {
+    console.warn(`METRICS_PROCESS_NAMES lists ${names.length} names, only the first ${MAX_PROCESS_NAMES} are exported`);
+    return names.slice(0, MAX_PROCESS_NAMES);
+  }
+  return names;
+};
+
+const escapeLabel = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+// Collects the samples of one metric family and renders them with their
+// HELP and TYPE lines
+class Family {
+  private samples: string[] = [];
+
+  constructor(private name: string, private help: string) {}
+
+  add(value: number, labels: Record<string, string> = {}) {
+    if (!Number.isFinite(value)) return;
+    const pairs = Object.entries(labels).map(([key, label]) => `${key}="${escapeLabel(label)}"`);
+    this.samples.push(`${this.name}${pairs.length ? `{${pairs.join(',')}}` : ''} ${value}`);
+  }
+
+  render(): string {
+    if (this.samples.length === 0) return '';
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`, ...this.samples].join('\n') + '\n';
+  }
+}
+
+// Renders the latest samples in the Prometheus text exposition format
+// (version 0.0.4). Everything is a gauge, taken from the same samples the
+// dashboard shows; families without data yet are left out.
+export const formatMetrics = (snapshot: MetricsSnapshot): string => {
+  const info = new Family('procmon_info', 'Collector backend the monitor samples with');
+  info.add(1, { backend: snapshot.backend });
+
+  const collectorUp = new Family('procmon_collector_up', 'Whether the last sample of a source succeeded (1) or failed (0)');
+  Object.entries(snapshot.collectors).forEach(([source, status]) => {
+    if (status) collectorUp.add(status.state === 'failed' ? 0 : 1, { source });
+  });
+
+  const cpu = new Family('procmon_cpu_usage_percent', 'Overall CPU load in percent');
+  const cpuTemperature = new Family('procmon_cpu_temperature_celsius', 'CPU package temperature');
+  const load = new Family('procmon_load_average', 'System load average');
+  const memoryTotal = new Family('procmon_memory_total_bytes', 'Total memory');
+  const memoryUsed = new Family('procmon_memory_used_bytes', 'Used memory');
+  const memoryPercent = new Family('procmon_memory_usage_percent', 'Used memory in percent');
+  const { systemInfo } = snapshot;
+  if (systemInfo) {
+    cpu.add(Number(systemInfo.cpu.load));
+    if (systemInfo.cpu.temperature !== null) cpuTemperature.add(systemInfo.cpu.temperature);
+    if (systemInfo.cpu.loadAverage) {
+      const [one, five, fifteen] = systemInfo.cpu.loadAverage;
+      load.add(one, { period: '1m' });
+      load.add(five, { period: '5m' });
+      load.add(fifteen, { period: '15m' });
+    }
+    memoryTotal.add(systemInfo.memory.total);
+    memoryUsed.add(systemInfo.memory.used);
+    memoryPercent.add(Number(systemInfo.memory.usedPercent));
+  }
+
+  const coreLoad = new Family('procmon_cpu_core_usage_percent', 'Load of one logical core in percent');
+  snapshot.cpuCores?.cores.forEach((core, index) => coreLoad.add(Number(core.load), { core: String(index) }));
+
+  // Summed over every process of the name, so restarts and worker pools do
+  // not create new series
+  const processCount = new Family('procmon_process_count', 'Running processes with this name');
+  const processCpu = new Family('procmon_process_cpu_percent', 'CPU of all processes with this name, percent of the machine');
+  const processMemory = new Family('procmon_process_memory_percent', 'Memory of all processes with this name in percent');
+  const processRss = new Family('procmon_process_resident_bytes', 'Resident memory of all processes with this name');
+  if (snapshot.processes) {
+    const totals = new Map(snapshot.processNames.map(name => [name, { count: 0, cpu: 0, memory: 0, rss: 0 }]));
+    snapshot.processes.forEach(proc => {
+      const total = totals.get(proc.name);
+      if (!total) return;
+      total.count += 1;
+      total.cpu += Number(proc.cpu);
+      total.memory += Number(proc.memory);
+      // systeminformation reports RSS in KB
+      total.rss += proc.memRss * 1024;
+    });
+    totals.forEach((total, name) => {
+      processCount.add(total.count, { name });
+      processCpu.add(Math.round(total.cpu * 10) / 10, { name });
+      processMemory.add(Math.round(total.memory * 10) / 10, { name });
+      processRss.add(total.rss, { name });
+    });
+  }
+
+  return [
+    info, collectorUp, cpu, coreLoad, cpuTemperature, load, memoryTotal, memoryUsed, memoryPercent,
+    processCount, processCpu, processMemory, processRss
+  ].map(family => family.render()).join('');
+};
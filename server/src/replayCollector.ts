@@ -0,0 +1,131 @@
+import fs from 'fs';
+import type { IoCounters } from './processIo';
+import { UNKNOWN_DETAIL } from './processDetail';
+import type { CollectorMethod, CollectorResult, MetricsCollector } from './metricsCollector';
+
+// Recordings are JSON lines, one per collector call, in the order the calls
+// were made: { "method": "currentLoad", "time": <epoch ms>, "result": ... }.
+// processIo results are Maps and stored as their [pid, counters] entries.
+interface RecordedCall {
+  method: CollectorMethod;
+  time: number;
+  result: unknown;
+}
+
+const COLLECTOR_METHODS: readonly CollectorMethod[] = [
+  'currentLoad', 'mem', 'cpu', 'cpuCurrentSpeed', 'cpuTemperature', 'coreMaxSpeeds', 'loadAverage',
+  'processes', 'processIo', 'fsSize', 'disksIO', 'fsStats', 'networkStats', 'networkConnections'
+];
+
+// Wraps another collector and appends every result it returns to a recording
+// that ReplayCollector can play back
+export class RecordingCollector implements MetricsCollector {
+  private stream: fs.WriteStream;
+
+  constructor(private collector: MetricsCollector, file: string) {
+    this.stream = fs.createWriteStream(file, { flags: 'a' });
+    this.stream.on('error', error => console.error('Error writing collector recording:', error));
+  }
+
+  private write(method: CollectorMethod, result: unknown) {
+    const stored = result instanceof Map ? Array.from(result.entries()) : result;
+    this.stream.write(JSON.stringify({ method, time: Date.now(), result: stored }) + '\n');
+  }
+
+  private async record<M extends CollectorMethod>(method: M, call: Promise<CollectorResult<M>>): Promise<CollectorResult<M>> {
+    const result = await call;
+    this.write(method, result);
+    return result;
+  }
+
+  currentLoad() { return this.record('currentLoad', this.collector.currentLoad()); }
+  mem() { return this.record('mem', this.collector.mem()); }
+  cpu() { return this.record('cpu', this.collector.cpu()); }
+  cpuCurrentSpeed() { return this.record('cpuCurrentSpeed', this.collector.cpuCurrentSpeed()); }
+  cpuTemperature() { return this.record('cpuTemperature', this.collector.cpuTemperature()); }
+  coreMaxSpeeds(count: number) { return this.record('coreMaxSpeeds', this.collector.coreMaxSpeeds(count)); }
+  processes() { return this.record('processes', this.collector.processes()); }
+  processIo(pids: Iterable<number>) { return this.record('processIo', this.collector.processIo(pids)); }
+  fsSize() { return this.record('fsSize', this.collector.fsSize()); }
+  disksIO() { return this.record('disksIO', this.collector.disksIO()); }
+  fsStats() { return this.record('fsStats', this.collector.fsStats()); }
+  networkStats() { return this.record('networkStats', this.collector.networkStats()); }
+  networkConnections() { return this.record('networkConnections', this.collector.networkConnections()); }
+
+  // Read per PID on request, so there is no order to play it back in
+  processDetail(pid: number) { return this.collector.processDetail(pid); }
+
+  loadAverage() {
+    const result = this.collector.loadAverage();
+    this.write('loadAverage', result);
+    return result;
+  }
+}
+
+// Plays back a recording made with RecordingCollector (RECORD_FILE). Every
+// method returns its recorded results in order and starts over after the
+// last one, so the same recording always produces the same samples, whatever
+// the host. Methods missing from the recording fail, which the sampler
+// reports like any other collector failure.
+export class ReplayCollector implements MetricsCollector {
+  private positions = new Map<CollectorMethod, number>();
+
+  private constructor(private calls: Map<CollectorMethod, unknown[]>) {}
+
+  static fromFile(file: string): ReplayCollector {
+    const calls = new Map<CollectorMethod, unknown[]>();
+    fs.readFileSync(file, 'utf8').split('\n').forEach((line, index) => {
+      if (!line.trim()) return;
+      let call: RecordedCall;
+      try {
+        call = JSON.parse(line);
+      } catch (error) {
+        throw new Error(`${file}:${index + 1} is not valid JSON`);
+      }
+      if (!COLLECTOR_METHODS.includes(call.method)) {
+        throw new Error(`${file}:${index + 1} records unknown method ${String(call.method)}`);
+      }
+      const result = call.method === 'processIo' && Array.isArray(call.result)
+        ? new Map<number, IoCounters>(call.result)
+        : call.result;
+      calls.set(call.method, [...(calls.get(call.method) || []), result]);
+    });
+    if (calls.size === 0) {
+      throw new Error(`${file} holds no recorded calls`);
+    }
+    return new ReplayCollector(calls);
+  }
+
+  private next<M extends CollectorMethod>(method: M): CollectorResult<M> {
+    const results = this.calls.get(method);
+    if (!results) {
+      throw new Error(`The recording has no ${method} results`);
+    }
+    const position = this.positions.get(method) ?? 0;
+    this.positions.set(method, (position + 1) % results.length);
+    return results[position] as CollectorResult<M>;
+  }
+
+  async currentLoad() { return this.next('currentLoad'); }
+  async mem() { return this.next('mem'); }
+  async cpu() { return this.next('cpu'); }
+  async cpuCurrentSpeed() { return this.next('cpuCurrentSpeed'); }
+  async cpuTemperature() { return this.next('cpuTemperature'); }
+  async coreMaxSpeeds() { return this.next('coreMaxSpeeds'); }
+  async processes() { return this.next('processes'); }
+  async processIo() { return this.next('processIo'); }
+  async fsSize() { return this.next('fsSize'); }
+  async disksIO() { return this.next('disksIO'); }
+  async fsStats() { return this.next('fsStats'); }
+  async networkStats() { return this.next('networkStats'); }
+  async networkConnections() { return this.next('networkConnections'); }
+
+  // Never recorded, the replayed processes are only known from their scans
+  async processDetail() { return UNKNOWN_DETAIL; }
+
+  // Synchronous, so a missing recording means no load average rather than a
+  // failed sample
+  loadAverage() {
+    return this.calls.has('loadAverage') ? this.next('loadAverage') : null;
+  }
+}
@@ -0,0 +1,211 @@
+import express, { NextFunction, Request, Response } from 'express';
+import type { CollectorStatusReport, KillErrorCode, KillResponse, ProcessInfo, ProcessQuery } from '../../shared/protocol';
+import { AuthUser, Authenticator, requireRole } from './auth';
+import type { AuditEntry } from './auditLog';
+import type { Sampler } from './sampler';
+import { parseStarted } from './metricsCollector';
+import { ProcessQueryError, applyProcessQuery, normalizeProcessQuery } from './processQuery';
+import { openApiDocument } from './openapi';
+
+// Versioned REST API for scripts and CI jobs, served under /api/v1 and
+// described by /api/v1/openapi.json. It answers from the same sampler as the
+// socket and signals processes through the same checks.
+
+// Every error response is { error: <message>, code: <one of these> }
+export type RestErrorCode =
+  | 'INVALID_REQUEST'  // malformed JSON, unknown or invalid parameters
+  | 'UNAUTHORIZED'     // no or an invalid bearer token
+  | 'NOT_FOUND'        // no such endpoint
+  | 'NOT_SAMPLED'      // the collector has not produced this sample (yet)
+  | 'INTERNAL'         // anything unexpected, see the server log
+  | KillErrorCode;
+
+const KILL_ERROR_STATUS: Record<KillErrorCode, number> = {
+  FORBIDDEN: 403,
+  INVALID_PID: 400,
+  UNKNOWN_PID: 404,
+  PROTECTED_PID: 403,
+  INVALID_SIGNAL: 400,
+  UNSUPPORTED_SIGNAL: 400,
+  NO_SUCH_PROCESS: 404,
+  PERMISSION_DENIED: 403,
+  DEMO_MODE: 409,
+  SIGNAL_FAILED: 500
+};
+
+export class RestApiError extends Error {
+  constructor(public readonly status: number, public readonly code: RestErrorCode, message: string) {
+    super(message);
+    this.name = 'RestApiError';
+  }
+}
+
+export interface RestApiOptions {
+  authenticator: Authenticator | null;
+  sampler: Sampler;
+  collectorStatus: () => CollectorStatusReport;
+  // Validates, signals and audits like the kill-process event
+  controlProcess: (user: AuthUser, payload: unknown, source: AuditEntry['source']) => Promise<KillResponse>;
+}
+
+const PROCESS_FILTER_PARAMS = ['search', 'name', 'user', 'command', 'state', 'killable', 'query'];
+const PROCESS_PARAMS = ['sort', 'direction', 'limit', 'offset', 'tree', ...PROCESS_FILTER_PARAMS];
+const SIGNAL_FIELDS = ['signal', 'gracePeriod', 'tree'];
+
+const invalid = (message: string) => new RestApiError(400, 'INVALID_REQUEST', message);
+
+const parseBoolean = (name: string, value: string): boolean => {
+  if (value !== 'true' && value !== 'false') {
+    throw invalid(`${name} must be true or false`);
+  }
+  return value === 'true';
+};
+
+const parsePid = (value: string): number | null => {
+  const pid = /^\d+$/.test(value) ? Number(value) : NaN;
+  return Number.isSafeInteger(pid) && pid > 0 ? pid : null;
+};
+
+// Query strings only carry strings, so they are converted into the query
+// object the socket's subscribe-processes takes and validated the same way
+const processQueryFromParams = (params: Request['query']): ProcessQuery => {
+  const raw: Record<string, unknown> = {};
+  const filter: Record<string, unknown> = {};
+  Object.entries(params).forEach(([name, value]) => {
+    if (!PROCESS_PARAMS.includes(name)) {
+      throw invalid(`Unknown parameter ${name}, expected ${PROCESS_PARAMS.join(', ')}`);
+    }
+    if (typeof value !== 'string') {
+      throw invalid(`${name} must be given once`);
+    }
+    const parsed = name === 'tree' || name === 'killable' ? parseBoolean(name, value) : value;
+    if (PROCESS_FILTER_PARAMS.includes(name)) {
+      filter[name] = parsed;
+    } else {
+      raw[name] = parsed;
+    }
+  });
+
+  try {
+    return normalizeProcessQuery({ ...raw, filter });
+  } catch (error) {
+    throw invalid((error as ProcessQueryError).message);
+  }
+};
+
+// Express 4 does not catch rejected promises itself
+const asyncRoute = (route: (req: Request, res: Response) => Promise<void>) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    route(req, res).catch(next);
+  };
+
+export const createRestApi = ({ authenticator, sampler, collectorStatus, controlProcess }: RestApiOptions) => {
+  const router = express.Router();
+  const viewer = requireRole(authenticator, 'viewer');
+
+  const notSampled = (source: 'system' | 'processes') => {
+    const status = sampler.collectorStatus[source];
+    const reason = status?.state === 'failed' && status.reason ? `: ${status.reason}` : '';
+    return new RestApiError(503, 'NOT_SAMPLED', `No ${source} sample is available yet${reason}`);
+  };
+
+  const latestProcesses = (): ProcessInfo[] => {
+    const processes = sampler.latestProcessList;
+    if (!processes) throw notSampled('processes');
+    return processes;
+  };
+
+  router.get('/openapi.json', (req, res) => {
+    res.json(openApiDocument);
+  });
+
+  // The system-info and cpu-cores streams in one response
+  router.get('/system', viewer, (req, res) => {
+    const system = sampler.latestSystemInfo;
+    if (!system) throw notSampled('system');
+    res.json({
+      system,
+      cores: sampler.latestCpuCores?.cores ?? null,
+      collectors: collectorStatus()
+    });
+  });
+
+  // One page of the process list, with the socket's sort, filter and paging
+  router.get('/processes', viewer, (req, res) => {
+    const query = processQueryFromParams(req.query);
+    res.json(applyProcessQuery(latestProcesses(), query));
+  });
+
+  // A process from the latest scan plus what is read for it on request
+  router.get('/processes/:pid', viewer, asyncRoute(async (req, res) => {
+    const pid = parsePid(req.params.pid);
+    if (pid === null) {
+      throw new RestApiError(400, 'INVALID_PID', `Invalid PID: ${req.params.pid}`);
+    }
+    const proc = latestProcesses().find(candidate => candidate.pid === pid);
+    if (!proc) {
+      throw new RestApiError(404, 'UNKNOWN_PID', `Process ${pid} is not in the current process list`);
+    }
+    const detail = await sampler.processDetail(pid);
+    if (!detail) {
+      throw new RestApiError(404, 'NO_SUCH_PROCESS', `Process ${pid} no longer exists`);
+    }
+    res.json({ ...proc, ...detail, startTime: parseStarted(proc.started) });
+  }));
+
+  // Same body as the kill-process event minus the PID. Viewers get through
+  // to controlProcess so that their attempts are audited like on the socket.
+  router.post('/processes/:pid/signal', viewer, asyncRoute(async (req, res) => {
+    const body = req.body === undefined ? {} : req.body;
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      throw invalid('The body must be a JSON object');
+    }
+    const unknown = Object.keys(body).find(field => !SIGNAL_FIELDS.includes(field));
+    if (unknown !== undefined) {
+      throw invalid(`Unknown field ${unknown}, expected ${SIGNAL_FIELDS.join(', ')}`);
+    }
+    if (body.gracePeriod !== undefined
+      && (typeof body.gracePeriod !== 'number' || !Number.isFinite(body.gracePeriod) || body.gracePeriod < 0)) {
+      throw invalid('gracePeriod must be a non-negative number of milliseconds');
+    }
+    if (body.tree !== undefined && typeof body.tree !== 'boolean') {
+      throw invalid('tree must be a boolean');
+    }
+
+    const user: AuthUser = res.locals.user;
+    const pid = parsePid(req.params.pid);
+    const result = await controlProcess(user, { ...body, pid: pid ?? req.params.pid }, { ip: req.ip });
+    if (result.success) {
+      res.json(result);
+      return;
+    }
+    const code = result.code || 'SIGNAL_FAILED';
+    res.status(KILL_ERROR_STATUS[code]).json({ ...result, error: result.message, code });
+  }));
+
+  router.use((req, res) => {
+    res.status(404).json({ error: `No endpoint ${req.method} ${req.baseUrl}${req.path}`, code: 'NOT_FOUND' });
+  });
+
+  return router;
+};
+
+// Mounted on the app rather than the router so that it also sees the JSON
+// body parser's errors
+export const restApiErrorHandler = (error: any, req: Request, res: Response, next: NextFunction) => {
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+  if (error instanceof RestApiError) {
+    res.status(error.status).json({ error: error.message, code: error.code });
+    return;
+  }
+  // body-parser marks its errors with a type and a client status
+  if (error && error.type && error.status >= 400 && error.status < 500) {
+    res.status(error.status).json({ error: `Invalid request body: ${error.message}`, code: 'INVALID_REQUEST' });
+    return;
+  }
+  console.error('Error handling API request:', error);
+  res.status(500).json({ error: 'Internal server error', code: 'INTERNAL' });
+};
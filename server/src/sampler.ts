@@ -0,0 +1,536 @@
+import { EventEmitter } from 'events';
+import path from 'path';
+import { Systeminformation } from 'systeminformation';
+import type {
+  CollectorSource,
+  CollectorStatus,
+  CpuCores,
+  DiskInfo,
+  NetworkConnection,
+  NetworkInfo,
+  ProcessInfo,
+  ProcessIo,
+  SystemInfo
+} from '../../shared/protocol';
+import { ProcessTree, buildProcessTree } from './processTree';
+import { isKillable } from './signals';
+import { IoCounters } from './processIo';
+import type { ProcessDetailData } from './processDetail';
+import { celsius, ghz } from './cpuInfo';
+import type { MetricsCollector } from './metricsCollector';
+import { systeminformationCollector } from './systeminformationCollector';
+
+// The slowest the sources are ever sampled, history and alerts rely on it
+export const SYSTEM_INFO_INTERVAL = 2000;
+export const PROCESS_LIST_INTERVAL = 3000;
+export const DISK_INFO_INTERVAL = 5000;
+export const NETWORK_INFO_INTERVAL = 5000;
+
+// Processes listed in DiskInfo.topProcesses
+const TOP_IO_PROCESSES = 5;
+
+// Connections listed in NetworkInfo, a busy server can have tens of thousands
+const MAX_CONNECTIONS = 2000;
+
+// Reading the sensors shells out on Linux, so temperatures are refreshed less
+// often than the load
+const TEMPERATURE_INTERVAL = 10000;
+
+// What does not change while the server runs
+interface CpuModel {
+  manufacturer: string;
+  brand: string;
+  cores: number;
+  physicalCores: number;
+  speedMax: number | null;
+  coreSpeedMax: (number | null)[];
+}
+
+export interface SamplingIntervals {
+  systemInfo: number;
+  processList: number;
+  diskInfo: number;
+  networkInfo: number;
+}
+
+// Cumulative counters of one disk sample, rates are computed between two
+interface DiskCounters {
+  time: number;
+  readBytes: number;
+  writeBytes: number;
+  readOps: number;
+  writeOps: number;
+}
+
+// Per second between two readings of a cumulative counter. Counters that went
+// backwards (device removed, wrapped) count as idle.
+const rate = (current: number, previous: number, seconds: number): number =>
+  Math.max(0, current - previous) / seconds;
+
+// Awaits a part of a sample that may fail without failing the whole sample:
+// the failure is added to `problems` and `fallback` is used in its place
+const optional = async <T>(label: string, task: Promise<T>, fallback: T, problems: string[]): Promise<T> => {
+  try {
+    return await task;
+  } catch (error: any) {
+    problems.push(`${label}: ${error?.message ?? String(error)}`);
+    return fallback;
+  }
+};
+
+// Samples the system on a schedule shared by all clients, independent of how
+// many are connected; setIntervals() speeds it up for the fastest subscriber.
+// The latest result of each source is cached so new clients can be served
+// immediately, and every fresh sample is emitted for broadcasting:
+//   'system-info'      (snapshot: SystemInfo)
+//   'cpu-cores'        (snapshot: CpuCores, taken with the system info)
+//   'disk-info'        (snapshot: DiskInfo)
+//   'network-info'     (snapshot: NetworkInfo)
+//   'process-list'     (snapshot: every process, formatted, busiest first)
+//   'process-scan'     (processes: every process from the scan, unformatted)
+//   'collector-status' (status: every source's CollectorStatus, when one
+//                       changes state or reason)
+// A failed sample is never papered over: the previous one stays cached and
+// the source is reported as failed until it works again.
+export class Sampler extends EventEmitter {
+  private systemInfo: SystemInfo | null = null;
+  private cpuCores: CpuCores | null = null;
+  private cpuModel: CpuModel | null = null;
+  private temperature: { time: number; data: Systeminformation.CpuTemperatureData } | null = null;
+  private diskInfo: DiskInfo | null = null;
+  private diskCounters: DiskCounters | null = null;
+  private processIo: { time: number; counters: Map<number, IoCounters> } | null = null;
+  private networkInfo: NetworkInfo | null = null;
+  private networkCounters: { time: number; bytes: Map<string, { rx: number; tx: number }> } | null = null;
+  private connections: NetworkConnection[] = [];
+  private processList: ProcessInfo[] | null = null;
+  private pids: Set<number> = new Set();
+  private processIndex: Map<number, Systeminformation.ProcessesProcessData> = new Map();
+  private tree: ProcessTree = { children: new Map(), roots: [] };
+  private status: Partial<Record<CollectorSource, CollectorStatus>> = {};
+  private timers: NodeJS.Timeout[] = [];
+  private running = false;
+  private intervals: SamplingIntervals = {
+    systemInfo: SYSTEM_INFO_INTERVAL,
+    processList: PROCESS_LIST_INTERVAL,
+    diskInfo: DISK_INFO_INTERVAL,
+    networkInfo: NETWORK_INFO_INTERVAL
+  };
+
+  constructor(private collector: MetricsCollector = systeminformationCollector) {
+    super();
+  }
+
+  get latestSystemInfo(): SystemInfo | null {
+    return this.systemInfo;
+  }
+
+  get latestCpuCores(): CpuCores | null {
+    return this.cpuCores;
+  }
+
+  get latestDiskInfo(): DiskInfo | null {
+    return this.diskInfo;
+  }
+
+  get latestNetworkInfo(): NetworkInfo | null {
+    return this.networkInfo;
+  }
+
+  // Every listening socket and established connection of a process in the
+  // latest network sample, including those cut from NetworkInfo
+  connectionsOf(pid: number): NetworkConnection[] {
+    return this.connections.filter(conn => conn.pid === pid);
+  }
+
+  get collectorStatus(): Partial<Record<CollectorSource, CollectorStatus>> {
+    return this.status;
+  }
+
+  get samplingIntervals(): SamplingIntervals {
+    return this.intervals;
+  }
+
+  get latestProcessList(): ProcessInfo[] | null {
+    return this.processList;
+  }
+
+  // Every PID seen in the latest scan
+  get knownPids(): ReadonlySet<number> {
+    return this.pids;
+  }
+
+  // Parent/child structure of the latest scan
+  get processTree(): ProcessTree {
+    return this.tree;
+  }
+
+  // Full details of a process from the latest scan
+  getProcess(pid: number): Systeminformation.ProcessesProcessData | undefined {
+    return this.processIndex.get(pid);
+  }
+
+  // Details not part of a scan, read on request through the same collector
+  processDetail(pid: number): Promise<ProcessDetailData | null> {
+    return this.collector.processDetail(pid);
+  }
+
+  start() {
+    if (this.running) return;
+    this.running = true;
+    this.loop(() => this.sampleSystemInfo(), () => this.intervals.systemInfo);
+    this.loop(() => this.sampleProcessList(), () => this.intervals.processList);
+    this.loop(() => this.sampleDiskInfo(), () => this.intervals.diskInfo);
+    this.loop(() => this.sampleNetworkInfo(), () => this.intervals.networkInfo);
+  }
+
+  // Takes effect from the next scheduled run
+  setIntervals(intervals: SamplingIntervals) {
+    this.intervals = { ...intervals };
+  }
+
+  stop() {
+    this.running = false;
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers = [];
+  }
+
+  // Runs a sampling task, then schedules the next run once it has finished so
+  // that a slow scan never overlaps with the following one.
+  private loop(task: () => Promise<void>, interval: () => number) {
+    const run = async () => {
+      await task();
+      if (!this.running) return;
+      const timer = setTimeout(() => {
+        this.timers = this.timers.filter(t => t !== timer);
+        run();
+      }, interval());
+      this.timers.push(timer);
+    };
+    run();
+  }
+
+  // Records the outcome of a sampling run. Clients are only told about changes
+  // of state or reason, the timestamps alone do not warrant an update.
+  private setStatus(source: CollectorSource, outcome: { problems: string[] } | { error: unknown }) {
+    const now = new Date().toISOString();
+    const previous = this.status[source];
+    let next: CollectorStatus;
+    if ('error' in outcome) {
+      const { error } = outcome;
+      next = {
+        state: 'failed',
+        reason: error instanceof Error ? error.message : String(error),
+        lastSuccess: previous ? previous.lastSuccess : null,
+        lastAttempt: now
+      };
+    } else {
+      next = {
+        state: outcome.problems.length > 0 ? 'degraded' : 'ok',
+        reason: outcome.problems.length > 0 ? outcome.problems.join('; ') : null,
+        lastSuccess: now,
+        lastAttempt: now
+      };
+    }
+
+    this.status = { ...this.status, [source]: next };
+    if (!previous || previous.state !== next.state || previous.reason !== next.reason) {
+      if (next.state !== 'ok') {
+        console.warn(`Collector ${source} is ${next.state}: ${next.reason}`);
+      } else if (previous) {
+        console.log(`Collector ${source} recovered`);
+      }
+      this.emit('collector-status', this.status);
+    }
+  }
+
+  private async loadCpuModel(): Promise<CpuModel> {
+    if (!this.cpuModel) {
+      const cpu = await this.collector.cpu();
+      this.cpuModel = {
+        manufacturer: cpu.manufacturer,
+        brand: cpu.brand,
+        cores: cpu.cores,
+        physicalCores: cpu.physicalCores,
+        speedMax: ghz(cpu.speedMax),
+        coreSpeedMax: await this.collector.coreMaxSpeeds(cpu.cores)
+      };
+    }
+    return this.cpuModel;
+  }
+
+  private async readTemperature(): Promise<Systeminformation.CpuTemperatureData> {
+    const now = Date.now();
+    if (!this.temperature || now - this.temperature.time >= TEMPERATURE_INTERVAL) {
+      this.temperature = { time: now, data: await this.collector.cpuTemperature() };
+    }
+    return this.temperature.data;
+  }
+
+  private async sampleSystemInfo() {
+    try {
+      // Load and memory are the sample, the rest only adds detail
+      const problems: string[] = [];
+      const [cpuData, memData, speed, temperature, model] = await Promise.all([
+        this.collector.currentLoad(),
+        this.collector.mem(),
+        optional('CPU frequency', this.collector.cpuCurrentSpeed(), null, problems),
+        optional('CPU temperature', this.readTemperature(), null, problems),
+        optional('CPU model', this.loadCpuModel(), null, problems)
+      ]);
+      // systeminformation reports some failures as empty results
+      if (cpuData.cpus.length === 0 || !(memData.total > 0)) {
+        throw new Error('CPU load or memory totals came back empty');
+      }
+
+      // Sensors are usually per physical core, they only belong to a logical
+      // core when the counts match
+      const coreTemperatures = temperature && temperature.cores && temperature.cores.length === cpuData.cpus.length
+        ? temperature.cores
+        : [];
+      const coreSpeedMax = model ? model.coreSpeedMax : [];
+
+      const timestamp = new Date().toISOString();
+      this.systemInfo = {
+        cpu: {
+          load: cpuData.currentLoad.toFixed(1),
+          manufacturer: model ? model.manufacturer : '',
+          brand: model ? model.brand : '',
+          cores: model ? model.cores : cpuData.cpus.length,
+          physicalCores: model ? model.physicalCores : cpuData.cpus.length,
+          speed: speed ? ghz(speed.avg) : null,
+          // Some platforms only report the maximum per core
+          speedMax: model?.speedMax ?? ghz(Math.max(0, ...coreSpeedMax.map(max => max ?? 0))),
+          temperature: temperature ? celsius(temperature.main) ?? celsius(temperature.max) : null,
+          loadAverage: this.collector.loadAverage()
+        },
+        memory: {
+          total: memData.total,
+          used: memData.used,
+          free: memData.free,
+          usedPercent: ((memData.used / memData.total) * 100).toFixed(1)
+        },
+        timestamp
+      };
+      this.cpuCores = {
+        cores: cpuData.cpus.map((core, index) => ({
+          load: core.load.toFixed(1),
+          speed: speed ? ghz((speed.cores || [])[index]) : null,
+          speedMax: coreSpeedMax[index] ?? model?.speedMax ?? null,
+          temperature: celsius(coreTemperatures[index])
+        })),
+        timestamp
+      };
+      this.emit('system-info', this.systemInfo);
+      this.emit('cpu-cores', this.cpuCores);
+      this.setStatus('system', { problems });
+    } catch (error) {
+      console.error('Error fetching system info:', error);
+      this.setStatus('system', { error });
+    }
+  }
+
+  private async sampleProcessList() {
+    try {
+      const processes = await this.collector.processes();
+      // An empty list is how systeminformation reports a failed scan
+      if (processes.list.length === 0) {
+        throw new Error('The process scan returned no processes');
+      }
+      this.pids = new Set(processes.list.map(proc => proc.pid));
+      this.processIndex = new Map(processes.list.map(proc => [proc.pid, proc]));
+      this.tree = buildProcessTree(processes.list);
+      this.emit('process-scan', processes.list);
+
+      // Sum CPU and memory bottom-up so every process carries its subtree's usage
+      const subtree = new Map<number, { cpu: number; mem: number }>();
+      const total = (pid: number) => {
+        const own = this.processIndex.get(pid);
+        const sum = { cpu: own ? own.cpu : 0, mem: own ? own.mem : 0 };
+        (this.tree.children.get(pid) || []).forEach(child => {
+          const usage = total(child);
+          sum.cpu += usage.cpu;
+          sum.mem += usage.mem;
+        });
+        subtree.set(pid, sum);
+        return sum;
+      };
+      this.tree.roots.forEach(total);
+
+      // Keep the whole list, clients page through it with their own query.
+      // Sorted as a copy: the collector may hand the same array out again.
+      this.processList = [...processes.list]
+        .sort((a, b) => b.cpu - a.cpu)
+        .map(proc => ({
+          pid: proc.pid,
+          parentPid: proc.parentPid,
+          childCount: (this.tree.children.get(proc.pid) || []).length,
+          name: proc.name,
+          cpu: proc.cpu.toFixed(1),
+          memory: proc.mem.toFixed(1),
+          memVsz: proc.memVsz,
+          memRss: proc.memRss,
+          command: proc.command,
+          commandLine: [proc.path ? path.join(proc.path, proc.command) : proc.command, proc.params]
+            .filter(part => part)
+            .join(' '),
+          user: proc.user,
+          state: proc.state,
+          started: proc.started,
+          threads: proc.threads ?? null,
+          priority: proc.priority,
+          nice: proc.nice,
+          killable: isKillable(proc),
+          subtreeCpu: (subtree.get(proc.pid)?.cpu ?? proc.cpu).toFixed(1),
+          subtreeMemory: (subtree.get(proc.pid)?.mem ?? proc.mem).toFixed(1)
+        }));
+      this.emit('process-list', this.processList);
+      this.setStatus('processes', { problems: [] });
+    } catch (error) {
+      console.error('Error fetching process list:', error);
+      this.setStatus('processes', { error });
+    }
+  }
+
+  private async sampleDiskInfo() {
+    try {
+      const problems: string[] = [];
+      const [fsSize, disksIO, fsStats] = await Promise.all([
+        this.collector.fsSize(),
+        optional('Disk I/O counters', this.collector.disksIO(), null, problems),
+        optional('Filesystem I/O counters', this.collector.fsStats(), null, problems)
+      ]);
+      const now = Date.now();
+
+      // fsStats counts bytes and disksIO operations, either is null where the
+      // platform has no counters
+      const counters: DiskCounters | null = fsStats && disksIO
+        ? { time: now, readBytes: fsStats.rx, writeBytes: fsStats.wx, readOps: disksIO.rIO, writeOps: disksIO.wIO }
+        : null;
+      const previous = this.diskCounters;
+      let io: DiskInfo['io'] = null;
+      if (counters && previous && now > previous.time) {
+        const seconds = (now - previous.time) / 1000;
+        io = {
+          readBytesPerSec: rate(counters.readBytes, previous.readBytes, seconds),
+          writeBytesPerSec: rate(counters.writeBytes, previous.writeBytes, seconds),
+          readOpsPerSec: rate(counters.readOps, previous.readOps, seconds),
+          writeOpsPerSec: rate(counters.writeOps, previous.writeOps, seconds)
+        };
+      }
+      this.diskCounters = counters;
+
+      this.diskInfo = {
+        filesystems: fsSize
+          .filter(fs => fs.size > 0)
+          .map(fs => ({
+            fs: fs.fs,
+            type: fs.type,
+            mount: fs.mount,
+            size: fs.size,
+            used: fs.used,
+            available: fs.available,
+            usedPercent: ((fs.used / fs.size) * 100).toFixed(1),
+            readOnly: fs.rw === false
+          })),
+        io,
+        topProcesses: await optional('Per-process I/O', this.topProcessesByIo(now), null, problems),
+        timestamp: new Date(now).toISOString()
+      };
+      this.emit('disk-info', this.diskInfo);
+      this.setStatus('disks', { problems });
+    } catch (error) {
+      console.error('Error fetching disk info:', error);
+      this.setStatus('disks', { error });
+    }
+  }
+
+  // Processes of the latest scan with the highest I/O rates since the
+  // previous disk sample
+  private async topProcessesByIo(now: number): Promise<ProcessIo[] | null> {
+    const counters = await this.collector.processIo(this.pids);
+    const previous = this.processIo;
+    this.processIo = counters && counters.size > 0 ? { time: now, counters } : null;
+    if (!this.processIo || !previous || now <= previous.time) return null;
+
+    const seconds = (now - previous.time) / 1000;
+    const rates: ProcessIo[] = [];
+    this.processIo.counters.forEach((current, pid) => {
+      const before = previous.counters.get(pid);
+      if (!before) return;
+      const readBytesPerSec = rate(current.read, before.read, seconds);
+      const writeBytesPerSec = rate(current.write, before.write, seconds);
+      if (readBytesPerSec === 0 && writeBytesPerSec === 0) return;
+      rates.push({
+        pid,
+        name: this.processIndex.get(pid)?.name ?? String(pid),
+        readBytesPerSec,
+        writeBytesPerSec
+      });
+    });
+
+    return rates
+      .sort((a, b) => (b.readBytesPerSec + b.writeBytesPerSec) - (a.readBytesPerSec + a.writeBytesPerSec))
+      .slice(0, TOP_IO_PROCESSES);
+  }
+
+  private async sampleNetworkInfo() {
+    try {
+      const problems: string[] = [];
+      const [stats, connections] = await Promise.all([
+        this.collector.networkStats(),
+        optional('Socket list', this.collector.networkConnections(), [], problems)
+      ]);
+      const now = Date.now();
+
+      const previous = this.networkCounters;
+      const seconds = previous && now > previous.time ? (now - previous.time) / 1000 : null;
+      const interfaces = stats.map(iface => {
+        const before = previous?.bytes.get(iface.iface);
+        return {
+          iface: iface.iface,
+          operstate: iface.operstate,
+          rxBytesPerSec: seconds && before ? rate(iface.rx_bytes, before.rx, seconds) : null,
+          txBytesPerSec: seconds && before ? rate(iface.tx_bytes, before.tx, seconds) : null,
+          rxErrors: iface.rx_errors,
+          txErrors: iface.tx_errors
+        };
+      });
+      this.networkCounters = {
+        time: now,
+        bytes: new Map(stats.map(iface => [iface.iface, { rx: iface.rx_bytes, tx: iface.tx_bytes }]))
+      };
+
+      // Listening sockets first, they answer "who holds this port?"
+      const established = (conn: NetworkConnection) => conn.state === 'ESTABLISHED' ? 1 : 0;
+      this.connections = connections
+        .filter(conn => conn.state === 'LISTEN' || conn.state === 'ESTABLISHED' || conn.protocol.startsWith('udp'))
+        .map(conn => {
+          const pid = typeof conn.pid === 'number' && conn.pid > 0 ? conn.pid : null;
+          return {
+            protocol: conn.protocol,
+            localAddress: conn.localAddress,
+            localPort: String(conn.localPort),
+            peerAddress: conn.peerAddress,
+            peerPort: String(conn.peerPort),
+            state: conn.state || '',
+            pid,
+            processName: conn.process || (pid !== null ? this.processIndex.get(pid)?.name : undefined) || ''
+          };
+        })
+        .sort((a, b) => established(a) - established(b));
+
+      this.networkInfo = {
+        interfaces,
+        connections: this.connections.slice(0, MAX_CONNECTIONS),
+        connectionCount: this.connections.length,
+        timestamp: new Date(now).toISOString()
+      };
+      this.emit('network-info', this.networkInfo);
+      this.setStatus('network', { problems });
+    } catch (error) {
+      console.error('Error fetching network info:', error);
+      this.setStatus('network', { error });
+    }
+  }
+}
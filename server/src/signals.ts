@@ -0,0 +1,281 @@
+import { execFile } from 'child_process';
+import type { KillErrorCode, KillMode, KillRequest, KillResponse, ProcessSignal } from '../../shared/protocol';
+
+export type { KillErrorCode, KillMode, KillRequest, ProcessSignal };
+
+export const SIGNALS: readonly ProcessSignal[] = ['SIGTERM', 'SIGINT', 'SIGHUP', 'SIGSTOP', 'SIGCONT', 'SIGKILL'];
+
+export class ProcessControlError extends Error {
+  constructor(public readonly code: KillErrorCode, message: string) {
+    super(message);
+    this.name = 'ProcessControlError';
+  }
+}
+
+export const DEFAULT_GRACE_PERIOD = Number(process.env.KILL_GRACE_PERIOD) || 5000;
+export const MAX_GRACE_PERIOD = 60000;
+
+const ALIVE_POLL_INTERVAL = 250;
+
+export interface KillResult extends KillResponse {
+  pid: number;
+}
+
+export interface TreeKillResult extends KillResult {
+  // Every PID that was signalled, children before parents
+  targets: number[];
+  // Processes that could not be signalled; descendants that exited on their
+  // own in the meantime are not counted
+  failures: { pid: number; code: KillErrorCode; message: string }[];
+}
+
+// The monitor server and whatever started it must never be signalled
+export const isProtectedPid = (pid: number): boolean =>
+  pid === process.pid || pid === process.ppid;
+
+// Windows services that take the session down with them
+const SYSTEM_PROCESS_NAMES = ['System', 'smss.exe', 'csrss.exe', 'wininit.exe', 'winlogon.exe', 'lsass.exe', 'svchost.exe'];
+
+// Whether the dashboard should offer to signal a process. Advisory only, the
+// kill handler still validates every request on its own.
+export const isKillable = ({ pid, parentPid, name }: { pid: number; parentPid: number; name: string }): boolean =>
+  pid > 1
+  && !isProtectedPid(pid)
+  && !SYSTEM_PROCESS_NAMES.includes(name)
+  // Linux kernel threads are all children of kthreadd (PID 2)
+  && !(process.platform === 'linux' && (pid === 2 || parentPid === 2));
+
+export const isProcessSignal = (value: unknown): value is ProcessSignal =>
+  typeof value === 'string' && (SIGNALS as readonly string[]).includes(value);
+
+export const isKillMode = (value: unknown): value is KillMode =>
+  value === 'escalate' || isProcessSignal(value);
+
+// Checks an untrusted kill payload (a bare PID or { pid, signal, gracePeriod, tree })
+// against the latest snapshot before anything is sent to the OS
+export const validateKillRequest = (payload: unknown, knownPids: ReadonlySet<number>): KillRequest => {
+  const request = (typeof payload === 'object' && payload !== null
+    ? payload
+    : { pid: payload }) as Record<string, unknown>;
+  const { pid, signal, gracePeriod, tree } = request;
+
+  if (typeof pid !== 'number' || !Number.isSafeInteger(pid) || pid <= 0) {
+    throw new ProcessControlError('INVALID_PID', `Invalid PID: ${String(pid)}`);
+  }
+  if (isProtectedPid(pid)) {
+    throw new ProcessControlError('PROTECTED_PID', `Process ${pid} is the monitor server and cannot be signalled`);
+  }
+  if (!knownPids.has(pid)) {
+    throw new ProcessControlError('UNKNOWN_PID', `Process ${pid} is not in the current process list`);
+  }
+  if (signal !== undefined && !isKillMode(signal)) {
+    throw new ProcessControlError('INVALID_SIGNAL', `Unsupported signal: ${String(signal)}`);
+  }
+
+  return {
+    pid,
+    signal,
+    gracePeriod: typeof gracePeriod === 'number' ? gracePeriod : undefined,
+    tree: tree === true
+  };
+};
+
+const toProcessControlError = (error: any, pid: number, signal: ProcessSignal): ProcessControlError => {
+  if (error instanceof ProcessControlError) return error;
+  switch (error && error.code) {
+    case 'ESRCH':
+      return new ProcessControlError('NO_SUCH_PROCESS', `Process ${pid} no longer exists`);
+    case 'EPERM':
+      return new ProcessControlError('PERMISSION_DENIED', `Not permitted to send ${signal} to process ${pid}`);
+    default:
+      return new ProcessControlError('SIGNAL_FAILED', (error && error.message) || `Failed to send ${signal} to process ${pid}`);
+  }
+};
+
+// Windows has no real signals, so only the terminating ones can be mapped onto
+// taskkill. Arguments are passed as an array so nothing goes through a shell.
+const taskkill = (pid: number, signal: ProcessSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (!['SIGKILL', 'SIGTERM', 'SIGINT', 'SIGHUP'].includes(signal)) {
+      reject(new ProcessControlError('UNSUPPORTED_SIGNAL', `${signal} is not supported on Windows`));
+      return;
+    }
+
+    const args = signal === 'SIGKILL' ? ['/F', '/PID', String(pid)] : ['/PID', String(pid)];
+    execFile('taskkill', args, (error) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      resolve();
+    });
+  });
+
+export const sendSignal = async (pid: number, signal: ProcessSignal): Promise<void> => {
+  try {
+    if (process.platform === 'win32') {
+      await taskkill(pid, signal);
+    } else {
+      process.kill(pid, signal);
+    }
+  } catch (error) {
+    throw toProcessControlError(error, pid, signal);
+  }
+};
+
+export const isProcessAlive = (pid: number): boolean => {
+  try {
+    // Signal 0 performs the existence and permission checks without
+    // delivering anything
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    // EPERM means the process exists but belongs to someone else
+    return error.code === 'EPERM';
+  }
+};
+
+const waitForExit = async (pid: number, timeout: number): Promise<boolean> => {
+  const deadline = Date.now() + timeout;
+  while (Date.now() < deadline) {
+    if (!isProcessAlive(pid)) return true;
+    await new Promise(resolve => setTimeout(resolve, ALIVE_POLL_INTERVAL));
+  }
+  return !isProcessAlive(pid);
+};
+
+export const clampGracePeriod = (gracePeriod?: number): number => {
+  if (typeof gracePeriod !== 'number' || !Number.isFinite(gracePeriod)) {
+    return DEFAULT_GRACE_PERIOD;
+  }
+  return Math.min(Math.max(gracePeriod, 0), MAX_GRACE_PERIOD);
+};
+
+const failure = (pid: number, signal: ProcessSignal, error: ProcessControlError): KillResult => ({
+  success: false,
+  pid,
+  signal,
+  code: error.code,
+  message: error.message
+});
+
+export const signalProcess = async ({ pid, signal = 'SIGKILL', gracePeriod }: KillRequest): Promise<KillResult> => {
+  if (signal !== 'escalate') {
+    try {
+      await sendSignal(pid, signal);
+    } catch (error: any) {
+      return failure(pid, signal, error);
+    }
+    return {
+      success: true,
+      pid,
+      signal,
+      message: signal === 'SIGKILL' || signal === 'SIGTERM'
+        ? `Process ${pid} terminated successfully with ${signal}`
+        : `Sent ${signal} to process ${pid}`
+    };
+  }
+
+  const grace = clampGracePeriod(gracePeriod);
+
+  try {
+    await sendSignal(pid, 'SIGTERM');
+  } catch (error: any) {
+    return failure(pid, 'SIGTERM', error);
+  }
+
+  if (await waitForExit(pid, grace)) {
+    return {
+      success: true,
+      pid,
+      signal: 'SIGTERM',
+      message: `Process ${pid} exited after SIGTERM`
+    };
+  }
+
+  try {
+    await sendSignal(pid, 'SIGKILL');
+  } catch (error: any) {
+    return failure(pid, 'SIGKILL', error);
+  }
+
+  return {
+    success: true,
+    pid,
+    signal: 'SIGKILL',
+    message: `Process ${pid} ignored SIGTERM for ${grace}ms and was killed with SIGKILL`
+  };
+};
+
+// Refuses to take down a tree that the monitor server itself is part of
+export const validateProcessTree = (pid: number, descendants: number[]) => {
+  const protectedPid = descendants.find(isProtectedPid);
+  if (protectedPid !== undefined) {
+    throw new ProcessControlError('PROTECTED_PID', `The tree of process ${pid} contains the monitor server (${protectedPid})`);
+  }
+};
+
+// Signals a process and the given descendants (deepest first, see
+// descendantsOf). With 'escalate' every target gets SIGTERM, the whole tree
+// shares one grace period and only the survivors are sent SIGKILL.
+export const signalProcessTree = async (
+  { pid, signal = 'SIGKILL', gracePeriod }: KillRequest,
+  descendants: number[]
+): Promise<TreeKillResult> => {
+  const targets = [...descendants, pid];
+  const failures: TreeKillResult['failures'] = [];
+
+  // Returns the targets the signal reached
+  const signalAll = async (pids: number[], sig: ProcessSignal) => {
+    const reached: number[] = [];
+    for (const target of pids) {
+      try {
+        await sendSignal(target, sig);
+        reached.push(target);
+      } catch (error: any) {
+        // A child may exit by itself once its parent is gone
+        if (target !== pid && error.code === 'NO_SUCH_PROCESS') continue;
+        failures.push({ pid: target, code: error.code, message: error.message });
+      }
+    }
+    return reached;
+  };
+
+  let finalSignal: ProcessSignal = signal === 'escalate' ? 'SIGTERM' : signal;
+  const signalled = await signalAll(targets, finalSignal);
+
+  if (signal === 'escalate') {
+    const deadline = Date.now() + clampGracePeriod(gracePeriod);
+    let alive = signalled.filter(isProcessAlive);
+    while (alive.length > 0 && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, ALIVE_POLL_INTERVAL));
+      alive = alive.filter(isProcessAlive);
+    }
+    if (alive.length > 0) {
+      finalSignal = 'SIGKILL';
+      await signalAll(alive, 'SIGKILL');
+    }
+  }
+
+  if (failures.length > 0) {
+    const [first] = failures;
+    return {
+      success: false,
+      pid,
+      signal: finalSignal,
+      code: first.code,
+      message: `Signalled ${targets.length - failures.length} of ${targets.length} processes in the tree of ${pid}: ${first.message}`,
+      targets,
+      failures
+    };
+  }
+
+  return {
+    success: true,
+    pid,
+    signal: finalSignal,
+    message: `Sent ${finalSignal} to process ${pid} and ${descendants.length} descendant(s)`,
+    targets,
+    failures
+  };
+};
@@ -0,0 +1,79 @@
+import type { StreamName, StreamSettings, StreamSubscription } from '../../shared/protocol';
+
+export type { StreamName, StreamSettings, StreamSubscription };
+
+export const STREAM_NAMES: readonly StreamName[] = ['system', 'cores', 'processes', 'disks', 'network'];
+
+export const MIN_STREAM_INTERVAL = 1000;
+export const MAX_STREAM_INTERVAL = 60000;
+
+// Timers fire a little late or early, an update this close to its due time is
+// sent rather than held back for a whole sampling interval
+const DUE_TOLERANCE = 250;
+
+export const DEFAULT_STREAMS: StreamSubscription = {
+  system: { enabled: true, interval: 2000, paused: false },
+  cores: { enabled: true, interval: 2000, paused: false },
+  processes: { enabled: true, interval: 3000, paused: false },
+  disks: { enabled: true, interval: 5000, paused: false },
+  network: { enabled: true, interval: 5000, paused: false }
+};
+
+export class StreamSubscriptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StreamSubscriptionError';
+  }
+}
+
+// Applies an untrusted subscribe request to a client's current streams. The
+// whole request is validated before anything changes.
+export const applySubscribeRequest = (current: StreamSubscription, input: unknown): StreamSubscription => {
+  if (typeof input !== 'object' || input === null) {
+    throw new StreamSubscriptionError('subscribe expects an object of streams');
+  }
+
+  const next = { ...current };
+  Object.entries(input as Record<string, unknown>).forEach(([name, value]) => {
+    if (!STREAM_NAMES.includes(name as StreamName)) {
+      throw new StreamSubscriptionError(`Unknown stream ${name}, expected one of ${STREAM_NAMES.join(', ')}`);
+    }
+    if (typeof value !== 'object' || value === null) {
+      throw new StreamSubscriptionError(`${name} must be an object`);
+    }
+
+    const { enabled, interval, paused } = value as Record<string, unknown>;
+    const settings = { ...next[name as StreamName] };
+    if (enabled !== undefined) {
+      if (typeof enabled !== 'boolean') {
+        throw new StreamSubscriptionError(`${name}.enabled must be a boolean`);
+      }
+      settings.enabled = enabled;
+    }
+    if (paused !== undefined) {
+      if (typeof paused !== 'boolean') {
+        throw new StreamSubscriptionError(`${name}.paused must be a boolean`);
+      }
+      settings.paused = paused;
+    }
+    if (interval !== undefined) {
+      if (typeof interval !== 'number' || !Number.isInteger(interval)
+        || interval < MIN_STREAM_INTERVAL || interval > MAX_STREAM_INTERVAL) {
+        throw new StreamSubscriptionError(
+          `${name}.interval must be an integer between ${MIN_STREAM_INTERVAL} and ${MAX_STREAM_INTERVAL} ms`
+        );
+      }
+      settings.interval = interval;
+    }
+    next[name as StreamName] = settings;
+  });
+  return next;
+};
+
+// Whether the client is waiting for updates of a stream at all
+export const isActive = (settings: StreamSettings): boolean =>
+  settings.enabled && !settings.paused;
+
+// Whether a stream last sent at `lastSent` should get the sample taken now
+export const isDue = (settings: StreamSettings, lastSent: number, now: number): boolean =>
+  isActive(settings) && now - lastSent + DUE_TOLERANCE >= settings.interval;
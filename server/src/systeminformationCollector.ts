@@ -0,0 +1,24 @@
+import si from 'systeminformation';
+import { readProcessIo } from './processIo';
+import { readProcessDetail } from './processDetail';
+import { loadAverage, readCoreMaxSpeeds } from './cpuInfo';
+import type { MetricsCollector } from './metricsCollector';
+
+// The default backend: systeminformation for everything it covers
+export const systeminformationCollector: MetricsCollector = {
+  currentLoad: () => si.currentLoad(),
+  mem: () => si.mem(),
+  cpu: () => si.cpu(),
+  cpuCurrentSpeed: () => si.cpuCurrentSpeed(),
+  cpuTemperature: () => si.cpuTemperature(),
+  coreMaxSpeeds: readCoreMaxSpeeds,
+  loadAverage,
+  processes: () => si.processes(),
+  processIo: readProcessIo,
+  processDetail: readProcessDetail,
+  fsSize: () => si.fsSize(),
+  disksIO: () => si.disksIO(),
+  fsStats: () => si.fsStats(),
+  networkStats: () => si.networkStats('*'),
+  networkConnections: () => si.networkConnections()
+};
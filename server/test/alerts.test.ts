@@ -0,0 +1,238 @@
+import assert from 'node:assert/strict';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { test } from 'node:test';
+import type { Alert, SystemInfo } from '../../shared/protocol';
+import { AlertEngine, SystemRule, sendWebhook } from '../src/alerts';
+import { startServer } from './testServer';
+
+const RULE: SystemRule = {
+  id: 'high-cpu',
+  name: 'System CPU above 90%',
+  type: 'system',
+  metric: 'cpu',
+  op: '>',
+  threshold: 90,
+  clearThreshold: 80,
+  for: 60,
+  cooldown: 300,
+  severity: 'critical'
+};
+
+const SECOND = 1000;
+const T0 = Date.UTC(2025, 9, 9, 8, 0, 0);
+
+const snapshot = (cpu: number): SystemInfo => ({
+  cpu: {
+    load: cpu.toFixed(1),
+    manufacturer: 'Intel',
+    brand: 'Xeon',
+    cores: 2,
+    physicalCores: 1,
+    speed: null,
+    speedMax: null,
+    temperature: null,
+    loadAverage: null
+  },
+  memory: { total: 1000, used: 500, free: 500, usedPercent: '50.0' },
+  timestamp: new Date(T0).toISOString()
+});
+
+// An alert as the webhook receives it, without its undefined fields
+const asPosted = (alerts: Alert[]): Alert[] => JSON.parse(JSON.stringify(alerts));
+
+interface Delivery {
+  method?: string;
+  contentType?: string;
+  alert: Alert;
+}
+
+// Stands in for the webhook receiver; answers every request with `status`
+const startReceiver = async (status = 204) => {
+  const deliveries: Delivery[] = [];
+  const receiver = http.createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => { body += chunk; });
+    request.on('end', () => {
+      deliveries.push({ method: request.method, contentType: request.headers['content-type'], alert: JSON.parse(body) });
+      response.writeHead(status).end();
+    });
+  });
+  await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', resolve));
+  const { port } = receiver.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/hooks/alerts`,
+    deliveries,
+    close: () => new Promise<void>(resolve => receiver.close(() => resolve()))
+  };
+};
+
+// An engine that notifies the receiver like index.ts does. settle() waits
+// for every webhook sent so far to be answered.
+const notifying = (url: string) => {
+  const engine = new AlertEngine([RULE]);
+  const sending: Promise<void>[] = [];
+  engine.on('alert', alert => sending.push(sendWebhook(url, alert)));
+  return { engine, settle: () => Promise.all(sending) };
+};
+
+test('an alert goes pending, fires and clears, and each change is posted once', async () => {
+  const receiver = await startReceiver();
+  const { engine, settle } = notifying(receiver.url);
+
+  try {
+    // Pending until the condition has held for 60 s
+    engine.evaluateSystem(snapshot(95), T0);
+    engine.evaluateSystem(snapshot(97), T0 + 30 * SECOND);
+    await settle();
+    assert.equal(receiver.deliveries.length, 0);
+    assert.deepEqual(engine.activeAlerts, []);
+
+    engine.evaluateSystem(snapshot(96), T0 + 60 * SECOND);
+    await settle();
+    assert.equal(receiver.deliveries.length, 1);
+    const [firing] = receiver.deliveries;
+    assert.equal(firing.method, 'POST');
+    assert.equal(firing.contentType, 'application/json');
+    assert.deepEqual(firing.alert, {
+      id: `high-cpu:${T0 + 60 * SECOND}`,
+      ruleId: 'high-cpu',
+      ruleName: 'System CPU above 90%',
+      severity: 'critical',
+      state: 'firing',
+      message: 'System cpu is 96 (> 90)',
+      value: 96,
+      threshold: 90,
+      startedAt: T0 + 60 * SECOND
+    });
+    assert.deepEqual(asPosted(engine.activeAlerts), [firing.alert]);
+
+    // Between the thresholds it keeps firing, below clearThreshold it clears
+    engine.evaluateSystem(snapshot(85), T0 + 70 * SECOND);
+    await settle();
+    assert.equal(receiver.deliveries.length, 1);
+    assert.equal(engine.activeAlerts.length, 1);
+
+    engine.evaluateSystem(snapshot(75), T0 + 80 * SECOND);
+    await settle();
+    assert.equal(receiver.deliveries.length, 2);
+    assert.deepEqual(receiver.deliveries[1].alert, {
+      ...firing.alert,
+      state: 'resolved',
+      message: 'System cpu is back to normal',
+      value: 75,
+      resolvedAt: T0 + 80 * SECOND
+    });
+    assert.deepEqual(engine.activeAlerts, []);
+  } finally {
+    await receiver.close();
+  }
+});
+
+test('an alert that comes due during its cooldown is posted when the cooldown ends', async () => {
+  const receiver = await startReceiver();
+  const { engine, settle } = notifying(receiver.url);
+
+  try {
+    engine.evaluateSystem(snapshot(95), T0);
+    engine.evaluateSystem(snapshot(95), T0 + 60 * SECOND);
+    engine.evaluateSystem(snapshot(70), T0 + 90 * SECOND);
+    await settle();
+    assert.deepEqual(receiver.deliveries.map(delivery => delivery.alert.state), ['firing', 'resolved']);
+
+    // Due again at +160 s, but the last notification was at +60 s
+    engine.evaluateSystem(snapshot(95), T0 + 100 * SECOND);
+    engine.evaluateSystem(snapshot(95), T0 + 160 * SECOND);
+    engine.evaluateSystem(snapshot(99), T0 + 300 * SECOND);
+    await settle();
+    assert.equal(receiver.deliveries.length, 2);
+    assert.deepEqual(engine.activeAlerts, []);
+
+    engine.evaluateSystem(snapshot(98), T0 + 360 * SECOND);
+    await settle();
+    assert.equal(receiver.deliveries.length, 3);
+    const refired = receiver.deliveries[2].alert;
+    assert.equal(refired.state, 'firing');
+    assert.equal(refired.value, 98);
+    assert.equal(refired.startedAt, T0 + 360 * SECOND);
+    assert.deepEqual(asPosted(engine.activeAlerts), [refired]);
+
+    engine.evaluateSystem(snapshot(50), T0 + 370 * SECOND);
+    await settle();
+    assert.deepEqual(
+      receiver.deliveries.map(delivery => delivery.alert.state),
+      ['firing', 'resolved', 'firing', 'resolved']
+    );
+  } finally {
+    await receiver.close();
+  }
+});
+
+test('an alert held back by the cooldown is dropped if the condition ends first', async () => {
+  const receiver = await startReceiver();
+  const { engine, settle } = notifying(receiver.url);
+
+  try {
+    engine.evaluateSystem(snapshot(95), T0);
+    engine.evaluateSystem(snapshot(95), T0 + 60 * SECOND);
+    engine.evaluateSystem(snapshot(70), T0 + 90 * SECOND);
+
+    engine.evaluateSystem(snapshot(95), T0 + 100 * SECOND);
+    engine.evaluateSystem(snapshot(95), T0 + 200 * SECOND);
+    engine.evaluateSystem(snapshot(70), T0 + 250 * SECOND);
+    // Breaching again starts a new `for` period
+    engine.evaluateSystem(snapshot(95), T0 + 400 * SECOND);
+    engine.evaluateSystem(snapshot(95), T0 + 430 * SECOND);
+    await settle();
+    assert.equal(receiver.deliveries.length, 2);
+
+    engine.evaluateSystem(snapshot(95), T0 + 460 * SECOND);
+    await settle();
+    assert.equal(receiver.deliveries.length, 3);
+    assert.equal(receiver.deliveries[2].alert.startedAt, T0 + 460 * SECOND);
+  } finally {
+    await receiver.close();
+  }
+});
+
+test('webhook failures are logged, not thrown', async t => {
+  const error = t.mock.method(console, 'error', () => {});
+  const receiver = await startReceiver(500);
+
+  try {
+    const { engine, settle } = notifying(receiver.url);
+    engine.evaluateSystem(snapshot(95), T0);
+    engine.evaluateSystem(snapshot(95), T0 + 60 * SECOND);
+    await settle();
+    assert.equal(receiver.deliveries.length, 1);
+    assert.match(String(error.mock.calls[0].arguments[0]), /responded with 500/);
+  } finally {
+    await receiver.close();
+  }
+
+  // Nobody listens there any more
+  await sendWebhook(receiver.url, receiver.deliveries[0].alert);
+  assert.match(String(error.mock.calls[1].arguments[0]), /Error sending alert webhook/);
+});
+
+test('webhook URLs that cannot be requested are logged, not thrown', async t => {
+  const error = t.mock.method(console, 'error', () => {});
+  const { engine, settle } = notifying('localhost:9000/hooks/alerts');
+  engine.evaluateSystem(snapshot(95), T0);
+  engine.evaluateSystem(snapshot(95), T0 + 60 * SECOND);
+  await settle();
+  await sendWebhook('ftp://127.0.0.1/hooks/alerts', engine.activeAlerts[0]);
+
+  assert.equal(error.mock.callCount(), 2);
+  error.mock.calls.forEach(call => {
+    assert.equal(call.arguments[0], 'Error sending alert webhook:');
+    assert.match(String(call.arguments[1]), /not supported/);
+  });
+});
+
+test('the server refuses to start with a webhook URL it cannot post to', async () => {
+  await assert.rejects(startServer({ ALERT_WEBHOOK_URL: 'localhost:9000/hooks/alerts' }),
+    /exited with 1[^]*ALERT_WEBHOOK_URL must be an http:\/\/ or https:\/\/ URL, got localhost:9000/);
+  await assert.rejects(startServer({ ALERT_WEBHOOK_URL: 'ftp://127.0.0.1/hooks/alerts' }),
+    /ALERT_WEBHOOK_URL must be an http:\/\/ or https:\/\/ URL/);
+});
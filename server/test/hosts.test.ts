@@ -0,0 +1,145 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { test } from 'node:test';
+import { Socket, io } from 'socket.io-client';
+import type {
+  ClientToServerEvents,
+  ProtocolVersion,
+  ServerToClientEvents,
+  SystemInfo
+} from '../../shared/protocol';
+import { hashPassword } from '../src/auth';
+import type { HostSummary } from '../src/hub';
+import { TestServer, startServer } from './testServer';
+
+type DashboardSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+const PROTOCOL_VERSION: ProtocolVersion = 10;
+
+const HUB_SECRET = 'test-hub-secret-0123456789';
+
+// A users file with one viewer, in a directory removed again by remove()
+const writeUsers = (username: string, password: string) => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'procmon-users-'));
+  const file = path.join(directory, 'users.json');
+  fs.writeFileSync(file, JSON.stringify([{ username, passwordHash: hashPassword(password), role: 'viewer' }]));
+  return { file, remove: () => fs.rmSync(directory, { recursive: true, force: true }) };
+};
+
+const login = async (server: TestServer, username: string, password: string) => {
+  const response = await fetch(`${server.url}/api/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password })
+  });
+  return { status: response.status, token: response.ok ? (await response.json()).token as string : null };
+};
+
+// Connects like the dashboard does, one socket per host, and resolves once
+// the host's system info has arrived
+const connect = (url: string, token?: string | null, protocolVersion = PROTOCOL_VERSION) =>
+  new Promise<{ socket: DashboardSocket; systemInfo: SystemInfo }>((resolve, reject) => {
+    const socket: DashboardSocket = io(url, {
+      forceNew: true,
+      reconnection: false,
+      auth: { token, protocolVersion }
+    });
+    socket.once('system-info', systemInfo => resolve({ socket, systemInfo }));
+    socket.once('connect_error', error => {
+      socket.close();
+      reject(error);
+    });
+  });
+
+// Polls until `check` holds, the hub learns about agents asynchronously
+const eventually = async (check: () => Promise<boolean>, description: string) => {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    if (await check()) return;
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+  assert.fail(`Timed out waiting until ${description}`);
+};
+
+test('each host is connected to with its own session', async () => {
+  const alice = writeUsers('alice', 'alice-password');
+  const bob = writeUsers('bob', 'bob-password');
+  const servers: TestServer[] = [];
+  const sockets: DashboardSocket[] = [];
+
+  try {
+    const first = await startServer({ USERS_FILE: alice.file, AUTH_SECRET: 'first-secret' });
+    servers.push(first);
+    const second = await startServer({ USERS_FILE: bob.file, AUTH_SECRET: 'second-secret' });
+    servers.push(second);
+    assert.notEqual(first.url, second.url);
+
+    await assert.rejects(connect(first.url), /Unauthorized/);
+
+    // Users and tokens belong to the server that issued them
+    const firstLogin = await login(first, 'alice', 'alice-password');
+    assert.equal(firstLogin.status, 200);
+    assert.equal((await login(second, 'alice', 'alice-password')).status, 401);
+    await assert.rejects(connect(second.url, firstLogin.token), /Unauthorized/);
+    const secondLogin = await login(second, 'bob', 'bob-password');
+    assert.equal(secondLogin.status, 200);
+
+    await assert.rejects(connect(first.url, firstLogin.token, 9 as ProtocolVersion), /Protocol version mismatch/);
+
+    const firstHost = await connect(first.url, firstLogin.token);
+    sockets.push(firstHost.socket);
+    const secondHost = await connect(second.url, secondLogin.token);
+    sockets.push(secondHost.socket);
+    assert.equal(firstHost.systemInfo.cpu.load, '37.5');
+    assert.equal(secondHost.systemInfo.cpu.load, '37.5');
+
+    // A host going away leaves the others connected
+    const disconnected = new Promise(resolve => firstHost.socket.once('disconnect', resolve));
+    await first.stop();
+    await disconnected;
+    assert.equal(secondHost.socket.connected, true);
+    const hosts = await fetch(`${second.url}/api/hosts`, { headers: { Authorization: `Bearer ${secondLogin.token}` } });
+    // Not a hub, which is how the dashboard tells
+    assert.equal(hosts.status, 404);
+  } finally {
+    sockets.forEach(socket => socket.close());
+    await Promise.all(servers.map(server => server.stop()));
+    alice.remove();
+    bob.remove();
+  }
+});
+
+test('a hub lists its agents as they connect and keeps them when they go away', async () => {
+  const servers: TestServer[] = [];
+  let socket: DashboardSocket | null = null;
+
+  try {
+    const hub = await startServer({ MODE: 'hub', HUB_SECRET });
+    servers.push(hub);
+    const listedHosts = async (): Promise<HostSummary[]> => (await (await fetch(`${hub.url}/api/hosts`)).json()).hosts;
+    assert.deepEqual(await listedHosts(), []);
+
+    const agent = await startServer({ MODE: 'agent', HUB_SECRET, HUB_URL: hub.url, AGENT_NAME: 'db-1' });
+    servers.push(agent);
+    await eventually(async () => (await listedHosts()).some(host => host.name === 'db-1' && host.connected),
+      'db-1 is connected to the hub');
+
+    // The hub serves the agent's host on its own namespace
+    const host = await connect(`${hub.url}/hosts/db-1`);
+    socket = host.socket;
+    assert.equal(host.systemInfo.cpu.manufacturer, 'Intel');
+    assert.equal((await fetch(`${hub.url}/hosts/db-2/api/metrics`)).status, 404);
+
+    await agent.stop();
+    await eventually(async () => (await listedHosts()).some(summary => summary.name === 'db-1' && !summary.connected),
+      'db-1 is listed as disconnected');
+    assert.equal(socket.connected, true);
+  } finally {
+    socket?.close();
+    // The agent first, so that it does not try to reconnect
+    for (const server of servers.reverse()) {
+      await server.stop();
+    }
+  }
+});
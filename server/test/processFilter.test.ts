@@ -0,0 +1,253 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import type { ProcessInfo } from '../../shared/protocol';
+import { FilterSyntaxError, MAX_FILTER_LENGTH, parseProcessFilter } from '../src/processFilter';
+
+const PROCESSES: ProcessInfo[] = [
+  {
+    pid: 1,
+    parentPid: 0,
+    childCount: 3,
+    name: 'systemd',
+    cpu: '0.1',
+    memory: '0.2',
+    memVsz: 167936,
+    memRss: 12288,
+    command: 'systemd',
+    commandLine: '/usr/lib/systemd/systemd --system',
+    user: 'root',
+    state: 'sleeping',
+    started: '2025-10-09 08:00:00',
+    threads: 1,
+    priority: 20,
+    nice: 0,
+    killable: false,
+    subtreeCpu: '20.0',
+    subtreeMemory: '9.0'
+  },
+  {
+    pid: 1200,
+    parentPid: 1,
+    childCount: 0,
+    name: 'postgres',
+    cpu: '12.4',
+    memory: '3.2',
+    memVsz: 2097152,
+    memRss: 524288,
+    command: 'postgres',
+    commandLine: '/usr/lib/postgresql/16/bin/postgres -D /var/lib/postgresql/data',
+    user: 'postgres',
+    state: 'running',
+    started: '2025-10-09 08:00:10',
+    threads: 6,
+    priority: 15,
+    nice: -5,
+    killable: true,
+    subtreeCpu: '12.4',
+    subtreeMemory: '3.2'
+  },
+  {
+    pid: 2400,
+    parentPid: 1,
+    childCount: 0,
+    name: 'java',
+    cpu: '5.0',
+    memory: '2.0',
+    memVsz: 8388608,
+    memRss: 1048576,
+    command: 'java',
+    commandLine: '/usr/bin/java -jar "my app.jar" --port 8080',
+    user: 'app',
+    state: 'sleeping',
+    started: '2025-10-09 08:01:00',
+    threads: 40,
+    priority: 20,
+    nice: 0,
+    killable: true,
+    subtreeCpu: '5.0',
+    subtreeMemory: '2.0'
+  },
+  {
+    pid: 3100,
+    parentPid: 1,
+    childCount: 0,
+    name: 'chrome',
+    cpu: '2.5',
+    memory: '3.6',
+    memVsz: 4194304,
+    memRss: 262144,
+    command: 'chrome',
+    commandLine: '/opt/google/chrome/chrome --type=renderer',
+    user: 'alice',
+    state: 'sleeping',
+    started: '2025-10-09 09:00:00',
+    threads: null,
+    priority: 20,
+    nice: 10,
+    killable: true,
+    subtreeCpu: '2.5',
+    subtreeMemory: '3.6'
+  }
+];
+
+// PIDs of the processes an expression matches
+const matching = (expression: string) => PROCESSES.filter(parseProcessFilter(expression)).map(proc => proc.pid);
+
+// The FilterSyntaxError an expression is rejected with
+const rejection = (expression: string): FilterSyntaxError => {
+  try {
+    parseProcessFilter(expression);
+  } catch (error) {
+    assert.ok(error instanceof FilterSyntaxError);
+    return error;
+  }
+  assert.fail(`"${expression}" was accepted`);
+};
+
+// The part of the expression an error points at
+const marked = (expression: string) => {
+  const { start, end } = rejection(expression);
+  return expression.slice(start, end);
+};
+
+test('text fields: contains, equals and regular expressions, ignoring case', () => {
+  assert.deepEqual(matching('user:POST'), [1200]);
+  assert.deepEqual(matching('user=post'), []);
+  assert.deepEqual(matching('user=Postgres'), [1200]);
+  assert.deepEqual(matching('name~^(java|chrome)$'), [2400, 3100]);
+  assert.deepEqual(matching('cmd~--TYPE=\\w+'), [3100]);
+  assert.deepEqual(matching('state:run'), [1200]);
+});
+
+test('numeric fields compare with every operator', () => {
+  assert.deepEqual(matching('pid:1200'), [1200]);
+  assert.deepEqual(matching('pid=1200'), [1200]);
+  assert.deepEqual(matching('ppid=1'), [1200, 2400, 3100]);
+  assert.deepEqual(matching('cpu>5'), [1200]);
+  assert.deepEqual(matching('cpu>=5'), [1200, 2400]);
+  assert.deepEqual(matching('cpu<2.5'), [1]);
+  assert.deepEqual(matching('cpu<=2.5'), [1, 3100]);
+  assert.deepEqual(matching('nice<0'), [1200]);
+  assert.deepEqual(matching('nice>=-5 nice<=0'), [1, 1200, 2400]);
+  assert.deepEqual(matching('priority=15'), [1200]);
+});
+
+test('unknown values match no comparison', () => {
+  assert.deepEqual(matching('threads>4'), [1200, 2400]);
+  assert.deepEqual(matching('threads<4'), [1]);
+});
+
+test('percentages take an optional % sign', () => {
+  assert.deepEqual(matching('mem>=2%'), [1200, 2400, 3100]);
+  assert.deepEqual(matching('mem>=2'), [1200, 2400, 3100]);
+  assert.deepEqual(matching('memory>3.5%'), [3100]);
+});
+
+test('sizes are bytes with K, M, G or T for powers of 1024', () => {
+  // RSS is reported in KB: 12 MB, 512 MB, 1 GB and 256 MB
+  assert.deepEqual(matching('rss>=512M'), [1200, 2400]);
+  assert.deepEqual(matching('rss>512MB'), [2400]);
+  assert.deepEqual(matching('rss=1g'), [2400]);
+  assert.deepEqual(matching('rss<16777216'), [1]);
+  assert.deepEqual(matching('rss<16384K'), [1]);
+  assert.deepEqual(matching('vsz>=0.0078125T'), [2400]);
+  assert.deepEqual(matching('vsz>2GiB'), [2400, 3100]);
+});
+
+test('booleans accept true, false, yes and no', () => {
+  assert.deepEqual(matching('killable:false'), [1]);
+  assert.deepEqual(matching('killable=YES'), [1200, 2400, 3100]);
+});
+
+test('field names are case-insensitive and have the table\'s aliases', () => {
+  assert.deepEqual(matching('USER:alice'), [3100]);
+  assert.deepEqual(matching('command~postgresql'), [1200]);
+  assert.deepEqual(matching('parentPid=0'), [1]);
+});
+
+test('every term must match, and a leading - negates one', () => {
+  assert.deepEqual(matching('user:postgres cpu>5 mem>=2% state:running'), [1200]);
+  assert.deepEqual(matching('killable:true -name:chrome'), [1200, 2400]);
+  assert.deepEqual(matching('-cpu>1 -name~^sys'), []);
+  assert.deepEqual(matching('  ppid=1   -user:app  '), [1200, 3100]);
+  assert.deepEqual(matching(''), [1, 1200, 2400, 3100]);
+});
+
+test('bare words match name, user or PID', () => {
+  assert.deepEqual(matching('chrome'), [3100]);
+  assert.deepEqual(matching('ALICE'), [3100]);
+  assert.deepEqual(matching('240'), [2400]);
+  assert.deepEqual(matching('-postgres'), [1, 2400, 3100]);
+  // A lone - is a word, not a negation
+  assert.deepEqual(matching('-'), []);
+});
+
+test('quoted values may hold spaces and escaped quotes', () => {
+  assert.deepEqual(matching('cmd:"--port 8080"'), [2400]);
+  assert.deepEqual(matching('cmd:"\\"my app.jar\\""'), [2400]);
+  assert.deepEqual(matching('-cmd:"my app"'), [1, 1200, 3100]);
+  assert.deepEqual(matching('"post"'), [1200]);
+});
+
+test('errors point at the unknown field', () => {
+  const error = rejection('cpu>5 colour:red');
+  assert.equal(error.start, 6);
+  assert.equal(error.end, 12);
+  assert.match(error.message, /^Unknown field "colour", expected one of pid, ppid, name/);
+  // Object.prototype's keys are no fields either
+  assert.equal(marked('constructor:x'), 'constructor');
+  assert.equal(marked('-toString:x'), 'toString');
+});
+
+test('errors point at the operator a field does not support', () => {
+  const error = rejection('name>java');
+  assert.deepEqual([error.start, error.end], [4, 5]);
+  assert.equal(error.message, 'name does not support >, only : = ~');
+  assert.equal(marked('cpu~5'), '~');
+  assert.equal(marked('killable>=true'), '>=');
+});
+
+test('errors point at values that do not parse', () => {
+  assert.equal(marked('user:root cpu>high'), 'high');
+  assert.equal(rejection('cpu>high').message, '"high" is not a percentage');
+  assert.equal(marked('rss>12Q'), '12Q');
+  assert.equal(marked('pid=1.5.3'), '1.5.3');
+  assert.equal(marked('killable:maybe'), 'maybe');
+  assert.equal(marked('name~(unclosed'), '(unclosed');
+});
+
+test('errors point at missing values and unterminated quotes', () => {
+  const missing = rejection('user:root cpu>');
+  assert.deepEqual([missing.start, missing.end], [10, 14]);
+  assert.equal(missing.message, 'Missing value after cpu>');
+
+  const quote = rejection('cmd:"--port 80');
+  assert.deepEqual([quote.start, quote.end], [4, 14]);
+  assert.equal(quote.message, 'Unterminated quote');
+});
+
+test('expressions over the length limit are rejected past the limit', () => {
+  const expression = 'x'.repeat(MAX_FILTER_LENGTH + 5);
+  const error = rejection(expression);
+  assert.deepEqual([error.start, error.end], [MAX_FILTER_LENGTH, MAX_FILTER_LENGTH + 5]);
+  assert.doesNotThrow(() => parseProcessFilter('x'.repeat(MAX_FILTER_LENGTH)));
+});
+
+test('regular expressions run in linear time, whatever the pattern', () => {
+  // Backtracking takes minutes on this; the long command line makes sure it
+  // would be tried
+  const slow: ProcessInfo = { ...PROCESSES[2], commandLine: 'a'.repeat(20000) };
+  const start = Date.now();
+  assert.equal(parseProcessFilter('cmd~(.*.*.*.*)*X')(slow), false);
+  assert.equal(parseProcessFilter('cmd~(a+)+$')(slow), true);
+  assert.equal(parseProcessFilter('cmd~^(a|aa)*b$')(slow), false);
+  assert.ok(Date.now() - start < 2000, `took ${Date.now() - start} ms`);
+});
+
+test('patterns that need backtracking are rejected', () => {
+  const backreference = rejection('user:root cmd~(a)\\1');
+  assert.deepEqual([backreference.start, backreference.end], [14, 19]);
+  assert.match(backreference.message, /invalid escape sequence/);
+  assert.equal(marked('name~^(?=java)'), '^(?=java)');
+  assert.equal(marked('name~(?<!x)java'), '(?<!x)java');
+});
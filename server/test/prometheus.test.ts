@@ -0,0 +1,236 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import type { ProcessInfo } from '../../shared/protocol';
+import { MAX_PROCESS_NAMES, MetricsSnapshot, formatMetrics, parseProcessNames } from '../src/prometheus';
+import { startServer } from './testServer';
+
+interface Sample {
+  name: string;
+  labels: Record<string, string>;
+  value: number;
+}
+
+interface Exposition {
+  help: Map<string, string>;
+  type: Map<string, string>;
+  samples: Sample[];
+}
+
+const SAMPLE_LINE = /^([a-zA-Z_:][a-zA-Z0-9_:]*)(?:\{(.*)\})? (\S+)$/;
+const LABEL = /([a-zA-Z_][a-zA-Z0-9_]*)="((?:[^"\\]|\\.)*)"(?:,|$)/y;
+
+const unescapeLabel = (value: string) => value.replace(/\\(.)/g, (_, char) => char === 'n' ? '\n' : char);
+
+// Reads the text exposition format strictly: every line is HELP, TYPE or a
+// sample, every family is described before its samples and appears once
+const parseExposition = (text: string): Exposition => {
+  assert.ok(text.endsWith('\n'), 'the exposition ends with a line feed');
+  const exposition: Exposition = { help: new Map(), type: new Map(), samples: [] };
+  let family: string | null = null;
+
+  text.slice(0, -1).split('\n').forEach(line => {
+    const comment = /^# (HELP|TYPE) (\S+) (.+)$/.exec(line);
+    if (comment) {
+      const [, kind, name, rest] = comment;
+      const seen = kind === 'HELP' ? exposition.help : exposition.type;
+      assert.ok(!seen.has(name), `${kind} of ${name} appears once`);
+      assert.ok(!exposition.samples.some(sample => sample.name === name), `${kind} of ${name} precedes its samples`);
+      seen.set(name, rest);
+      family = name;
+      return;
+    }
+
+    const match = SAMPLE_LINE.exec(line);
+    assert.ok(match, `"${line}" is a sample`);
+    const [, name, labelText, value] = match;
+    assert.equal(name, family, `${name} follows its own HELP and TYPE`);
+
+    const labels: Record<string, string> = {};
+    if (labelText !== undefined) {
+      LABEL.lastIndex = 0;
+      while (LABEL.lastIndex < labelText.length) {
+        const label = LABEL.exec(labelText);
+        assert.ok(label, `the labels of "${line}" parse`);
+        labels[label[1]] = unescapeLabel(label[2]);
+      }
+    }
+    assert.ok(Number.isFinite(Number(value)), `the value of "${line}" is a number`);
+    exposition.samples.push({ name, labels, value: Number(value) });
+  });
+
+  return exposition;
+};
+
+const find = (exposition: Exposition, name: string, labels: Record<string, string> = {}) =>
+  exposition.samples.find(sample => sample.name === name
+    && Object.entries(labels).every(([key, value]) => sample.labels[key] === value));
+
+const runningProcess = (name: string, pid: number, cpu: string, memRss: number): ProcessInfo => ({
+  pid,
+  parentPid: 1,
+  childCount: 0,
+  name,
+  cpu,
+  memory: '1.0',
+  memVsz: memRss * 2,
+  memRss,
+  command: name,
+  commandLine: name,
+  user: 'root',
+  state: 'sleeping',
+  started: '2025-10-09 08:00:00',
+  threads: 1,
+  priority: 20,
+  nice: 0,
+  killable: true,
+  subtreeCpu: cpu,
+  subtreeMemory: '1.0'
+});
+
+const SNAPSHOT: MetricsSnapshot = {
+  backend: 'proc',
+  collectors: {
+    system: { state: 'ok', reason: null, lastSuccess: '2025-10-09T08:00:00.000Z', lastAttempt: '2025-10-09T08:00:00.000Z' },
+    disks: { state: 'failed', reason: 'No counters', lastSuccess: null, lastAttempt: '2025-10-09T08:00:00.000Z' }
+  },
+  systemInfo: {
+    cpu: {
+      load: '12.5',
+      manufacturer: 'Intel',
+      brand: 'Xeon',
+      cores: 2,
+      physicalCores: 1,
+      speed: null,
+      speedMax: null,
+      temperature: 48,
+      loadAverage: [1, 0.5, 0.25]
+    },
+    memory: { total: 1000, used: 250, free: 750, usedPercent: '25.0' },
+    timestamp: '2025-10-09T08:00:00.000Z'
+  },
+  cpuCores: { cores: [{ load: '10.0', speed: null, speedMax: null, temperature: null }], timestamp: '' },
+  processes: [
+    runningProcess('say "hi"', 10, '1.5', 100),
+    runningProcess('say "hi"', 11, '2.0', 200),
+    runningProcess('C:\\Tools\\agent.exe', 12, '0.5', 300),
+    runningProcess('two\nlines', 13, '0.0', 400),
+    runningProcess('unlisted', 14, '50.0', 500)
+  ],
+  processNames: ['say "hi"', 'C:\\Tools\\agent.exe', 'two\nlines', 'stopped']
+};
+
+test('every family has HELP and TYPE lines and gauges only', () => {
+  const exposition = parseExposition(formatMetrics(SNAPSHOT));
+  const families = Array.from(new Set(exposition.samples.map(sample => sample.name)));
+
+  assert.deepEqual(families, [
+    'procmon_info',
+    'procmon_collector_up',
+    'procmon_cpu_usage_percent',
+    'procmon_cpu_core_usage_percent',
+    'procmon_cpu_temperature_celsius',
+    'procmon_load_average',
+    'procmon_memory_total_bytes',
+    'procmon_memory_used_bytes',
+    'procmon_memory_usage_percent',
+    'procmon_process_count',
+    'procmon_process_cpu_percent',
+    'procmon_process_memory_percent',
+    'procmon_process_resident_bytes'
+  ]);
+  families.forEach(name => {
+    assert.equal(exposition.type.get(name), 'gauge');
+    assert.ok(exposition.help.get(name), `${name} has help text`);
+  });
+
+  assert.equal(find(exposition, 'procmon_info', { backend: 'proc' })?.value, 1);
+  assert.equal(find(exposition, 'procmon_collector_up', { source: 'system' })?.value, 1);
+  assert.equal(find(exposition, 'procmon_collector_up', { source: 'disks' })?.value, 0);
+  assert.equal(find(exposition, 'procmon_load_average', { period: '15m' })?.value, 0.25);
+});
+
+test('families without data are left out', () => {
+  const exposition = parseExposition(formatMetrics({
+    ...SNAPSHOT,
+    collectors: {},
+    systemInfo: null,
+    cpuCores: null,
+    processes: null
+  }));
+  assert.deepEqual(exposition.samples.map(sample => sample.name), ['procmon_info']);
+});
+
+test('label values with quotes, backslashes and line feeds are escaped', () => {
+  const text = formatMetrics(SNAPSHOT);
+  assert.ok(text.includes('procmon_process_count{name="say \\"hi\\""} 2\n'));
+  assert.ok(text.includes('procmon_process_count{name="C:\\\\Tools\\\\agent.exe"} 1\n'));
+  assert.ok(text.includes('procmon_process_count{name="two\\nlines"} 1\n'));
+
+  const exposition = parseExposition(text);
+  assert.deepEqual(
+    exposition.samples.filter(sample => sample.name === 'procmon_process_count').map(sample => sample.labels.name),
+    SNAPSHOT.processNames
+  );
+});
+
+test('only allow-listed names are exported, summed over their processes', () => {
+  const exposition = parseExposition(formatMetrics(SNAPSHOT));
+
+  assert.equal(find(exposition, 'procmon_process_count', { name: 'say "hi"' })?.value, 2);
+  assert.equal(find(exposition, 'procmon_process_cpu_percent', { name: 'say "hi"' })?.value, 3.5);
+  assert.equal(find(exposition, 'procmon_process_resident_bytes', { name: 'say "hi"' })?.value, 300 * 1024);
+  // Listed but not running: a zero rather than a missing series
+  assert.equal(find(exposition, 'procmon_process_count', { name: 'stopped' })?.value, 0);
+  assert.equal(exposition.samples.filter(sample => sample.labels.name === 'unlisted').length, 0);
+});
+
+test('the allow-list is trimmed, deduplicated and capped', t => {
+  const warn = t.mock.method(console, 'warn', () => {});
+
+  assert.deepEqual(parseProcessNames(' nginx, postgres,,nginx '), ['nginx', 'postgres']);
+  assert.deepEqual(parseProcessNames(undefined), []);
+  assert.equal(warn.mock.callCount(), 0);
+
+  const names = Array.from({ length: MAX_PROCESS_NAMES + 10 }, (_, index) => `worker-${index}`);
+  assert.deepEqual(parseProcessNames(names.join(',')), names.slice(0, MAX_PROCESS_NAMES));
+  assert.equal(warn.mock.callCount(), 1);
+});
+
+test('GET /metrics serves the replayed host in the exposition format', async () => {
+  const names = ['postgres', 'sshd', 'missing', ...Array.from({ length: MAX_PROCESS_NAMES }, (_, index) => `extra-${index}`)];
+  const server = await startServer({ METRICS_PROCESS_NAMES: names.join(',') });
+
+  try {
+    // The first samples are taken right after the server starts listening
+    let response: Response | null = null;
+    let text = '';
+    for (let attempt = 0; attempt < 50 && !text.includes('procmon_process_count'); attempt++) {
+      if (attempt > 0) await new Promise(resolve => setTimeout(resolve, 100));
+      response = await fetch(`${server.url}/metrics`);
+      text = await response.text();
+    }
+
+    assert.equal(response?.status, 200);
+    const contentType = response?.headers.get('content-type') || '';
+    assert.match(contentType, /^text\/plain;/);
+    assert.match(contentType, /version=0\.0\.4/);
+
+    const exposition = parseExposition(text);
+    assert.equal(find(exposition, 'procmon_info', { backend: 'replay' })?.value, 1);
+    assert.equal(find(exposition, 'procmon_cpu_usage_percent')?.value, 37.5);
+    assert.equal(find(exposition, 'procmon_memory_total_bytes')?.value, 8589934592);
+    assert.equal(find(exposition, 'procmon_cpu_core_usage_percent', { core: '1' })?.value, 24.5);
+    assert.equal(find(exposition, 'procmon_process_count', { name: 'postgres' })?.value, 1);
+    assert.equal(find(exposition, 'procmon_process_count', { name: 'missing' })?.value, 0);
+
+    // Names past the cap and processes off the list have no series
+    const exported = exposition.samples
+      .filter(sample => sample.name === 'procmon_process_count')
+      .map(sample => sample.labels.name);
+    assert.deepEqual(exported, names.slice(0, MAX_PROCESS_NAMES));
+    assert.ok(!exposition.samples.some(sample => sample.labels.name === 'systemd'));
+    assert.match(server.output(), /only the first 50 are exported/);
+  } finally {
+    await server.stop();
+  }
+});
@@ -0,0 +1,191 @@
+import assert from 'node:assert/strict';
+import path from 'path';
+import { test } from 'node:test';
+import type { CpuCores, DiskInfo, ProcessInfo, SystemInfo } from '../../shared/protocol';
+import { ReplayCollector } from '../src/replayCollector';
+import { Sampler } from '../src/sampler';
+
+// Two process scans, one each of everything else, from a two-core host
+const RECORDING = path.join(__dirname, 'fixtures', 'recording.jsonl');
+
+// Resolves with the first `count` payloads of an event
+const collect = <T>(sampler: Sampler, event: string, count: number): Promise<T[]> =>
+  new Promise(resolve => {
+    const payloads: T[] = [];
+    const listener = (payload: T) => {
+      payloads.push(payload);
+      if (payloads.length === count) {
+        sampler.off(event, listener);
+        resolve(payloads);
+      }
+    };
+    sampler.on(event, listener);
+  });
+
+// Whether a process may be signalled depends on the PID of the test run itself
+const withoutKillable = ({ killable, ...proc }: ProcessInfo) => proc;
+
+test('the sampler turns a replayed recording into the same payloads every time', async () => {
+  const sampler = new Sampler(ReplayCollector.fromFile(RECORDING));
+  sampler.setIntervals({ systemInfo: 10, processList: 10, diskInfo: 10, networkInfo: 10 });
+
+  const systemInfo = collect<SystemInfo>(sampler, 'system-info', 1);
+  const cpuCores = collect<CpuCores>(sampler, 'cpu-cores', 1);
+  const processLists = collect<ProcessInfo[]>(sampler, 'process-list', 2);
+  const diskInfo = collect<DiskInfo>(sampler, 'disk-info', 1);
+  sampler.start();
+
+  try {
+    const [system] = await systemInfo;
+    assert.match(system.timestamp, /^\d{4}-\d{2}-\d{2}T/);
+    assert.deepEqual({ ...system, timestamp: undefined }, {
+      cpu: {
+        load: '37.5',
+        manufacturer: 'Intel',
+        brand: 'Xeon E-2224',
+        cores: 2,
+        physicalCores: 1,
+        speed: 2.5,
+        speedMax: 4.6,
+        temperature: 55.2,
+        loadAverage: [0.52, 0.41, 0.3]
+      },
+      memory: { total: 8589934592, used: 4294967296, free: 4294967296, usedPercent: '50.0' },
+      timestamp: undefined
+    });
+
+    const [cores] = await cpuCores;
+    assert.deepEqual(cores.cores, [
+      { load: '50.5', speed: 2.4, speedMax: 4.6, temperature: 54 },
+      { load: '24.5', speed: 2.6, speedMax: 4.6, temperature: 56.4 }
+    ]);
+
+    const [first, second] = await processLists;
+    assert.deepEqual(first.map(withoutKillable), [
+      {
+        pid: 1200,
+        parentPid: 1,
+        childCount: 0,
+        name: 'postgres',
+        cpu: '12.4',
+        memory: '3.2',
+        memVsz: 1048576,
+        memRss: 262144,
+        command: 'postgres',
+        commandLine: '/usr/lib/postgresql/16/bin/postgres -D /var/lib/postgresql/data',
+        user: 'postgres',
+        state: 'running',
+        started: '2025-10-09 08:00:10',
+        threads: 6,
+        priority: 15,
+        nice: -5,
+        subtreeCpu: '12.4',
+        subtreeMemory: '3.2'
+      },
+      {
+        pid: 641,
+        parentPid: 640,
+        childCount: 0,
+        name: 'bash',
+        cpu: '1.5',
+        memory: '0.1',
+        memVsz: 9216,
+        memRss: 5120,
+        command: 'bash',
+        commandLine: '/usr/bin/bash',
+        user: 'alice',
+        state: 'sleeping',
+        started: '2025-10-09 09:12:00',
+        threads: 1,
+        priority: 20,
+        nice: 0,
+        subtreeCpu: '1.5',
+        subtreeMemory: '0.1'
+      },
+      {
+        pid: 1,
+        parentPid: 0,
+        childCount: 2,
+        name: 'systemd',
+        cpu: '0.1',
+        memory: '0.2',
+        memVsz: 167936,
+        memRss: 12288,
+        command: 'systemd',
+        commandLine: '/usr/lib/systemd/systemd --system',
+        user: 'root',
+        state: 'sleeping',
+        started: '2025-10-09 08:00:00',
+        threads: 1,
+        priority: 20,
+        nice: 0,
+        subtreeCpu: '14.0',
+        subtreeMemory: '3.6'
+      },
+      {
+        pid: 640,
+        parentPid: 1,
+        childCount: 1,
+        name: 'sshd',
+        cpu: '0.0',
+        memory: '0.1',
+        memVsz: 15360,
+        memRss: 8192,
+        command: 'sshd',
+        commandLine: '/usr/sbin/sshd -D',
+        user: 'root',
+        state: 'sleeping',
+        started: '2025-10-09 08:00:05',
+        threads: 1,
+        priority: 20,
+        nice: 0,
+        subtreeCpu: '1.5',
+        subtreeMemory: '0.2'
+      }
+    ]);
+    assert.equal(first.find(proc => proc.pid === 1)?.killable, false);
+
+    // The second scan: bash exited, sshd got busy
+    assert.deepEqual(
+      second.map(proc => [proc.pid, proc.cpu, proc.childCount, proc.subtreeCpu]),
+      [[1200, '8.1', 0, '8.1'], [640, '2.0', 0, '2.0'], [1, '0.0', 2, '10.1']]
+    );
+
+    // The first disk sample has nothing to compute rates from yet
+    const [disks] = await diskInfo;
+    assert.deepEqual({ ...disks, timestamp: undefined }, {
+      filesystems: [
+        {
+          fs: '/dev/sda1',
+          type: 'ext4',
+          mount: '/',
+          size: 107374182400,
+          used: 26843545600,
+          available: 80530636800,
+          usedPercent: '25.0',
+          readOnly: false
+        },
+        {
+          fs: '/dev/sdb1',
+          type: 'xfs',
+          mount: '/var/lib/postgresql',
+          size: 536870912000,
+          used: 402653184000,
+          available: 134217728000,
+          usedPercent: '75.0',
+          readOnly: true
+        }
+      ],
+      io: null,
+      topProcesses: null,
+      timestamp: undefined
+    });
+
+    assert.deepEqual(
+      Object.entries(sampler.collectorStatus).map(([source, status]) => [source, status?.state]).sort(),
+      [['disks', 'ok'], ['network', 'ok'], ['processes', 'ok'], ['system', 'ok']]
+    );
+  } finally {
+    sampler.stop();
+  }
+});
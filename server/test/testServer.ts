@@ -0,0 +1,81 @@
+import { ChildProcess, spawn } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Replayed, so every server started here reports the same host
+export const RECORDING = path.join(__dirname, 'fixtures', 'recording.jsonl');
+
+// Compiling the server on a slow machine takes a while
+const START_TIMEOUT = 60000;
+
+export interface TestServer {
+  url: string;
+  // Everything the server printed so far
+  output: () => string;
+  stop: () => Promise<void>;
+}
+
+// Runs src/index.ts as its own process on a free port, with its data in a
+// temporary directory that is removed again by stop(). `env` is added to the
+// defaults: the recording, no alert rules and AUTH_DISABLED unless USERS_FILE
+// is given.
+export const startServer = (env: Record<string, string> = {}): Promise<TestServer> => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'procmon-test-'));
+  let output = '';
+
+  const child: ChildProcess = spawn(process.execPath, ['--require', 'ts-node/register', 'src/index.ts'], {
+    cwd: path.join(__dirname, '..'),
+    env: {
+      ...process.env,
+      // Type-checked by tsc already
+      TS_NODE_TRANSPILE_ONLY: 'true',
+      PORT: '0',
+      COLLECTOR: 'replay',
+      REPLAY_FILE: RECORDING,
+      METRICS_DIR: directory,
+      ALERT_RULES_FILE: path.join(directory, 'alert-rules.json'),
+      CLIENT_BUILD_DIR: path.join(directory, 'client'),
+      ...(env.USERS_FILE ? {} : { AUTH_DISABLED: 'true' }),
+      ...env
+    },
+    stdio: ['ignore', 'pipe', 'pipe']
+  });
+
+  const stop = () => new Promise<void>(resolve => {
+    const done = () => {
+      fs.rmSync(directory, { recursive: true, force: true });
+      resolve();
+    };
+    if (child.exitCode !== null || child.signalCode !== null) {
+      done();
+      return;
+    }
+    child.once('exit', done);
+    child.kill();
+  });
+
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      stop().then(() => reject(new Error(`The server did not start in time:\n${output}`)));
+    }, START_TIMEOUT);
+
+    const read = (chunk: Buffer) => {
+      output += chunk.toString();
+      const match = /Server running on port (\d+)/.exec(output);
+      if (match) {
+        clearTimeout(timer);
+        child.stdout?.off('data', read);
+        child.stdout?.on('data', (more: Buffer) => { output += more.toString(); });
+        resolve({ url: `http://127.0.0.1:${match[1]}`, output: () => output, stop });
+      }
+    };
+    child.stdout?.on('data', read);
+    child.stderr?.on('data', (chunk: Buffer) => { output += chunk.toString(); });
+    child.once('exit', code => {
+      clearTimeout(timer);
+      fs.rmSync(directory, { recursive: true, force: true });
+      reject(new Error(`The server exited with ${code}:\n${output}`));
+    });
+  });
+};
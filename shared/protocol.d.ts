@@ -0,0 +1,456 @@
+// Socket.IO event contract between the monitor server and the dashboard.
+//
+// Both sides import these types (server/src/index.ts types its Server with
+// them, client/src/hooks/useSocket.tsx its Socket), so a payload that drifts on
+// one side fails to compile instead of silently rendering blanks. The file
+// holds types only: import it with `import type`, it has no runtime module.
+
+// Bump on every incompatible change. Each side pins its runtime
+// PROTOCOL_VERSION constant to this type, so the bump forces both to follow;
+// the server refuses handshakes that carry a different version.
+export type ProtocolVersion = 10;
+
+// Sent by the client as Socket.IO handshake auth: io(url, { auth })
+export interface HandshakeAuth {
+  token?: string | null;
+  protocolVersion: ProtocolVersion;
+}
+
+export interface SystemInfo {
+  cpu: {
+    // Overall load in percent, one decimal
+    load: string;
+    manufacturer: string;
+    brand: string;
+    // Logical cores (hardware threads) and physical cores
+    cores: number;
+    physicalCores: number;
+    // GHz, current averaged over all cores and the highest the CPU is rated
+    // for. Null where the platform does not report them.
+    speed: number | null;
+    speedMax: number | null;
+    // Degrees Celsius of the package, or the main sensor. Null when no sensor
+    // can be read (most VMs, Windows without admin rights).
+    temperature: number | null;
+    // 1, 5 and 15 minute averages; null on Windows, which has none
+    loadAverage: [number, number, number] | null;
+  };
+  memory: {
+    total: number;
+    used: number;
+    free: number;
+    usedPercent: string;
+  };
+  // When the sample was taken, ISO 8601
+  timestamp: string;
+}
+
+// Per-core figures, sampled together with SystemInfo but sent as their own
+// stream. Lists every logical core.
+export interface CpuCores {
+  cores: {
+    // Percent, one decimal
+    load: string;
+    // GHz, null where not reported
+    speed: number | null;
+    speedMax: number | null;
+    // Degrees Celsius, null unless the sensors map onto logical cores
+    temperature: number | null;
+  }[];
+  timestamp: string;
+}
+
+export interface FilesystemUsage {
+  fs: string;
+  type: string;
+  mount: string;
+  // Bytes
+  size: number;
+  used: number;
+  available: number;
+  // Percent, one decimal
+  usedPercent: string;
+  readOnly: boolean;
+}
+
+// Per second, averaged since the previous sample
+export interface DiskThroughput {
+  readBytesPerSec: number;
+  writeBytesPerSec: number;
+  readOpsPerSec: number;
+  writeOpsPerSec: number;
+}
+
+export interface ProcessIo {
+  pid: number;
+  name: string;
+  // Bytes per second that reached storage, averaged since the previous sample
+  readBytesPerSec: number;
+  writeBytesPerSec: number;
+}
+
+export interface DiskInfo {
+  filesystems: FilesystemUsage[];
+  // Null on the first sample and where the platform has no disk counters
+  io: DiskThroughput | null;
+  // Busiest processes by bytes read plus written, busiest first. Null on the
+  // first sample and where the platform does not report per-process I/O.
+  topProcesses: ProcessIo[] | null;
+  timestamp: string;
+}
+
+export interface InterfaceThroughput {
+  iface: string;
+  // 'up', 'down' or 'unknown' (loopback and some virtual interfaces)
+  operstate: string;
+  // Bytes per second, averaged since the previous sample; null on the first
+  rxBytesPerSec: number | null;
+  txBytesPerSec: number | null;
+  // Cumulative since the interface came up
+  rxErrors: number;
+  txErrors: number;
+}
+
+export interface NetworkConnection {
+  // 'tcp', 'tcp6', 'udp', 'udp6'
+  protocol: string;
+  localAddress: string;
+  localPort: string;
+  // '*' for listening sockets
+  peerAddress: string;
+  peerPort: string;
+  // 'LISTEN', 'ESTABLISHED', ... (empty for UDP)
+  state: string;
+  // Null when the server may not see the owner
+  pid: number | null;
+  processName: string;
+}
+
+export interface NetworkInfo {
+  interfaces: InterfaceThroughput[];
+  // Listening sockets (and UDP sockets) first, then established connections;
+  // at most a few thousand, see connectionCount
+  connections: NetworkConnection[];
+  // Listening plus established before the list was cut short
+  connectionCount: number;
+  timestamp: string;
+}
+
+export interface ProcessConnections {
+  pid: number;
+  // Every listening socket and established connection of the process, from
+  // the latest network sample
+  connections: NetworkConnection[];
+}
+
+// Data a client can subscribe to, each with its own rate
+export type StreamName = 'system' | 'cores' | 'processes' | 'disks' | 'network';
+
+export interface StreamSettings {
+  // Whether the client receives the stream at all
+  enabled: boolean;
+  // Milliseconds between updates, within the server's limits
+  interval: number;
+  // Frozen: no updates until resumed, explicit requests are still answered
+  paused: boolean;
+}
+
+export type StreamSubscription = Record<StreamName, StreamSettings>;
+
+// Changes to some streams; fields left out keep their current value
+export type SubscribeRequest = Partial<Record<StreamName, Partial<StreamSettings>>>;
+
+export type SubscribeResponse =
+  | { success: true; streams: StreamSubscription; minInterval: number; maxInterval: number }
+  | { success: false; error: string };
+
+export interface ProcessInfo {
+  pid: number;
+  parentPid: number;
+  // Direct children in the same scan
+  childCount: number;
+  name: string;
+  // Percent of one core / of total memory, one decimal
+  cpu: string;
+  memory: string;
+  // Resident and virtual size in KiB
+  memRss: number;
+  memVsz: number;
+  // The executable, and the executable with its arguments
+  command: string;
+  commandLine: string;
+  user: string;
+  state: string;
+  started: string;
+  // Null where the collector backend does not count them
+  threads: number | null;
+  priority: number;
+  nice: number;
+  // Whether the dashboard should offer to signal it (not the monitor itself,
+  // init, kernel threads or critical system services)
+  killable: boolean;
+  // The process plus all of its descendants
+  subtreeCpu: string;
+  subtreeMemory: string;
+  // Nesting level, only set in tree mode
+  depth?: number;
+}
+
+export type ProcessSortKey =
+  | 'pid'
+  | 'name'
+  | 'cpu'
+  | 'memory'
+  | 'memRss'
+  | 'memVsz'
+  | 'user'
+  | 'state'
+  | 'command'
+  | 'commandLine'
+  | 'parentPid'
+  | 'threads'
+  | 'priority'
+  | 'nice'
+  | 'started';
+
+// Case-insensitive substrings; `search` matches name, user or PID
+export interface ProcessFilter {
+  search?: string;
+  name?: string;
+  user?: string;
+  command?: string;
+  state?: string;
+  killable?: boolean;
+  // A filter expression like `user:postgres cpu>5 -name:chrome`, see
+  // ProcessFilterField and server/README.md
+  query?: string;
+}
+
+// The fields a filter expression can test
+export type ProcessFilterField =
+  | 'pid'
+  | 'ppid'
+  | 'name'
+  | 'user'
+  | 'cmd'
+  | 'state'
+  | 'cpu'
+  | 'mem'
+  | 'rss'
+  | 'vsz'
+  | 'threads'
+  | 'nice'
+  | 'priority'
+  | 'killable';
+
+// Where a filter expression is invalid, as character offsets into it (end
+// exclusive)
+export interface ProcessFilterError {
+  // The expression the error refers to
+  query: string;
+  start: number;
+  end: number;
+}
+
+// Which slice of the full process list a client receives
+export interface ProcessQuery {
+  sort: ProcessSortKey;
+  direction: 'asc' | 'desc';
+  filter: ProcessFilter;
+  limit: number;
+  offset: number;
+  // List processes depth-first under their parents, siblings in sort order;
+  // filter matches keep their ancestors
+  tree: boolean;
+  // PIDs whose descendants are hidden in tree mode
+  collapsed: number[];
+}
+
+export interface ProcessPage {
+  processes: ProcessInfo[];
+  // Processes (tree rows) matching the filter across all pages
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+// A full page. It replaces whatever the client holds and becomes the base for
+// the deltas numbered seq + 1, seq + 2, ...
+export interface ProcessListSnapshot extends ProcessPage {
+  seq: number;
+}
+
+// Turns the page with number seq - 1 into page seq. A client that holds any
+// other page must not apply it and asks for a snapshot (get-process-list).
+export interface ProcessListDelta {
+  seq: number;
+  // Complete rows that were not on the previous page
+  added: ProcessInfo[];
+  removed: number[];
+  // Rows still on the page: the PID plus every field whose value changed
+  changed: (Partial<ProcessInfo> & { pid: number })[];
+  // Page order as PIDs, only sent when it is not the previous order without
+  // the removed rows followed by the added ones
+  order?: number[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+export type SubscribeProcessesResponse =
+  | { success: true; query: ProcessQuery }
+  // filterError is set when the error is in filter.query
+  | { success: false; error: string; filterError?: ProcessFilterError };
+
+export type ProcessSignal = 'SIGTERM' | 'SIGINT' | 'SIGHUP' | 'SIGSTOP' | 'SIGCONT' | 'SIGKILL';
+
+// 'escalate' sends SIGTERM, waits for the grace period, then SIGKILL if needed
+export type KillMode = ProcessSignal | 'escalate';
+
+// Why a kill request was rejected or failed
+export type KillErrorCode =
+  | 'FORBIDDEN'           // the user lacks the operator role
+  | 'INVALID_PID'         // not a positive integer
+  | 'UNKNOWN_PID'         // not present in the latest process scan
+  | 'PROTECTED_PID'       // the monitor server itself or its parent
+  | 'INVALID_SIGNAL'      // not a ProcessSignal or 'escalate'
+  | 'UNSUPPORTED_SIGNAL'  // valid signal the platform cannot deliver
+  | 'NO_SUCH_PROCESS'     // exited before the signal was delivered
+  | 'PERMISSION_DENIED'   // the server is not allowed to signal it
+  | 'DEMO_MODE'           // the processes are made up (--demo) or replayed
+  | 'SIGNAL_FAILED';      // anything else
+
+export interface KillRequest {
+  pid: number;
+  signal?: KillMode;
+  // Milliseconds to wait before escalating to SIGKILL
+  gracePeriod?: number;
+  // Signal every descendant as well, children first
+  tree?: boolean;
+}
+
+// Sent once a kill request has passed validation, before any signal
+export interface KillAcknowledgement {
+  pid: number;
+  signal: KillMode;
+}
+
+export interface KillResponse {
+  success: boolean;
+  // Missing when the request carried no usable PID
+  pid?: number;
+  // The signal that finally took effect (or the last one attempted)
+  signal?: ProcessSignal;
+  code?: KillErrorCode;
+  message: string;
+  // Process tree requests: every PID signalled and the ones that failed
+  targets?: number[];
+  failures?: { pid: number; code: KillErrorCode; message: string }[];
+}
+
+export interface ProcessSample {
+  t: number;
+  cpu: number;
+  mem: number;
+  memRss: number;
+  memVsz: number;
+}
+
+export interface ProcessHistory {
+  pid: number;
+  name: string;
+  // Start time reported by the OS; together with the PID it identifies the process
+  started: string;
+  samples: ProcessSample[];
+}
+
+export interface ProcessHistoryError {
+  pid: unknown;
+  error: string;
+}
+
+export interface Alert {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  severity: 'warning' | 'critical';
+  state: 'firing' | 'resolved';
+  message: string;
+  value?: number;
+  threshold?: number;
+  pid?: number;
+  processName?: string;
+  startedAt: number;
+  resolvedAt?: number;
+}
+
+// Where a stream's samples come from on the server
+export type CollectorSource = 'system' | 'processes' | 'disks' | 'network';
+
+// ok: the last sample succeeded in full. degraded: it succeeded, but part of
+// it (e.g. temperatures, per-process I/O) could not be read. failed: the last
+// attempt failed, whatever the client holds is from lastSuccess.
+export type CollectorState = 'ok' | 'degraded' | 'failed';
+
+export interface CollectorStatus {
+  state: CollectorState;
+  // What went wrong, null when ok
+  reason: string | null;
+  // ISO dates; lastSuccess is null while the source has never worked
+  lastSuccess: string | null;
+  lastAttempt: string;
+}
+
+// Where the server gets its samples: measured with systeminformation or from
+// /proc, played back from a recording, or generated (--demo)
+export type CollectorBackend = 'systeminformation' | 'proc' | 'replay' | 'demo';
+
+export interface CollectorStatusReport {
+  backend: CollectorBackend;
+  // The server runs with --demo and every sample is generated, not measured
+  demo: boolean;
+  // Only the sources that have been sampled at least once
+  collectors: Partial<Record<CollectorSource, CollectorStatus>>;
+}
+
+export interface ServerToClientEvents {
+  'system-info': (info: SystemInfo) => void;
+  'cpu-cores': (cores: CpuCores) => void;
+  'disk-info': (disks: DiskInfo) => void;
+  'network-info': (network: NetworkInfo) => void;
+  // This client's page of the process list in full: on connect, after
+  // subscribe-processes and when requested with get-process-list
+  'process-list': (snapshot: ProcessListSnapshot) => void;
+  // What changed on that page since the last snapshot or delta, on every scan
+  // that changed anything
+  'process-list-delta': (delta: ProcessListDelta) => void;
+  'subscribe-processes-response': (response: SubscribeProcessesResponse) => void;
+  'subscribe-response': (response: SubscribeResponse) => void;
+  'process-history': (history: ProcessHistory | ProcessHistoryError) => void;
+  'process-connections': (connections: ProcessConnections) => void;
+  'kill-process-acknowledged': (ack: KillAcknowledgement) => void;
+  'kill-process-response': (response: KillResponse) => void;
+  // Currently firing alerts, sent on connect
+  'alerts': (alerts: Alert[]) => void;
+  // An alert started firing or resolved
+  'alert': (alert: Alert) => void;
+  // On connect and whenever a collector changes state or reason
+  'collector-status': (report: CollectorStatusReport) => void;
+}
+
+export interface ClientToServerEvents {
+  // Choose streams, their rates, and pause or resume them
+  'subscribe': (request: SubscribeRequest) => void;
+  // Re-send the latest cached sample right away
+  'get-system-info': () => void;
+  // Also how a client resyncs after missing a delta
+  'get-process-list': () => void;
+  // Replace this client's process list query; omitted fields use defaults
+  'subscribe-processes': (query: Partial<ProcessQuery>) => void;
+  // Rolling CPU/memory history of one process
+  'get-process-history': (request: { pid: number; started?: string }) => void;
+  // Sockets a process has open
+  'get-process-connections': (request: { pid: number }) => void;
+  // A bare PID sends SIGKILL
+  'kill-process': (request: KillRequest | number) => void;
+}
@@ -18,8 +18,21 @@ echo.
 
 :: Install dependencies if needed
 if not exist "node_modules" (
+    echo Installing launcher dependencies...
+    call npm install
+    if %errorLevel% NEQ 0 (
+        echo Error installing launcher dependencies.
+        pause
+        exit /B 1
+    )
+)
+
+:: Check if server dependencies are installed
+if not exist "server\node_modules" (
     echo Installing server dependencies...
+    cd server
     call npm install
+    cd ..
     if %errorLevel% NEQ 0 (
         echo Error installing server dependencies.
         pause
@@ -43,7 +56,7 @@ if not exist "client\node_modules" (
 echo.
 echo Starting server and client...
 echo.
-echo NOTE: The server will run on port 3000
+echo NOTE: The server will run on port 5000, the dashboard on port 3000
 
 :: Start the server separately
 echo Starting server in a new window...